@@ -1,37 +1,326 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei';
-import * as THREE from 'three';
+import { Environment } from '@react-three/drei';
 import { SimulationScene } from './components/SimulationScene';
 import { UIControls } from './components/UIControls';
 import { HandTracking, HandData } from './components/HandTracking';
+import { SceneCamera } from './components/SceneCamera';
+import { CachePlayback } from './components/CachePlayback';
+import { TimelineControls } from './components/TimelineControls';
+import { supportsWorkerSimulation } from './simulation/ClothSimulation';
+import type { FabricMaterial } from './simulation/FabricMaterial';
+import type { SolverMethod, SolverStats } from './simulation/ClothSolver';
+import type { Collider } from './simulation/colliders';
+import type { WindSettings } from './simulation/wind';
+import { PinSet, togglePinnedVertex } from './simulation/pins';
+import type { Garment } from './simulation/pattern';
+import type { ClothLayer } from './simulation/layers';
+import { CameraSettings, Scene, SceneLight, createDefaultScene, fetchScene } from './simulation/sceneFile';
+import { ClothExportSource, clothExportMesh, colliderExportMesh } from './simulation/meshExport';
+import { FrameCache, PlaybackState } from './simulation/frameCache';
+import { InputLog, InputPlayer, InputRecorder } from './simulation/inputLog';
+import { DEFAULT_TIMESTEP } from './simulation/FixedTimestep';
+import { SharedState, decodeShareHash, encodeShareHash } from './simulation/shareLink';
+import { BUILT_IN_FABRICS, FabricPreset, fabricLayerFields, mergeFabrics } from './simulation/fabricLibrary';
+
+// Everything below starts from the default scene; loading a scene file replaces it
+const initialScene = createDefaultScene();
+
+// Longest share hash kept in the address bar (characters)
+const SYNC_HASH_LIMIT = 64000;
 
 export default function App() {
+  const [sceneName, setSceneName] = useState(initialScene.name);
+
+  // Cloth layers, innermost first. Material, garment and pins belong to a
+  // layer; the controls edit the selected one.
+  const [layers, setLayers] = useState<ClothLayer[]>(initialScene.layers);
+  const [activeLayerId, setActiveLayerId] = useState(initialScene.layers[0].id);
+  const activeLayer = layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+
+  const updateLayer = useCallback((id: string, update: (layer: ClothLayer) => Partial<ClothLayer>) => {
+    setLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, ...update(layer) } : layer)));
+  }, []);
+
   // Physics Parameters
-  const [stiffness, setStiffness] = useState(0.5);
-  // Friction is now hard-set to 100% (no sliders)
-  const [clothFriction] = useState(1.0);
-  const [sphereFriction] = useState(1.0);
+  const setMaterial = (material: FabricMaterial) => updateLayer(activeLayer.id, () => ({ material }));
+
+  // Named fabrics: the built-in qualities plus any imported catalogue. Picking
+  // one sets the selected layer's material and look.
+  const [fabricLibrary, setFabricLibrary] = useState<FabricPreset[]>(BUILT_IN_FABRICS);
+  const applyFabric = (fabric: FabricPreset) => updateLayer(activeLayer.id, () => fabricLayerFields(fabric));
+  const importFabrics = (fabrics: FabricPreset[]) => setFabricLibrary(prev => mergeFabrics(prev, fabrics));
+  const [solverMethod, setSolverMethod] = useState<SolverMethod>(initialScene.settings.solverMethod);
   
   // Geometry Parameters
-  const [resolution, setResolution] = useState(40); // Higher default polygon count
-  const [clothSize, setClothSize] = useState(6);    // Default fabric size set to 1m
-  const [sphereRadius, setSphereRadius] = useState(1); // Default sphere radius set to 3m
+  const [resolution, setResolution] = useState(initialScene.settings.resolution); // Higher default polygon count
+  const [clothSize, setClothSize] = useState(initialScene.settings.clothSize);    // Default fabric size set to 1m
+  // Swatches drop from here (null: in proportion to their size)
+  const [dropHeight, setDropHeight] = useState(initialScene.settings.dropHeight);
+
+  // Collider registry: the body the cloth drapes over, plus the floor
+  const [colliders, setColliders] = useState<Collider[]>(initialScene.colliders);
+
+  // Camera, lights and backdrop
+  const [camera, setCamera] = useState<CameraSettings>(initialScene.camera);
+  const [lights, setLights] = useState<SceneLight[]>(initialScene.lights);
+  const [background, setBackground] = useState(initialScene.background);
+  const cameraPoseRef = useRef<(() => CameraSettings) | null>(null);
 
   // Visualization Parameters
   const [showSkeletonHands, setShowSkeletonHands] = useState(true);
 
+  // Threading: step the solver in a Web Worker when the page allows it
+  const [offThread, setOffThread] = useState(supportsWorkerSimulation);
+  // Solver steps per fixed 1/60 s step; simulated time always follows real time
+  const [substeps, setSubsteps] = useState(initialScene.settings.substeps);
+
+  // Self-collision (off by default so its cost can be compared)
+  const [selfCollision, setSelfCollision] = useState(initialScene.settings.selfCollision);
+  const [thickness, setThickness] = useState(initialScene.settings.thickness);
+
+  // Wind and aerodynamic drag/lift (off by default: the drape settles in still air)
+  const [wind, setWind] = useState<WindSettings>(initialScene.settings.wind);
+
+  // Stop stepping a cloth once it has come to rest, until it is disturbed
+  const [sleep, setSleep] = useState(initialScene.settings.sleep);
+
+  // Pin sets hold vertices in the world or on a collider; in edit mode a
+  // click on the cloth toggles a pin instead of dragging
+  const setPins = (pins: PinSet[]) => updateLayer(activeLayer.id, () => ({ pins }));
+  const [pinEditing, setPinEditing] = useState(false);
+
+  // Sewn pattern pieces replace the square swatch when set. Pins refer to
+  // vertex numbers, which a new pattern or resolution changes.
+  const setGarment = (garment: Garment | null) =>
+    updateLayer(activeLayer.id, layer => ({
+      garment,
+      pins: garment?.pieces === layer.garment?.pieces ? layer.pins : []
+    }));
+  const changeResolution = (value: number) => {
+    setResolution(value);
+    setLayers(prev => prev.map(layer => ({ ...layer, pins: [] })));
+  };
+
   const [resetKey, setResetKey] = useState(0);
+
+  // When each layer last came to rest: the moment its final drape can be
+  // measured or exported. Cleared whenever the cloths restart.
+  const [finalDrapes, setFinalDrapes] = useState<Record<string, SolverStats>>({});
+  useEffect(() => setFinalDrapes({}), [resetKey]);
+  const handleSettled = useCallback((layerId: string, stats: SolverStats) => {
+    setFinalDrapes(prev => ({ ...prev, [layerId]: stats }));
+  }, []);
+
+  // --- Frame cache ---
+  // Recording caches every rendered frame; while viewing, the cached frames
+  // are shown and the live simulation is paused
+  const [cache, setCache] = useState<FrameCache | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [viewing, setViewing] = useState(false);
+  const playbackRef = useRef<PlaybackState>({ time: 0, playing: false, loop: true });
+
+  const changeRecording = useCallback((value: boolean) => {
+    // Each recording starts a fresh cache
+    if (value) setCache(new FrameCache());
+    setRecording(value);
+  }, []);
+
+  const handleLoadCache = useCallback((loaded: FrameCache) => {
+    setRecording(false);
+    setCache(loaded);
+    Object.assign(playbackRef.current, { time: 0, playing: true });
+    setViewing(true);
+  }, []);
+
+  // --- Scene files ---
+
+  const applyScene = useCallback((scene: Scene) => {
+    const { settings } = scene;
+    setSceneName(scene.name);
+    setLayers(scene.layers);
+    setActiveLayerId(scene.layers[0].id);
+    setColliders(scene.colliders);
+    setSolverMethod(settings.solverMethod);
+    setResolution(settings.resolution);
+    setClothSize(settings.clothSize);
+    setDropHeight(settings.dropHeight);
+    setSubsteps(settings.substeps);
+    setSelfCollision(settings.selfCollision);
+    setThickness(settings.thickness);
+    setSleep(settings.sleep);
+    setWind(settings.wind);
+    setCamera(scene.camera);
+    setLights(scene.lights);
+    setBackground(scene.background);
+    // Restart every cloth from the scene's rest state
+    setResetKey(prev => prev + 1);
+  }, []);
+
+  const getScene = (): Scene => ({
+    name: sceneName,
+    camera: cameraPoseRef.current?.() ?? camera,
+    background,
+    lights,
+    settings: { solverMethod, resolution, clothSize, dropHeight, substeps, selfCollision, thickness, sleep, wind },
+    colliders,
+    layers
+  });
+
+  // --- Input logs ---
+  // Recording logs the drags and hand pinches reaching each cloth; replaying
+  // feeds a log in instead of the pointer and camera. Both restart the scene
+  // and step on the main thread, one fixed step per frame.
+  const [inputs, setInputs] = useState<InputRecorder | InputPlayer | null>(null);
+  const replayingRef = useRef(false);
+  replayingRef.current = inputs instanceof InputPlayer;
+
+  const startInputRecording = () => {
+    const scene = getScene();
+    applyScene(scene);
+    setInputs(new InputRecorder(scene, DEFAULT_TIMESTEP.stepSize));
+  };
+
+  const replayInputs = (log: InputLog) => {
+    applyScene(log.scene);
+    setInputs(new InputPlayer(log));
+  };
+
+  // --- Share links ---
+  // The whole setup is kept in the URL hash (#share=...) and rewritten as it
+  // changes, so a reload keeps it and the address reproduces it elsewhere
+  const applyShared = useCallback((shared: SharedState) => {
+    applyScene(shared.scene);
+    setShowSkeletonHands(shared.showSkeletonHands);
+    if (shared.activeLayerId) setActiveLayerId(shared.activeLayerId);
+  }, [applyScene]);
+
+  const getShared = (): SharedState => ({ scene: getScene(), showSkeletonHands, activeLayerId: activeLayer.id });
+  const getShareLink = async () =>
+    `${window.location.origin}${window.location.pathname}${await encodeShareHash(getShared())}`;
+
+  // On startup a shared hash wins over a scene linked as ?scene=<url>, which
+  // wins over the default scene. The hash is only rewritten once it was read.
+  const [sceneError, setSceneError] = useState<string | null>(null);
+  const [shareReady, setShareReady] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    const start = async () => {
+      const shared = await decodeShareHash(window.location.hash);
+      if (shared) {
+        if (!cancelled) applyShared(shared);
+        return;
+      }
+      const url = new URLSearchParams(window.location.search).get('scene');
+      if (!url) return;
+      const scene = await fetchScene(url);
+      if (!cancelled) applyScene(scene);
+    };
+    start()
+      .catch(err => {
+        if (!cancelled) setSceneError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setShareReady(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyScene, applyShared]);
+
+  // A share link pasted into the address bar of an open tab
+  useEffect(() => {
+    const onHashChange = () => {
+      decodeShareHash(window.location.hash)
+        .then(shared => shared && applyShared(shared))
+        .catch(err => setSceneError(err instanceof Error ? err.message : String(err)));
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [applyShared]);
+
+  // Bumped when the user stops orbiting, so the pose goes into the hash too
+  const [cameraMoves, setCameraMoves] = useState(0);
+  const handleCameraMoved = useCallback(() => setCameraMoves(prev => prev + 1), []);
+
+  // Rewrites the hash shortly after the last change. Past SYNC_HASH_LIMIT
+  // (big mesh colliders) the address would get unwieldy, so it is dropped;
+  // Copy Link still makes the full link.
+  useEffect(() => {
+    if (!shareReady) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      encodeShareHash(getShared())
+        .then(hash => {
+          if (cancelled) return;
+          const { pathname, search } = window.location;
+          window.history.replaceState(null, '', hash.length <= SYNC_HASH_LIMIT ? hash : `${pathname}${search}`);
+        })
+        .catch(err => {
+          if (!cancelled) setSceneError(`Could not update the share link: ${err instanceof Error ? err.message : String(err)}`);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    shareReady,
+    sceneName,
+    layers,
+    activeLayer.id,
+    colliders,
+    solverMethod,
+    resolution,
+    clothSize,
+    dropHeight,
+    substeps,
+    selfCollision,
+    thickness,
+    sleep,
+    wind,
+    camera,
+    lights,
+    background,
+    showSkeletonHands,
+    cameraMoves
+  ]);
   
   // Hand tracking state - using refs to avoid re-renders
   const leftHandRef = useRef<HandData>({ landmarks: null, handedness: null });
   const rightHandRef = useRef<HandData>({ landmarks: null, handedness: null });
 
+  // Latest solver phase timings and motion, written by the cloth every frame
+  const statsRef = useRef<SolverStats | null>(null);
+
+  // Each cloth's current mesh, registered by the cloth itself, for exporting
+  const exportSourcesRef = useRef(new Map<string, ClothExportSource>());
+  const getExportMeshes = (includeColliders: boolean) => {
+    const cloths = layers.flatMap(layer => {
+      const source = exportSourcesRef.current.get(layer.id);
+      return source ? [clothExportMesh(layer.name, layer.color, source)] : [];
+    });
+    return includeColliders ? [...cloths, ...colliders.map(collider => colliderExportMesh(collider))] : cloths;
+  };
+  const getFinalPositions = () => {
+    const final: Record<string, Float32Array> = {};
+    exportSourcesRef.current.forEach(({ simulation }, id) => {
+      final[id] = simulation.positions.slice(0, simulation.count * 3);
+    });
+    return final;
+  };
+
   const handleReset = useCallback(() => {
     setResetKey(prev => prev + 1);
   }, []);
+
+  const handleTogglePin = useCallback((vertex: number) => {
+    updateLayer(activeLayer.id, layer => ({ pins: togglePinnedVertex(layer.pins, vertex, 'custom') }));
+  }, [activeLayer.id, updateLayer]);
   
   const handleHandsUpdate = useCallback((left: HandData, right: HandData) => {
+    // A replay shows the recorded hands instead
+    if (replayingRef.current) return;
     leftHandRef.current = left;
     rightHandRef.current = right;
   }, []);
@@ -43,6 +332,7 @@ export default function App() {
 
   // FPS Number (renderer) - simple rAF counter
   const [fpsNumber, setFpsNumber] = useState(0);
+  const [solverStats, setSolverStats] = useState<SolverStats | null>(null);
   useEffect(() => {
     let last = performance.now();
     let frames = 0;
@@ -52,6 +342,7 @@ export default function App() {
       const delta = t - last;
       if (delta >= 500) {
         setFpsNumber(Math.round((frames * 1000) / delta));
+        setSolverStats(statsRef.current ? { ...statsRef.current } : null);
         frames = 0;
         last = t;
       }
@@ -63,84 +354,171 @@ export default function App() {
 
   return (
     <div className="relative w-full h-full bg-gray-900 text-white font-sans">
+      {/* Scene linked from the URL failed to load, or the share link could not be written */}
+      {sceneError && (
+        <div className="fixed left-1/2 top-4 -translate-x-1/2 z-50 text-xs text-red-300 bg-black bg-opacity-70 px-3 py-2 rounded flex gap-3 items-center">
+          {sceneError}
+          <button type="button" onClick={() => setSceneError(null)} className="text-gray-400 hover:text-white">
+            ✕
+          </button>
+        </div>
+      )}
       {/* FPS number bottom-right */}
       <div className="fixed right-4 bottom-4 z-50 font-mono text-lg text-white bg-black bg-opacity-60 px-3 py-1 rounded">
         {fpsNumber}
       </div>
+      {/* Solver phase timings above the FPS number */}
+      {solverStats && (
+        <div className="fixed right-4 bottom-16 z-50 font-mono text-xs text-gray-300 bg-black bg-opacity-60 px-3 py-1 rounded text-right">
+          <div>step {solverStats.stepMs.toFixed(2)} ms</div>
+          <div>constraints {solverStats.constraintsMs.toFixed(2)} ms</div>
+          <div>collisions {solverStats.collisionsMs.toFixed(2)} ms</div>
+          {selfCollision && (
+            <div>
+              self-collision {solverStats.selfCollisionMs.toFixed(2)} ms ({solverStats.selfCollisionPairs} pairs)
+            </div>
+          )}
+          <div>
+            max speed {solverStats.maxSpeed.toFixed(3)} m/s, {(solverStats.kineticEnergy * 1000).toFixed(2)} mJ
+          </div>
+          {solverStats.settledAt !== null && (
+            <div className="text-green-400">
+              {solverStats.asleep ? 'asleep' : 'at rest'} since {solverStats.settledAt.toFixed(1)} s
+            </div>
+          )}
+          {layers.map(layer => finalDrapes[layer.id] && (
+            <div key={layer.id} className="text-green-400">
+              {layer.name}: final drape at {finalDrapes[layer.id].settledAt?.toFixed(1)} s
+            </div>
+          ))}
+        </div>
+      )}
       {/* 3D Canvas Layer */}
       <div className="absolute inset-0 z-0">
         <Canvas shadows dpr={[1, 2]}>
-          <PerspectiveCamera makeDefault position={[0, 4, 10]} fov={50} />
+          <SceneCamera camera={camera} poseRef={cameraPoseRef} onPoseChange={handleCameraMoved} />
           
-          <color attach="background" args={['#202025']} />
-     
-
-          <ambientLight intensity={0.4} />
-          <directionalLight 
-            position={[5, 10, 5]} 
-            intensity={1} 
-            castShadow 
-            shadow-mapSize={[2048, 2048]}
-          >
-            <orthographicCamera attach="shadow-camera" args={[-10, 10, 10, -10]} />
-          </directionalLight>
-
-          {/* Side light to create stronger directional shadows */}
-          <directionalLight
-            position={[-8, 6, 2]}
-            intensity={0.6}
-            castShadow
-          />
-
-          <group key={resetKey}>
+          <color attach="background" args={[background]} />
+
+          {lights.map((light, index) =>
+            light.kind === 'ambient' ? (
+              <ambientLight key={index} color={light.color} intensity={light.intensity} />
+            ) : (
+              <directionalLight
+                key={index}
+                color={light.color}
+                position={light.position}
+                intensity={light.intensity}
+                castShadow={light.castShadow}
+                shadow-mapSize={light.shadowMapSize ? [light.shadowMapSize, light.shadowMapSize] : undefined}
+              >
+                {light.shadowExtent !== undefined && (
+                  <orthographicCamera
+                    attach="shadow-camera"
+                    args={[-light.shadowExtent, light.shadowExtent, light.shadowExtent, -light.shadowExtent]}
+                  />
+                )}
+              </directionalLight>
+            )
+          )}
+
+          <group key={resetKey} visible={!viewing}>
             <SimulationScene 
-              stiffness={stiffness} 
-              clothFriction={clothFriction}
-              sphereFriction={sphereFriction}
+              layers={layers}
+              activeLayerId={activeLayer.id}
+              solverMethod={solverMethod}
+              colliders={colliders}
               resolution={resolution}
               clothSize={clothSize}
-              sphereRadius={sphereRadius}
+              dropHeight={dropHeight}
               leftHandRef={leftHandRef}
               rightHandRef={rightHandRef}
               showSkeletonHands={showSkeletonHands}
+              offThread={offThread && !inputs}
+              substeps={substeps}
+              selfCollision={selfCollision}
+              thickness={thickness}
+              wind={wind}
+              sleep={sleep}
+              paused={viewing}
+              recorder={recording ? cache : null}
+              inputs={inputs}
+              pinEditing={pinEditing}
+              onTogglePin={handleTogglePin}
+              statsRef={statsRef}
+              exportSources={exportSourcesRef}
+              onSettled={handleSettled}
             />
           </group>
+          {viewing && cache && <CachePlayback cache={cache} playbackRef={playbackRef} />}
 
-          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -2.5, 0]} receiveShadow>
-            <planeGeometry args={[100, 100]} />
-            <meshStandardMaterial color="#1a1a1a" />
-          </mesh>
-
-          <OrbitControls 
-            makeDefault
-            minPolarAngle={0} 
-            maxPolarAngle={Math.PI / 2 - 0.1}
-            enablePan={false}
-            mouseButtons={{
-              LEFT: null as unknown as THREE.MOUSE, // Unbind left click
-              MIDDLE: THREE.MOUSE.DOLLY,
-              RIGHT: THREE.MOUSE.ROTATE
-            }}
-          />
           <Environment preset="city" />
         </Canvas>
       </div>
 
+      {/* Recording and playback timeline */}
+      <TimelineControls
+        cache={cache}
+        recording={recording}
+        setRecording={changeRecording}
+        viewing={viewing}
+        setViewing={setViewing}
+        playbackRef={playbackRef}
+        onLoadCache={handleLoadCache}
+      />
+
       {/* Hand Tracking Camera Feed */}
       <HandTracking onHandsUpdate={handleHandsUpdate} />
 
       {/* UI Overlay Layer */}
       <UIControls 
-        stiffness={stiffness} 
-        setStiffness={setStiffness}
+        layers={layers}
+        setLayers={setLayers}
+        activeLayerId={activeLayer.id}
+        setActiveLayerId={setActiveLayerId}
+        material={activeLayer.material} 
+        setMaterial={setMaterial}
+        solverMethod={solverMethod}
+        setSolverMethod={setSolverMethod}
         resolution={resolution}
-        setResolution={setResolution}
+        setResolution={changeResolution}
         clothSize={clothSize}
         setClothSize={setClothSize}
-        sphereRadius={sphereRadius}
-        setSphereRadius={setSphereRadius}
+        colliders={colliders}
+        setColliders={setColliders}
         showSkeletonHands={showSkeletonHands}
         setShowSkeletonHands={setShowSkeletonHands}
+        offThread={offThread}
+        setOffThread={setOffThread}
+        substeps={substeps}
+        setSubsteps={setSubsteps}
+        selfCollision={selfCollision}
+        setSelfCollision={setSelfCollision}
+        thickness={thickness}
+        setThickness={setThickness}
+        wind={wind}
+        setWind={setWind}
+        sleep={sleep}
+        setSleep={setSleep}
+        garment={activeLayer.garment}
+        setGarment={setGarment}
+        pins={activeLayer.pins}
+        setPins={setPins}
+        pinEditing={pinEditing}
+        setPinEditing={setPinEditing}
+        sceneName={sceneName}
+        getScene={getScene}
+        getShareLink={getShareLink}
+        onLoadScene={applyScene}
+        getExportMeshes={getExportMeshes}
+        inputs={inputs}
+        onRecordInputs={startInputRecording}
+        onReplayInputs={replayInputs}
+        onStopInputs={() => setInputs(null)}
+        getFinalPositions={getFinalPositions}
+        fabricLibrary={fabricLibrary}
+        onApplyFabric={applyFabric}
+        onImportFabrics={importFabrics}
         onReset={handleReset} 
       />
     </div>
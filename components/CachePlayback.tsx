@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ColliderMesh } from './ColliderMesh';
+import type { Collider } from '../simulation/colliders';
+import type { CachedMesh, FrameCache, PlaybackState } from '../simulation/frameCache';
+
+interface CachePlaybackProps {
+  cache: FrameCache;
+  // Advanced here while playing; the timeline controls scrub it
+  playbackRef: React.MutableRefObject<PlaybackState>;
+}
+
+// One cloth layer as it appears in the cache
+interface Track {
+  id: string;
+  color: string;
+  geometry: THREE.BufferGeometry;
+  mesh: CachedMesh | null; // Currently in the geometry
+}
+
+// Draws cached frames in place of the live simulation: the cloth layers,
+// the colliders as they were, and the pinching hands as markers
+export const CachePlayback: React.FC<CachePlaybackProps> = ({ cache, playbackRef }) => {
+  const meshRefs = useRef(new Map<string, THREE.Mesh>());
+  const leftPinchRef = useRef<THREE.Mesh>(null);
+  const rightPinchRef = useRef<THREE.Mesh>(null);
+  const frameRef = useRef(-1);
+  const [colliders, setColliders] = useState<Collider[]>(() => cache.frames[0]?.colliders ?? []);
+
+  // Buffers sized for the largest particle count each layer reaches
+  const tracks = useMemo(() => {
+    const found = new Map<string, { color: string; particles: number; indices: number }>();
+    cache.frames.forEach(frame =>
+      frame.layers.forEach(layer => {
+        const track = found.get(layer.id) ?? { color: layer.color, particles: 0, indices: 0 };
+        track.particles = Math.max(track.particles, layer.positions.length / 3);
+        track.indices = Math.max(track.indices, layer.mesh.indices.length);
+        found.set(layer.id, track);
+      })
+    );
+    return Array.from(found, ([id, { color, particles, indices }]): Track => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(particles * 3), 3));
+      geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(particles * 3), 3));
+      geometry.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(particles * 2), 2));
+      geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(indices), 1));
+      return { id, color, geometry, mesh: null };
+    });
+  }, [cache]);
+
+  useEffect(() => {
+    // New buffers start empty, so the current frame is copied in again
+    frameRef.current = -1;
+    return () => tracks.forEach(track => track.geometry.dispose());
+  }, [tracks]);
+
+  useFrame((_, delta) => {
+    const playback = playbackRef.current;
+    const duration = cache.duration;
+    if (playback.playing) {
+      playback.time += delta;
+      if (playback.time > duration) {
+        if (playback.loop && duration > 0) {
+          playback.time %= duration;
+        } else {
+          playback.time = duration;
+          playback.playing = false;
+        }
+      }
+    }
+
+    const index = cache.frameAt(playback.time);
+    const frame = cache.frames[index];
+    if (!frame || index === frameRef.current) return;
+    frameRef.current = index;
+
+    tracks.forEach(track => {
+      const object = meshRefs.current.get(track.id);
+      const layer = frame.layers.find(l => l.id === track.id);
+      if (!object) return;
+      object.visible = !!layer;
+      if (!layer) return;
+
+      const { geometry } = track;
+      if (layer.mesh !== track.mesh) {
+        track.mesh = layer.mesh;
+        (geometry.index!.array as Uint32Array).set(layer.mesh.indices);
+        geometry.index!.needsUpdate = true;
+        geometry.setDrawRange(0, layer.mesh.indices.length);
+        (geometry.attributes.uv.array as Float32Array).set(layer.mesh.uvs);
+        geometry.attributes.uv.needsUpdate = true;
+      }
+      (geometry.attributes.position.array as Float32Array).set(layer.positions);
+      geometry.attributes.position.needsUpdate = true;
+      geometry.computeVertexNormals();
+      geometry.computeBoundingSphere();
+    });
+
+    const pinches: [React.RefObject<THREE.Mesh>, [number, number, number] | null][] = [
+      [leftPinchRef, frame.pinches.left],
+      [rightPinchRef, frame.pinches.right]
+    ];
+    pinches.forEach(([ref, at]) => {
+      if (!ref.current) return;
+      ref.current.visible = !!at;
+      if (at) ref.current.position.set(...at);
+    });
+
+    // Collider meshes only re-render when a collider actually moved
+    if (frame.colliders !== colliders) setColliders(frame.colliders);
+  });
+
+  return (
+    <>
+      {colliders.map(collider => (
+        <ColliderMesh key={collider.id} collider={collider} />
+      ))}
+      {tracks.map(track => (
+        <mesh
+          key={track.id}
+          ref={object => {
+            if (object) meshRefs.current.set(track.id, object);
+            else meshRefs.current.delete(track.id);
+          }}
+          geometry={track.geometry}
+          castShadow
+          receiveShadow
+          frustumCulled={false}
+        >
+          <meshStandardMaterial color={track.color} side={THREE.DoubleSide} roughness={0.95} metalness={0.05} />
+        </mesh>
+      ))}
+      <mesh ref={leftPinchRef} visible={false}>
+        <sphereGeometry args={[0.08, 12, 8]} />
+        <meshBasicMaterial color="#38bdf8" />
+      </mesh>
+      <mesh ref={rightPinchRef} visible={false}>
+        <sphereGeometry args={[0.08, 12, 8]} />
+        <meshBasicMaterial color="#f472b6" />
+      </mesh>
+    </>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FabricMaterial } from '../simulation/FabricMaterial';
+import type { SolverMethod } from '../simulation/ClothSolver';
+import {
+  BendingFit,
+  BendingFitResult,
+  CantileverResult,
+  CantileverSettings,
+  CantileverTest,
+  DEFAULT_CANTILEVER,
+  cantileverResultToJson
+} from '../simulation/cantilever';
+import { download } from './DrapeTestControls';
+
+interface CantileverTestControlsProps {
+  material: FabricMaterial; // The selected layer's fabric
+  setMaterial: (val: FabricMaterial) => void;
+  solverMethod: SolverMethod;
+}
+
+// Solver time per animation frame while a test runs, so the page stays responsive
+const FRAME_BUDGET_MS = 12;
+
+interface FinishedTest {
+  result: CantileverResult;
+  material: FabricMaterial;
+  settings: CantileverSettings;
+}
+
+interface FinishedFit {
+  result: BendingFitResult;
+  target: number;
+}
+
+export const CantileverTestControls: React.FC<CantileverTestControlsProps> = ({ material, setMaterial, solverMethod }) => {
+  const [target, setTarget] = useState(2.5); // cm
+  const [progress, setProgress] = useState<number | null>(null);
+  const [finished, setFinished] = useState<FinishedTest | null>(null);
+  const [fit, setFit] = useState<FinishedFit | null>(null);
+  const jobRef = useRef<CantileverTest | BendingFit | null>(null);
+  const rafRef = useRef(0);
+
+  useEffect(() => () => cancelAnimationFrame(rafRef.current), []);
+
+  // Steps a test or fit within the frame budget until it is done
+  const start = <T extends CantileverTest | BendingFit>(job: T, onDone: (job: T) => void) => {
+    cancelAnimationFrame(rafRef.current);
+    jobRef.current = job;
+    setProgress(0);
+
+    const frame = () => {
+      const begin = performance.now();
+      while (!job.done && performance.now() - begin < FRAME_BUDGET_MS) job.advance(1 / 60);
+      if (jobRef.current !== job) return;
+      if (job.done) {
+        onDone(job);
+        setProgress(null);
+        jobRef.current = null;
+      } else {
+        setProgress(job.progress);
+        rafRef.current = requestAnimationFrame(frame);
+      }
+    };
+    rafRef.current = requestAnimationFrame(frame);
+  };
+
+  const runTest = () => {
+    const settings: CantileverSettings = { ...DEFAULT_CANTILEVER, method: solverMethod };
+    start(new CantileverTest(material, settings), test => setFinished({ result: test.result(), material, settings }));
+  };
+
+  const runFit = () => {
+    const settings: CantileverSettings = { ...DEFAULT_CANTILEVER, method: solverMethod };
+    start(new BendingFit(material, target / 100, settings), job => setFit({ result: job.result(), target }));
+  };
+
+  const cancel = () => {
+    cancelAnimationFrame(rafRef.current);
+    jobRef.current = null;
+    setProgress(null);
+  };
+
+  const applyFit = () => {
+    if (!fit) return;
+    setMaterial({ ...material, flexuralRigidity: Math.round(fit.result.flexuralRigidity) });
+  };
+
+  const exportName = finished ? `cantilever-${finished.material.gsm}gsm-${finished.material.flexuralRigidity}uNm` : '';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-gray-500">
+        Slides a 20 × 2.5 cm strip of the selected layer's fabric off a platform until its tip drops to 41.5°; the bending length is half the overhang.
+      </p>
+
+      {progress === null ? (
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={runTest}
+            className="w-full text-xs px-2 py-1.5 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+          >
+            Run Cantilever Test
+          </button>
+          <div className="flex gap-2 items-center text-xs text-gray-400">
+            <span className="flex-1">Measured Bending Length</span>
+            <input
+              type="number"
+              value={target}
+              min={0.5}
+              max={9}
+              step={0.1}
+              onChange={(e) => {
+                const val = parseFloat(e.target.value);
+                if (Number.isFinite(val) && val > 0) setTarget(val);
+              }}
+              className="w-14 bg-gray-700 text-gray-200 rounded px-1 py-0.5 text-right"
+            />
+            <span>cm</span>
+          </div>
+          <button
+            type="button"
+            onClick={runFit}
+            className="w-full text-xs px-2 py-1.5 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+          >
+            Fit Flexural Rigidity
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <div className="h-2 bg-gray-700 rounded-lg overflow-hidden">
+            <div className="h-full bg-purple-500" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <button type="button" onClick={cancel} className="text-xs text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {fit && (
+        <div className="space-y-2 bg-white/5 rounded-lg p-3">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Fitted Rigidity</span>
+            <span className="font-mono text-gray-200">{fit.result.flexuralRigidity.toFixed(1)} µN·m</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Simulated Length</span>
+            <span className="font-mono text-gray-200">{(fit.result.bendingLength * 100).toFixed(2)} cm</span>
+          </div>
+          {!fit.result.matched && (
+            <p className="text-xs text-red-400">
+              No setting reached {fit.target} cm within {fit.result.trials} trials; this is the closest. Very limp
+              fabrics may also need a lower Bending Rigidity.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={applyFit}
+            className="w-full text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+          >
+            Apply to Material
+          </button>
+        </div>
+      )}
+
+      {finished && (
+        <div className="space-y-2 bg-white/5 rounded-lg p-3">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Bending Length</span>
+            <span className="font-mono text-gray-200">{(finished.result.bendingLength * 100).toFixed(2)} cm</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Overhang</span>
+            <span className="font-mono text-gray-200">{(finished.result.overhang * 100).toFixed(2)} cm</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Flexural Rigidity</span>
+            <span className="font-mono text-gray-200">{(finished.result.flexuralRigidity * 1e6).toFixed(1)} µN·m</span>
+          </div>
+          {!finished.result.reached && (
+            <p className="text-xs text-red-400">
+              The tip never reached the line; the strip is stiffer than this test can measure.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={() => download(`${exportName}.json`, cantileverResultToJson(finished.result, finished.material, finished.settings), 'application/json')}
+            className="w-full text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+          >
+            Export JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
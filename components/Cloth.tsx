@@ -1,37 +1,101 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
 import type { HandData } from './HandTracking';
+import type { FabricMaterial } from '../simulation/FabricMaterial';
+import type { Collider } from '../simulation/colliders';
+import type { WindSettings } from '../simulation/wind';
+import type { PinSet } from '../simulation/pins';
+import { ClothMesh, createGridCloth } from '../simulation/clothGrid';
+import { Garment, buildGarmentMesh, garmentSpacing } from '../simulation/pattern';
+import { ClothSimulation, createClothSimulation } from '../simulation/ClothSimulation';
+import type { ClothLayer, ClothSurface } from '../simulation/layers';
+import type { ClothExportSource } from '../simulation/meshExport';
+import type { CachedMesh, FrameCache } from '../simulation/frameCache';
+import { SolverMethod, SolverStats, Vec3, solverIterations } from '../simulation/ClothSolver';
+import { DEFAULT_TIMESTEP } from '../simulation/FixedTimestep';
+import { HandInput, InputPlayer, InputRecorder, LayerInput } from '../simulation/inputLog';
 
 interface ClothProps {
+  layerId: string;
+  color: string; // Base colour of the fabric texture
+  roughness: number;
+  sheen: number; // Velvet-like rim glow, 0-1
   position: [number, number, number];
   resolution: number;
   clothSize: number;
-  stiffness: number; // 0.0 to 1.0
-  clothFriction: number;
-  sphereFriction: number;
-  spherePosition: [number, number, number];
-  sphereRadius: number;
+  material: FabricMaterial;
+  solverMethod: SolverMethod;
+  colliders: Collider[];
   leftHandRef?: React.MutableRefObject<HandData>;
   rightHandRef?: React.MutableRefObject<HandData>;
+  offThread: boolean; // Step the solver in a Web Worker when supported
+  substeps: number; // Solver steps per fixed 1/60 s step
+  selfCollision: boolean;
+  thickness: number;
+  wind: WindSettings;
+  sleep: boolean; // Stop stepping once the cloth has come to rest
+  paused: boolean; // Cached frames are being played back instead
+  recorder: FrameCache | null; // Cache every rendered frame into this
+  // Log this cloth's drags and pinches, or take them from a log instead;
+  // either way the cloth runs one fixed step per frame
+  inputs: InputRecorder | InputPlayer | null;
+  garment: Garment | null; // Sewn pattern pieces instead of the square swatch
+  pins: PinSet[];
+  pinEditing: boolean; // Clicks toggle pins instead of dragging
+  onTogglePin?: (vertex: number) => void;
+  // Layers this cloth rests on, innermost first, and every layer's
+  // simulation by id (each cloth registers its own)
+  layersBelow: ClothLayer[];
+  layerSimulations: React.MutableRefObject<Map<string, ClothSimulation>>;
+  // Every layer's current mesh by id, for exporting the drape
+  exportSources?: React.MutableRefObject<Map<string, ClothExportSource>>;
+  statsRef?: React.MutableRefObject<SolverStats | null>;
+  // Called once each time the cloth comes to rest, with the stats at that point
+  onSettled?: (stats: SolverStats) => void;
 }
 
-// Helper to get index in 1D array from 2D grid coordinates
-const getIdx = (x: number, y: number, w: number) => y * w + x;
+// What a lower layer's surface was last sent with
+interface AppliedLayer {
+  simulation: ClothSimulation;
+  topologyVersion: number;
+  material: FabricMaterial;
+}
 
 export const Cloth: React.FC<ClothProps> = ({ 
+  layerId,
+  color,
+  roughness,
+  sheen,
   position, 
   resolution, 
   clothSize,
-  stiffness, 
-  clothFriction, 
-  sphereFriction,
-  spherePosition,
-  sphereRadius,
+  material, 
+  solverMethod,
+  colliders,
   leftHandRef,
-  rightHandRef
+  rightHandRef,
+  offThread,
+  substeps,
+  selfCollision,
+  thickness,
+  wind,
+  sleep,
+  paused,
+  recorder,
+  inputs,
+  garment,
+  pins,
+  pinEditing,
+  onTogglePin,
+  layersBelow,
+  layerSimulations,
+  exportSources,
+  statsRef,
+  onSettled
 }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const markersRef = useRef<THREE.InstancedMesh>(null);
   const { camera, gl } = useThree();
   
   // Procedural fabric-like texture (avoids external CDN failures)
@@ -43,8 +107,8 @@ export const Cloth: React.FC<ClothProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
 
-    // Base color (light beige weave)
-    ctx.fillStyle = '#c318a7ff';
+    // Base color (one per layer)
+    ctx.fillStyle = color;
     ctx.fillRect(0, 0, size, size);
 
     // Simple weave pattern
@@ -68,7 +132,7 @@ export const Cloth: React.FC<ClothProps> = ({
     tex.anisotropy = 8;
     tex.needsUpdate = true;
     return tex;
-  }, []);
+  }, [color]);
   
   // Smoothed pinch positions to damp cloth reaction to hand jitter
   const smoothedLeftPinchRef = useRef<THREE.Vector3 | null>(null);
@@ -82,135 +146,129 @@ export const Cloth: React.FC<ClothProps> = ({
     plane: new THREE.Plane(),
     currentIntersection: new THREE.Vector3()
   });
+  // Vertex the last applied drag held, released once the drag ends
+  const draggedVertexRef = useRef(-1);
 
   // Reusable objects for raycasting (avoid GC)
   const raycaster = useMemo(() => new THREE.Raycaster(), []);
   const mouse = useMemo(() => new THREE.Vector2(), []);
   const targetVec = useMemo(() => new THREE.Vector3(), []);
+  const pinchVec = useMemo(() => new THREE.Vector3(), []);
+  const markerMatrix = useMemo(() => new THREE.Matrix4(), []);
 
   // Store latest config in ref to avoid stale closures in useFrame
   const configRef = useRef({
-    stiffness,
-    clothFriction,
-    sphereFriction,
-    sphereRadius,
-    spherePosition
+    material,
+    solverMethod,
+    colliders,
+    selfCollision,
+    thickness,
+    wind,
+    sleep,
+    paused,
+    recorder,
+    inputs,
+    pins,
+    layersBelow,
+    onSettled
   });
 
   useEffect(() => {
     configRef.current = {
-      stiffness,
-      clothFriction,
-      sphereFriction,
-      sphereRadius,
-      spherePosition
+      material,
+      solverMethod,
+      colliders,
+      selfCollision,
+      thickness,
+      wind,
+      sleep,
+      paused,
+      recorder,
+      inputs,
+      pins,
+      layersBelow,
+      onSettled
     };
-  }, [stiffness, clothFriction, sphereFriction, sphereRadius, spherePosition]);
+  }, [material, solverMethod, colliders, selfCollision, thickness, wind, sleep, paused, recorder, inputs, pins, layersBelow, onSettled]);
 
-  // Physics constants
-  const TIMESTEP = 1 / 60; // 60 FPS fixed step
-  const GRAVITY_ACCEL = -9.8; 
-  const GRAVITY = GRAVITY_ACCEL * TIMESTEP * TIMESTEP; 
-  
-  const DRAG = 0.99; // Air resistance
-  
   // Dimensions
   const width = clothSize;
   const height = clothSize;
-  const cols = resolution + 1;
-  const rows = resolution + 1;
-  const count = cols * rows;
-
-  // Initialize Physics State
-  const positions = useRef(new Float32Array(count * 3));
-  const prevPositions = useRef(new Float32Array(count * 3));
-  
-  // Initialize constraints
-  const { structural, bending, reinforcement } = useMemo(() => {
-    const struct: number[] = [];
-    const bend: number[] = [];
-    const reinf: number[] = [];
-    
-    const addConstraint = (list: number[], p1: number, p2: number) => {
-      const x1 = (p1 % cols) * (width / resolution);
-      const y1 = Math.floor(p1 / cols) * (height / resolution);
-      const x2 = (p2 % cols) * (width / resolution);
-      const y2 = Math.floor(p2 / cols) * (height / resolution);
-      const dist = Math.sqrt((x1 - x2) ** 2 + (y1 - y2) ** 2);
-      list.push(p1, p2, dist);
-    };
-
-    for (let y = 0; y < rows; y++) {
-      for (let x = 0; x < cols; x++) {
-        const i = getIdx(x, y, cols);
-        
-        // --- 1. Structural (Nearest Neighbors) ---
-        if (x < cols - 1) addConstraint(struct, i, getIdx(x + 1, y, cols));
-        if (y < rows - 1) addConstraint(struct, i, getIdx(x, y + 1, cols));
-        
-        // --- 2. Shear (Diagonals) ---
-        if (x < cols - 1 && y < rows - 1) {
-            addConstraint(struct, i, getIdx(x + 1, y + 1, cols));
-            addConstraint(struct, getIdx(x + 1, y, cols), getIdx(x, y + 1, cols));
-        }
-
-        // --- 3. Bending (Skip 1 and 2) ---
-        if (x < cols - 2) addConstraint(bend, i, getIdx(x + 2, y, cols));
-        if (y < rows - 2) addConstraint(bend, i, getIdx(x, y + 2, cols));
-        if (x < cols - 2 && y < rows - 2) {
-             addConstraint(bend, i, getIdx(x + 2, y + 2, cols));
-        }
-      }
-    }
 
-    // --- 4. Reinforcement (Distributed Mesh Structure) ---
-    const stride = Math.max(3, Math.floor(resolution / 6)); 
-    
-    for (let y = 0; y < rows; y++) {
-      for (let x = 0; x < cols; x++) {
-        const i = getIdx(x, y, cols);
-        
-        // Orthogonal long-range
-        if (x < cols - stride) addConstraint(reinf, i, getIdx(x + stride, y, cols));
-        if (y < rows - stride) addConstraint(reinf, i, getIdx(x, y + stride, cols));
-        
-        // Diagonal long-range
-        if (x < cols - stride && y < rows - stride) {
-             addConstraint(reinf, i, getIdx(x + stride, y + stride, cols));
-        }
-        if (x >= stride && y < rows - stride) {
-            addConstraint(reinf, i, getIdx(x - stride, y + stride, cols));
-        }
-      }
-    }
+  // A garment's pieces are about `resolution` triangles across
+  const cloth = useMemo<ClothMesh>(
+    () => garment
+      ? buildGarmentMesh(garment, garmentSpacing(garment, resolution))
+      : createGridCloth(resolution, width, height, position),
+    [resolution, clothSize, garment, position[1]]
+  );
+  const count = cloth.positions.length / 3;
+  // Tearing appends a particle per split; reserve as many again as the mesh has
+  const capacity = count * 2;
+
+  // Render buffers cover the whole capacity; split-off particles live after
+  // the mesh vertices and only become visible once triangles reference them
+  const geometry = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    const positions = new Float32Array(capacity * 3);
+    positions.set(cloth.positions);
+    const uvs = new Float32Array(capacity * 2);
+    uvs.set(cloth.uvs);
+    geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(capacity * 3), 3));
+    geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geo.setIndex(new THREE.BufferAttribute(new Uint32Array(cloth.indices), 1));
+    return geo;
+  }, [cloth]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Physics state lives in the headless solver (in this thread or a worker);
+  // rebuilt when the mesh or the threading mode changes, or in this thread
+  // once the worker has failed
+  const simulationRef = useRef<ClothSimulation | null>(null);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  // Colliders can carry whole meshes, so they are only sent when they change
+  const appliedCollidersRef = useRef<Collider[] | null>(null);
+  const appliedPinsRef = useRef<PinSet[] | null>(null);
+  const appliedLayersRef = useRef<AppliedLayer[]>([]);
+  // Last tearing state copied into the geometry
+  const topologyVersionRef = useRef(0);
+  // Rest time last reported through onSettled
+  const settledAtRef = useRef<number | null>(null);
+  // What this cloth last put in the frame cache, to share unchanged arrays
+  const recordedRef = useRef<{ cache: FrameCache; topologyVersion: number; mesh: CachedMesh; positions: Float32Array } | null>(null);
 
-    return { structural: struct, bending: bend, reinforcement: reinf };
-  }, [cols, rows, width, height, resolution]);
+  useEffect(() => {
+    const simulation = createClothSimulation({ ...cloth, capacity }, offThread && !workerFailed, () => setWorkerFailed(true));
+    simulationRef.current = simulation;
+    appliedCollidersRef.current = null;
+    appliedPinsRef.current = null;
+    appliedLayersRef.current = [];
+    topologyVersionRef.current = simulation.topologyVersion;
+    settledAtRef.current = null;
+    simulation.setTimestep({ substeps });
+    const registry = layerSimulations.current;
+    registry.set(layerId, simulation);
+    const exports = exportSources?.current;
+    exports?.set(layerId, { simulation, uvs: cloth.uvs });
+    return () => {
+      simulation.dispose();
+      simulationRef.current = null;
+      if (registry.get(layerId) === simulation) registry.delete(layerId);
+      if (exports?.get(layerId)?.simulation === simulation) exports.delete(layerId);
+    };
+  }, [cloth, offThread, workerFailed]);
 
-  // Initial Setup
   useEffect(() => {
-    const pos = positions.current;
-    const prev = prevPositions.current;
-
-    for (let y = 0; y < rows; y++) {
-      for (let x = 0; x < cols; x++) {
-        const i = getIdx(x, y, cols);
-        const idx3 = i * 3;
-        
-        const lx = (x / resolution) * width - width / 2;
-        const ly = 0; 
-        const lz = (y / resolution) * height - height / 2;
-
-        pos[idx3] = lx + position[0];
-        pos[idx3 + 1] = ly + position[1];
-        pos[idx3 + 2] = lz + position[2];
-
-        prev[idx3] = pos[idx3];
-        prev[idx3 + 1] = pos[idx3 + 1];
-        prev[idx3 + 2] = pos[idx3 + 2];
-      }
-    }
-  }, [resolution, clothSize]); 
+    simulationRef.current?.setTimestep({ substeps });
+  }, [substeps]);
+
+  // Every pinned vertex gets a marker
+  const pinnedVertices = useMemo(
+    () => Array.from(new Set(pins.flatMap(set => set.vertices))).filter(v => v < count),
+    [pins, count]
+  );
 
   // --- Global Event Handlers for Dragging ---
   // Using refs for stable function callbacks in addEventListener
@@ -251,17 +309,18 @@ export const Cloth: React.FC<ClothProps> = ({
 
   const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
     // Only allow left click (button 0)
-    if (e.button !== 0) return;
+    const simulation = simulationRef.current;
+    if (e.button !== 0 || !simulation || configRef.current.paused) return;
     e.stopPropagation();
     
     // Find closest vertex to the click
     const intersectPoint = e.point;
-    const pos = positions.current;
+    const pos = simulation.positions;
     let minD = Infinity;
     let closest = -1;
     
     // Optimization: Brute force is fast enough for ~2-3k vertices
-    for(let i=0; i<count; i++){
+    for(let i=0; i<simulation.count; i++){
         const dx = pos[i*3] - intersectPoint.x;
         const dy = pos[i*3+1] - intersectPoint.y;
         const dz = pos[i*3+2] - intersectPoint.z;
@@ -269,6 +328,11 @@ export const Cloth: React.FC<ClothProps> = ({
         if(d < minD) { minD = d; closest = i; }
     }
 
+    if (pinEditing) {
+      onTogglePin?.(closest);
+      return;
+    }
+
     // Create a drag plane perpendicular to the camera view at the point of intersection
     const planeNormal = new THREE.Vector3();
     camera.getWorldDirection(planeNormal);
@@ -287,293 +351,254 @@ export const Cloth: React.FC<ClothProps> = ({
     gl.domElement.style.cursor = 'grabbing';
   };
 
+  // What the pointer and hands are doing to this cloth right now
+  const liveInput = (): LayerInput => {
+    const interaction = interactionRef.current;
+    const hand = (data: HandData | undefined): HandInput | null => data ? {
+      landmarks: data.landmarks,
+      handedness: data.handedness,
+      pinch: data.isPinching && data.pinchPosition ? (data.pinchPosition.toArray() as Vec3) : null
+    } : null;
+    return {
+      drag: interaction.active
+        ? { vertex: interaction.vertexIndex, target: interaction.currentIntersection.toArray() as Vec3 }
+        : null,
+      left: hand(leftHandRef?.current),
+      right: hand(rightHandRef?.current)
+    };
+  };
 
-  // Solver function
-  const solveList = (list: number[], pos: Float32Array, strength: number) => {
-    const halfStrength = strength * 0.5;
-    for (let i = 0; i < list.length; i += 3) {
-        const i1 = list[i];
-        const i2 = list[i + 1];
-        const restDist = list[i + 2];
-
-        const idx1 = i1 * 3;
-        const idx2 = i2 * 3;
+  // Lerps a smoothed pinch target towards the hand and pins a corner to it
+  const updatePinchPin = (
+    simulation: ClothSimulation,
+    pinch: Vec3 | null,
+    smoothedRef: React.MutableRefObject<THREE.Vector3 | null>,
+    cornerIndex: number,
+    damping: number
+  ) => {
+    if (pinch) {
+      pinchVec.fromArray(pinch);
+      if (!smoothedRef.current) {
+        smoothedRef.current = pinchVec.clone();
+      } else {
+        smoothedRef.current.lerp(pinchVec, damping);
+      }
+      const p = smoothedRef.current;
+      simulation.setPin(cornerIndex, p.x, p.y, p.z);
+    } else if (smoothedRef.current) {
+      smoothedRef.current = null;
+      simulation.releasePin(cornerIndex);
+    }
+  };
 
-        const x1 = pos[idx1];
-        const y1 = pos[idx1 + 1];
-        const z1 = pos[idx1 + 2];
+  useFrame(({ clock }, delta) => {
+    const simulation = simulationRef.current;
+    if (!meshRef.current || !simulation || configRef.current.paused) return;
+    
+    const { 
+        material: currentMaterial, 
+        solverMethod: currentSolverMethod,
+        colliders: currentColliders,
+        selfCollision: currentSelfCollision,
+        thickness: currentThickness,
+        wind: currentWind,
+        sleep: currentSleep,
+        recorder: currentRecorder,
+        inputs: currentInputs,
+        pins: currentPins,
+        layersBelow: currentLayersBelow,
+        onSettled: currentOnSettled
+    } = configRef.current;
 
-        const x2 = pos[idx2];
-        const y2 = pos[idx2 + 1];
-        const z2 = pos[idx2 + 2];
+    // --- Inputs: live, or the next step of a replayed log ---
+    let input = liveInput();
+    if (currentInputs instanceof InputPlayer) {
+      const replayed = currentInputs.next(layerId);
+      // The log has run out: hold the drape it ended in
+      if (!replayed) return;
+      input = replayed;
+      // Show the recorded hands in place of the camera's
+      if (leftHandRef && replayed.left) leftHandRef.current = { landmarks: replayed.left.landmarks, handedness: replayed.left.handedness };
+      if (rightHandRef && replayed.right) rightHandRef.current = { landmarks: replayed.right.landmarks, handedness: replayed.right.handedness };
+    } else if (currentInputs) {
+      currentInputs.capture(layerId, input);
+    }
+    // Logged inputs are tied to steps, so each frame takes exactly one
+    const stepDelta = currentInputs ? DEFAULT_TIMESTEP.stepSize : delta;
 
-        const dx = x2 - x1;
-        const dy = y2 - y1;
-        const dz = z2 - z1;
+    const geo = meshRef.current.geometry;
 
-        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-        
-        if (dist < 0.0001) continue;
+    const iterations = solverIterations(resolution);
+    simulation.configure({
+      method: currentSolverMethod,
+      material: currentMaterial,
+      iterations,
+      selfCollision: currentSelfCollision,
+      thickness: currentThickness,
+      wind: currentWind,
+      sleep: currentSleep
+    });
+    if (currentColliders !== appliedCollidersRef.current) {
+      simulation.configure({ colliders: currentColliders });
+      appliedCollidersRef.current = currentColliders;
+    }
+    // After the colliders, so pins attached to a moved collider resolve against it
+    if (currentPins !== appliedPinsRef.current) {
+      simulation.configure({ pins: currentPins });
+      appliedPinsRef.current = currentPins;
+    }
 
-        const diff = (dist - restDist) / dist;
-        const correction = diff * halfStrength;
+    // Lower layers' surfaces are resent when a layer is rebuilt, tears or
+    // changes fabric; their positions are read live by the solver
+    const below: AppliedLayer[] = [];
+    for (const layer of currentLayersBelow) {
+      const lower = layerSimulations.current.get(layer.id);
+      if (lower) below.push({ simulation: lower, topologyVersion: lower.topologyVersion, material: layer.material });
+    }
+    const applied = appliedLayersRef.current;
+    const layersChanged = below.length !== applied.length || below.some((entry, k) =>
+      entry.simulation !== applied[k].simulation ||
+      entry.topologyVersion !== applied[k].topologyVersion ||
+      entry.material !== applied[k].material
+    );
+    if (layersChanged) {
+      simulation.configure({
+        layersBelow: below.map(({ simulation: lower, material: lowerMaterial }): ClothSurface => ({
+          positions: lower.surfacePositions,
+          indices: lower.indices,
+          staticFriction: lowerMaterial.staticFriction,
+          kineticFriction: lowerMaterial.kineticFriction
+        }))
+      });
+      appliedLayersRef.current = below;
+    }
 
-        const offsetX = dx * correction;
-        const offsetY = dy * correction;
-        const offsetZ = dz * correction;
+    // --- Pin dragged vertex for strict control ---
+    const { drag } = input;
+    if (draggedVertexRef.current >= 0 && draggedVertexRef.current !== drag?.vertex) {
+      simulation.releasePin(draggedVertexRef.current);
+    }
+    if (drag) simulation.setPin(drag.vertex, ...drag.target);
+    draggedVertexRef.current = drag ? drag.vertex : -1;
+
+    // --- Pin cloth corners to smoothed hand pinch positions when pinching ---
+    // The damping used to be applied once per solver iteration at 60 FPS, so
+    // compound it here to keep the same hand feel at any frame rate.
+    const pinchDamping = 1 - Math.pow(1 - PINCH_DAMPING, iterations * stepDelta * 60);
+    // INVERSE: left hand maps to RIGHT top corner, right hand to LEFT top corner
+    updatePinchPin(simulation, input.left?.pinch ?? null, smoothedLeftPinchRef, cloth.handles[1], pinchDamping);
+    updatePinchPin(simulation, input.right?.pinch ?? null, smoothedRightPinchRef, cloth.handles[0], pinchDamping);
+
+    // Run however many fixed steps the real frame time calls for
+    const changed = simulation.advance(stepDelta);
+    const stats = simulation.stats;
+    if (statsRef) statsRef.current = stats;
+    if (stats.settledAt !== settledAtRef.current) {
+      settledAtRef.current = stats.settledAt;
+      if (stats.settledAt !== null) currentOnSettled?.(stats);
+    }
 
-        pos[idx1] += offsetX;
-        pos[idx1 + 1] += offsetY;
-        pos[idx1 + 2] += offsetZ;
+    // Update Geometry: positions are blended between the last two fixed steps
+    // every frame; normals come precomputed whenever the solver advanced.
+    const positionAttribute = geo.attributes.position;
+    simulation.interpolate(positionAttribute.array as Float32Array);
+    positionAttribute.needsUpdate = true;
 
-        pos[idx2] -= offsetX;
-        pos[idx2 + 1] -= offsetY;
-        pos[idx2 + 2] -= offsetZ;
+    // Tearing split particles: take over the new triangles and give each
+    // copy the texture coordinates of the vertex it came from
+    if (simulation.topologyVersion !== topologyVersionRef.current) {
+      topologyVersionRef.current = simulation.topologyVersion;
+      const index = geo.index!;
+      (index.array as Uint32Array).set(simulation.indices);
+      index.needsUpdate = true;
+
+      const uvAttribute = geo.attributes.uv;
+      const uvs = uvAttribute.array as Float32Array;
+      for (let i = count; i < simulation.count; i++) {
+        const origin = simulation.origins[i];
+        uvs[i * 2] = cloth.uvs[origin * 2];
+        uvs[i * 2 + 1] = cloth.uvs[origin * 2 + 1];
+      }
+      uvAttribute.needsUpdate = true;
     }
-  };
-
-  useFrame(() => {
-    if (!meshRef.current) return;
-    
-    const { 
-        stiffness: currentStiffness, 
-        clothFriction: currentClothFriction, 
-        sphereFriction: currentSphereFriction,
-        sphereRadius: currentSphereRadius,
-        spherePosition: currentSpherePos
-    } = configRef.current;
 
-    const pos = positions.current;
-    const prev = prevPositions.current;
-    const geo = meshRef.current.geometry;
-    
-    // 1. Verlet Integration & Gravity
-    for (let i = 0; i < count; i++) {
-      const idx = i * 3;
-      
-      const px = pos[idx];
-      const py = pos[idx + 1];
-      const pz = pos[idx + 2];
-
-      const ppx = prev[idx];
-      const ppy = prev[idx + 1];
-      const ppz = prev[idx + 2];
-
-      const velX = (px - ppx) * DRAG;
-      const velY = (py - ppy) * DRAG;
-      const velZ = (pz - ppz) * DRAG;
-
-      prev[idx] = px;
-      prev[idx + 1] = py;
-      prev[idx + 2] = pz;
-
-      pos[idx] = px + velX;
-      pos[idx + 1] = py + velY + GRAVITY;
-      pos[idx + 2] = pz + velZ;
+    const markers = markersRef.current;
+    if (markers) {
+      const rendered = positionAttribute.array as Float32Array;
+      pinnedVertices.forEach((v, k) => {
+        markerMatrix.makeTranslation(rendered[v * 3], rendered[v * 3 + 1], rendered[v * 3 + 2]);
+        markers.setMatrixAt(k, markerMatrix);
+      });
+      markers.count = pinnedVertices.length;
+      markers.instanceMatrix.needsUpdate = true;
     }
 
-    // 2. Constraint Solving
-    const baseIterations = resolution > 40 ? 12 : 8;
-    const iterations = currentStiffness > 0.8 ? 20 : baseIterations; 
-    
-    const reinforcementStrength = currentStiffness > 0.7 ? (currentStiffness - 0.7) / 0.3 : 0;
-
-    for (let iter = 0; iter < iterations; iter++) {
-        solveList(structural, pos, 1.0);
-        solveList(bending, pos, currentStiffness);
-        
-        if (reinforcementStrength > 0) {
-            solveList(reinforcement, pos, reinforcementStrength);
-        }
-        
-        // --- Pin dragged vertex inside solver loop for strict control ---
-        if (interactionRef.current.active) {
-            const idx = interactionRef.current.vertexIndex * 3;
-            const t = interactionRef.current.currentIntersection;
-            
-            pos[idx] = t.x;
-            pos[idx+1] = t.y;
-            pos[idx+2] = t.z;
-            
-            // Kill velocity
-            prev[idx] = t.x;
-            prev[idx+1] = t.y;
-            prev[idx+2] = t.z;
-        }
-        
-        // --- Pin cloth corners to smoothed hand pinch positions when pinching ---
-        if (leftHandRef?.current.isPinching && leftHandRef.current.pinchPosition) {
-          const target = leftHandRef.current.pinchPosition;
-          if (!smoothedLeftPinchRef.current) {
-            smoothedLeftPinchRef.current = target.clone();
-          } else {
-            smoothedLeftPinchRef.current.lerp(target, PINCH_DAMPING);
-          }
-
-          const pinchPos = smoothedLeftPinchRef.current;
-          // INVERSE: left hand maps to RIGHT top corner
-          const i = getIdx(cols - 1, 0, cols);
-          const idx = i * 3;
-          
-          pos[idx] = pinchPos.x;
-          pos[idx + 1] = pinchPos.y;
-          pos[idx + 2] = pinchPos.z;
-          
-          prev[idx] = pinchPos.x;
-          prev[idx + 1] = pinchPos.y;
-          prev[idx + 2] = pinchPos.z;
-        } else {
-          smoothedLeftPinchRef.current = null;
-        }
-        
-        if (rightHandRef?.current.isPinching && rightHandRef.current.pinchPosition) {
-          const target = rightHandRef.current.pinchPosition;
-          if (!smoothedRightPinchRef.current) {
-            smoothedRightPinchRef.current = target.clone();
-          } else {
-            smoothedRightPinchRef.current.lerp(target, PINCH_DAMPING);
-          }
-
-          const pinchPos = smoothedRightPinchRef.current;
-          // INVERSE: right hand maps to LEFT top corner
-          const i = getIdx(0, 0, cols);
-          const idx = i * 3;
-          
-          pos[idx] = pinchPos.x;
-          pos[idx + 1] = pinchPos.y;
-          pos[idx + 2] = pinchPos.z;
-          
-          prev[idx] = pinchPos.x;
-          prev[idx + 1] = pinchPos.y;
-          prev[idx + 2] = pinchPos.z;
-        } else {
-          smoothedRightPinchRef.current = null;
-        }
-
-        // 3. Collision with Sphere
-        for (let i = 0; i < count; i++) {
-            const idx = i * 3;
-            
-            // Skip collision for the actively dragged vertex to avoid fighting
-            if (interactionRef.current.active && i === interactionRef.current.vertexIndex) continue;
-
-            const px = pos[idx];
-            const py = pos[idx + 1];
-            const pz = pos[idx + 2];
-
-            const dx = px - currentSpherePos[0];
-            const dy = py - currentSpherePos[1];
-            const dz = pz - currentSpherePos[2];
-
-            const distSq = dx * dx + dy * dy + dz * dz;
-            const colRad = currentSphereRadius + 0.08; 
-
-            if (distSq < colRad * colRad) {
-              const dist = Math.sqrt(distSq);
-              const force = (colRad - dist) / dist;
-                
-              // Positional correction (normal push out of the sphere)
-              pos[idx] += dx * force;
-              pos[idx + 1] += dy * force;
-              pos[idx + 2] += dz * force;
-
-              // --- Friction: damp relative tangential motion along sphere surface ---
-              const nx = dx / dist;
-              const ny = dy / dist;
-              const nz = dz / dist;
-
-              // Approximate vertex velocity from Verlet state
-              const velX = pos[idx] - prev[idx];
-              const velY = pos[idx + 1] - prev[idx + 1];
-              const velZ = pos[idx + 2] - prev[idx + 2];
-
-              // Decompose into normal and tangential components
-              const vn = velX * nx + velY * ny + velZ * nz;
-              const vnx = nx * vn;
-              const vny = ny * vn;
-              const vnz = nz * vn;
-
-              const vtx = velX - vnx;
-              const vty = velY - vny;
-              const vtz = velZ - vnz;
-
-              const combinedFriction = (currentClothFriction + currentSphereFriction) * 0.5;
-              
-              if (combinedFriction >= 0.60) {
-                // Very high friction: snap to sphere surface and kill all velocity
-                const snapX = currentSpherePos[0] + nx * colRad;
-                const snapY = currentSpherePos[1] + ny * colRad;
-                const snapZ = currentSpherePos[2] + nz * colRad;
-
-                pos[idx] = snapX;
-                pos[idx + 1] = snapY;
-                pos[idx + 2] = snapZ;
-
-                // Zero velocity in Verlet by setting prev equal to current
-                prev[idx] = snapX;
-                prev[idx + 1] = snapY;
-                prev[idx + 2] = snapZ;
-              } else {
-                // Scale tangential velocity based on friction
-                const tangentialDamping = THREE.MathUtils.clamp(combinedFriction * 1.2, 0, 0.98);
-                const dampedVtx = vtx * (1 - tangentialDamping);
-                const dampedVty = vty * (1 - tangentialDamping);
-                const dampedVtz = vtz * (1 - tangentialDamping);
-
-                const finalVelX = vnx + dampedVtx;
-                const finalVelY = vny + dampedVty;
-                const finalVelZ = vnz + dampedVtz;
-
-                prev[idx] = pos[idx] - finalVelX;
-                prev[idx + 1] = pos[idx + 1] - finalVelY;
-                prev[idx + 2] = pos[idx + 2] - finalVelZ;
-              }
-            }
-            
-            // Floor Collision
-            if (pos[idx + 1] < -2.5) {
-                pos[idx + 1] = -2.5;
-                const floorFriction = 0.5;
-                const vx = pos[idx] - prev[idx];
-                const vz = pos[idx+2] - prev[idx+2];
-                prev[idx] = pos[idx] - vx * (1 - floorFriction);
-                prev[idx+2] = pos[idx+2] - vz * (1 - floorFriction);
-            }
-        }
+    if (changed) {
+      const normalAttribute = geo.attributes.normal;
+      (normalAttribute.array as Float32Array).set(simulation.normals);
+      normalAttribute.needsUpdate = true;
+      geo.computeBoundingSphere();
     }
 
-    // 4. Update Geometry
-    const positionAttribute = geo.attributes.position;
-    for (let i = 0; i < count; i++) {
-      positionAttribute.setXYZ(i, pos[i * 3], pos[i * 3 + 1], pos[i * 3 + 2]);
+    // --- Cache the frame as rendered ---
+    if (currentRecorder) {
+      let recorded = recordedRef.current;
+      if (!recorded || recorded.cache !== currentRecorder || recorded.topologyVersion !== simulation.topologyVersion) {
+        recorded = {
+          cache: currentRecorder,
+          topologyVersion: simulation.topologyVersion,
+          mesh: {
+            indices: (geo.index!.array as Uint32Array).slice(),
+            uvs: (geo.attributes.uv.array as Float32Array).slice(0, simulation.count * 2)
+          },
+          positions: (positionAttribute.array as Float32Array).slice(0, simulation.count * 3)
+        };
+      } else if (changed || !stats.asleep) {
+        recorded = { ...recorded, positions: (positionAttribute.array as Float32Array).slice(0, simulation.count * 3) };
+      }
+      recordedRef.current = recorded;
+      const pinch = (ref: React.MutableRefObject<THREE.Vector3 | null>) => ref.current?.toArray() ?? null;
+      currentRecorder.record(
+        clock.elapsedTime,
+        currentColliders,
+        { id: layerId, color, positions: recorded.positions, mesh: recorded.mesh },
+        leftHandRef ? { left: pinch(smoothedLeftPinchRef), right: pinch(smoothedRightPinchRef) } : undefined
+      );
     }
-    positionAttribute.needsUpdate = true;
-    geo.computeVertexNormals();
-    geo.computeBoundingSphere();
   });
 
   return (
-    <mesh 
-      ref={meshRef} 
-      castShadow 
-      receiveShadow 
-      frustumCulled={false}
-      onPointerDown={handlePointerDown}
-      // Note: onPointerMove/Up are handled by window listeners now
-    >
-      <planeGeometry args={[width, height, resolution, resolution]} />
-      <meshStandardMaterial 
-        color={"#000000"}
-        side={THREE.DoubleSide}
-        wireframe={false}
-        flatShading={false}
-        roughness={0.95}
-        metalness={0.05}
-        map={fabricTexture}
-        emissive={new THREE.Color('#e6d6c6')}
-        emissiveMap={fabricTexture}
-        emissiveIntensity={0.22}
-      />
-    </mesh>
+    <>
+      <mesh 
+        ref={meshRef} 
+        geometry={geometry}
+        castShadow 
+        receiveShadow 
+        frustumCulled={false}
+        onPointerDown={handlePointerDown}
+        // Note: onPointerMove/Up are handled by window listeners now
+      >
+        <meshPhysicalMaterial 
+          color={"#000000"}
+          side={THREE.DoubleSide}
+          wireframe={false}
+          flatShading={false}
+          roughness={roughness}
+          metalness={0.05}
+          sheen={sheen}
+          sheenColor={color}
+          sheenRoughness={0.5}
+          map={fabricTexture}
+          emissive={new THREE.Color('#e6d6c6')}
+          emissiveMap={fabricTexture}
+          emissiveIntensity={0.22}
+        />
+      </mesh>
+      {/* Pin markers, sized for the mesh's vertex count */}
+      <instancedMesh ref={markersRef} args={[undefined, undefined, count]} frustumCulled={false}>
+        <sphereGeometry args={[0.05, 8, 6]} />
+        <meshBasicMaterial color={pinEditing ? '#f472b6' : '#facc15'} />
+      </instancedMesh>
+    </>
   );
 };
\ No newline at end of file
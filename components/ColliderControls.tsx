@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import {
+  Collider,
+  ColliderPreset,
+  colliderOrigin,
+  createColliderPreset,
+  translateCollider
+} from '../simulation/colliders';
+import { MESH_FILE_ACCEPT, loadMeshCollider } from '../simulation/meshImport';
+
+interface ColliderControlsProps {
+  colliders: Collider[];
+  setColliders: (val: Collider[]) => void;
+}
+
+const PRESETS: { preset: ColliderPreset; label: string }[] = [
+  { preset: 'sphere', label: 'Sphere' },
+  { preset: 'table', label: 'Table' },
+  { preset: 'shoulders', label: 'Shoulders' },
+  { preset: 'hanger', label: 'Hanger' },
+  { preset: 'floor', label: 'Floor' }
+];
+
+const KIND_LABELS: Record<Collider['kind'], string> = {
+  sphere: 'Sphere',
+  capsule: 'Capsule',
+  box: 'Box',
+  plane: 'Plane',
+  mesh: 'Model'
+};
+
+export const colliderLabel = (collider: Collider) =>
+  collider.kind === 'mesh' ? collider.name : KIND_LABELS[collider.kind];
+
+const POSITION_AXES = ['X', 'Y', 'Z'];
+
+const FRICTION_FIELDS: { key: 'staticFriction' | 'kineticFriction'; label: string }[] = [
+  { key: 'staticFriction', label: 'Static Friction' },
+  { key: 'kineticFriction', label: 'Kinetic Friction' }
+];
+
+// Scales the characteristic size of a shape (radius, or box extents)
+const resize = (collider: Collider, size: number): Collider => {
+  switch (collider.kind) {
+    case 'sphere':
+    case 'capsule':
+      return { ...collider, radius: size };
+    case 'box': {
+      const ratio = size / collider.halfExtents[0];
+      return { ...collider, halfExtents: collider.halfExtents.map(h => h * ratio) as [number, number, number] };
+    }
+    case 'plane':
+    case 'mesh':
+      return collider;
+  }
+};
+
+const sizeOf = (collider: Collider) =>
+  collider.kind === 'box' ? collider.halfExtents[0] :
+  collider.kind === 'plane' || collider.kind === 'mesh' ? null :
+  collider.radius;
+
+export const newId = (prefix: string) => `${prefix}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const ColliderControls: React.FC<ColliderControlsProps> = ({ colliders, setColliders }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const update = (index: number, next: Collider) => {
+    setColliders(colliders.map((c, i) => (i === index ? next : c)));
+  };
+
+  const remove = (index: number) => {
+    setColliders(colliders.filter((_, i) => i !== index));
+  };
+
+  const add = (preset: ColliderPreset) => {
+    setColliders([...colliders, createColliderPreset(preset, newId(preset))]);
+  };
+
+  const loadModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const collider = await loadMeshCollider(file, newId('mesh'));
+      setColliders([...colliders, collider]);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {colliders.map((collider, index) => {
+        const size = sizeOf(collider);
+        return (
+          <div key={collider.id ?? index} className="space-y-2 bg-white/5 rounded-lg p-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-200 truncate">
+                {colliderLabel(collider)}
+              </span>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Remove
+              </button>
+            </div>
+
+            {size !== null && (
+              <div>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{collider.kind === 'box' ? 'Half Width' : 'Radius'}</span>
+                  <span className="font-mono">{size.toFixed(2)}m</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.02"
+                  max="3"
+                  step="0.01"
+                  value={size}
+                  onChange={(e) => update(index, resize(collider, parseFloat(e.target.value)))}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+                />
+              </div>
+            )}
+
+            {/* Moving a collider carries any pins attached to it */}
+            {collider.kind !== 'plane' && POSITION_AXES.map((axis, a) => {
+              const origin = colliderOrigin(collider);
+              return (
+                <div key={axis}>
+                  <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>Position {axis}</span>
+                    <span className="font-mono">{origin[a].toFixed(2)}m</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="-5"
+                    max="5"
+                    step="0.05"
+                    value={origin[a]}
+                    onChange={(e) => {
+                      const delta = [0, 0, 0];
+                      delta[a] = parseFloat(e.target.value) - origin[a];
+                      update(index, translateCollider(collider, delta[0], delta[1], delta[2]));
+                    }}
+                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+                  />
+                </div>
+              );
+            })}
+
+            {FRICTION_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{label}</span>
+                  <span className="font-mono">{collider[key].toFixed(2)}</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1.5"
+                  step="0.05"
+                  value={collider[key]}
+                  onChange={(e) => update(index, { ...collider, [key]: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+                />
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map(({ preset, label }) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => add(preset)}
+            className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+          >
+            + {label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+        >
+          {loading ? 'Loading…' : '+ Model (glTF/OBJ)'}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={MESH_FILE_ACCEPT}
+          onChange={loadModel}
+          className="hidden"
+        />
+      </div>
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { Collider } from '../simulation/colliders';
+
+interface ColliderMeshProps {
+  collider: Collider;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+export const ColliderMesh: React.FC<ColliderMeshProps> = ({ collider }) => {
+  // Map static friction (0-1.5) to roughness (0.1 - 0.9)
+  // Low friction = shiny (low roughness)
+  // High friction = matte (high roughness)
+  const roughness = 0.1 + Math.min(collider.staticFriction / 1.5, 1) * 0.8;
+
+  // Capsules and planes are authored as endpoints / normals; derive a transform
+  const transform = useMemo(() => {
+    if (collider.kind === 'capsule') {
+      const start = new THREE.Vector3(...collider.start);
+      const end = new THREE.Vector3(...collider.end);
+      const axis = end.clone().sub(start);
+      const length = axis.length();
+      return {
+        position: start.add(end).multiplyScalar(0.5),
+        quaternion: new THREE.Quaternion().setFromUnitVectors(UP, length > 0 ? axis.normalize() : UP),
+        length
+      };
+    }
+    if (collider.kind === 'plane') {
+      const normal = new THREE.Vector3(...collider.normal).normalize();
+      return {
+        position: normal.clone().multiplyScalar(collider.offset),
+        // PlaneGeometry faces +Z
+        quaternion: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal),
+        length: 0
+      };
+    }
+    return null;
+  }, [collider]);
+
+  // Mesh colliders are already in world space
+  const meshGeometry = useMemo(() => {
+    if (collider.kind !== 'mesh') return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(collider.vertices, 3));
+    geometry.setIndex(new THREE.BufferAttribute(collider.indices, 1));
+    geometry.computeVertexNormals();
+    return geometry;
+  }, [collider.kind === 'mesh' ? collider.vertices : null]);
+
+  useEffect(() => () => meshGeometry?.dispose(), [meshGeometry]);
+
+  switch (collider.kind) {
+    case 'sphere':
+      return (
+        <mesh position={collider.center} castShadow receiveShadow>
+          <sphereGeometry args={[collider.radius, 32, 32]} />
+          <meshStandardMaterial color="#4f46e5" roughness={roughness} metalness={0.3} />
+        </mesh>
+      );
+
+    case 'capsule':
+      return (
+        <mesh position={transform!.position} quaternion={transform!.quaternion} castShadow receiveShadow>
+          <capsuleGeometry args={[collider.radius, transform!.length, 8, 24]} />
+          <meshStandardMaterial color="#4f46e5" roughness={roughness} metalness={0.3} />
+        </mesh>
+      );
+
+    case 'box':
+      return (
+        <mesh position={collider.center} rotation={collider.rotation} castShadow receiveShadow>
+          <boxGeometry args={collider.halfExtents.map(h => h * 2) as [number, number, number]} />
+          <meshStandardMaterial color="#4f46e5" roughness={roughness} metalness={0.3} />
+        </mesh>
+      );
+
+    case 'mesh':
+      return (
+        <mesh geometry={meshGeometry!} castShadow receiveShadow>
+          <meshStandardMaterial color="#4f46e5" roughness={roughness} metalness={0.3} />
+        </mesh>
+      );
+
+    case 'plane':
+      return (
+        <mesh position={transform!.position} quaternion={transform!.quaternion} receiveShadow>
+          <planeGeometry args={[100, 100]} />
+          <meshStandardMaterial color="#1a1a1a" />
+        </mesh>
+      );
+  }
+};
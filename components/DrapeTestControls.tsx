@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FabricMaterial } from '../simulation/FabricMaterial';
+import type { SolverMethod } from '../simulation/ClothSolver';
+import {
+  DEFAULT_DRAPE_TEST,
+  DrapeTest,
+  DrapeTestResult,
+  DrapeTestSettings,
+  PROFILE_BINS,
+  SPECIMEN_DIAMETERS,
+  drapeResultToCsv,
+  drapeResultToJson
+} from '../simulation/drapeTest';
+
+interface DrapeTestControlsProps {
+  material: FabricMaterial; // The selected layer's fabric
+  solverMethod: SolverMethod;
+}
+
+// Solver time per animation frame while a test runs, so the page stays responsive
+const FRAME_BUDGET_MS = 12;
+
+interface FinishedTest {
+  result: DrapeTestResult;
+  material: FabricMaterial;
+  settings: DrapeTestSettings;
+}
+
+export const download = (filename: string, data: string | ArrayBuffer, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Shadow outline seen from above, over the specimen and disk circles
+const ShadowPlot: React.FC<{ test: FinishedTest }> = ({ test }) => {
+  const { result, settings } = test;
+  const r = settings.specimenDiameter / 2;
+  const points = result.profile
+    .map((radius, k) => {
+      const angle = ((k + 0.5) / PROFILE_BINS) * Math.PI * 2;
+      return `${(radius * Math.cos(angle)).toFixed(4)},${(-radius * Math.sin(angle)).toFixed(4)}`;
+    })
+    .join(' ');
+  return (
+    <svg viewBox={`${-r * 1.05} ${-r * 1.05} ${r * 2.1} ${r * 2.1}`} className="w-40 h-40 mx-auto">
+      <circle r={r} fill="none" stroke="#6b7280" strokeWidth={r * 0.01} strokeDasharray={`${r * 0.04} ${r * 0.03}`} />
+      <polygon points={points} fill="rgba(168, 85, 247, 0.45)" stroke="#a855f7" strokeWidth={r * 0.012} />
+      <circle r={settings.diskDiameter / 2} fill="#374151" stroke="#9ca3af" strokeWidth={r * 0.01} />
+    </svg>
+  );
+};
+
+export const DrapeTestControls: React.FC<DrapeTestControlsProps> = ({ material, solverMethod }) => {
+  const [specimenDiameter, setSpecimenDiameter] = useState(DEFAULT_DRAPE_TEST.specimenDiameter);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [finished, setFinished] = useState<FinishedTest | null>(null);
+  const testRef = useRef<DrapeTest | null>(null);
+  const rafRef = useRef(0);
+
+  useEffect(() => () => cancelAnimationFrame(rafRef.current), []);
+
+  const run = () => {
+    cancelAnimationFrame(rafRef.current);
+    const settings: DrapeTestSettings = { ...DEFAULT_DRAPE_TEST, specimenDiameter, method: solverMethod };
+    const test = new DrapeTest(material, settings);
+    testRef.current = test;
+    setProgress(0);
+
+    const frame = () => {
+      const start = performance.now();
+      while (!test.done && performance.now() - start < FRAME_BUDGET_MS) test.advance(1 / 60);
+      if (testRef.current !== test) return;
+      if (test.done) {
+        setFinished({ result: test.result(), material, settings });
+        setProgress(null);
+        testRef.current = null;
+      } else {
+        setProgress(test.progress);
+        rafRef.current = requestAnimationFrame(frame);
+      }
+    };
+    rafRef.current = requestAnimationFrame(frame);
+  };
+
+  const cancel = () => {
+    cancelAnimationFrame(rafRef.current);
+    testRef.current = null;
+    setProgress(null);
+  };
+
+  const exportName = finished
+    ? `cusick-${Math.round(finished.settings.specimenDiameter * 1000)}mm-${finished.material.gsm}gsm`
+    : '';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-gray-500">
+        Hangs a circular specimen of the selected layer's fabric from an 18 cm support disk and measures its shadow once it settles.
+      </p>
+
+      <div className="flex justify-between items-center text-xs text-gray-400">
+        <span>Specimen Diameter</span>
+        <select
+          value={specimenDiameter}
+          onChange={(e) => setSpecimenDiameter(parseFloat(e.target.value))}
+          disabled={progress !== null}
+          className="bg-gray-700 text-gray-200 rounded px-1 py-0.5"
+        >
+          {SPECIMEN_DIAMETERS.map(d => (
+            <option key={d} value={d}>{Math.round(d * 100)} cm</option>
+          ))}
+        </select>
+      </div>
+
+      {progress === null ? (
+        <button
+          type="button"
+          onClick={run}
+          className="w-full text-xs px-2 py-1.5 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+        >
+          Run Cusick Test
+        </button>
+      ) : (
+        <div className="space-y-1">
+          <div className="h-2 bg-gray-700 rounded-lg overflow-hidden">
+            <div className="h-full bg-purple-500" style={{ width: `${Math.round(progress * 100)}%` }} />
+          </div>
+          <button type="button" onClick={cancel} className="text-xs text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {finished && (
+        <div className="space-y-2 bg-white/5 rounded-lg p-3">
+          <ShadowPlot test={finished} />
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Drape Coefficient</span>
+            <span className="font-mono text-gray-200">{(finished.result.drapeCoefficient * 100).toFixed(1)}%</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Nodes</span>
+            <span className="font-mono text-gray-200">{finished.result.nodes}</span>
+          </div>
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>Shadow Area</span>
+            <span className="font-mono text-gray-200">{(finished.result.shadowArea * 1e4).toFixed(1)} cm²</span>
+          </div>
+          {!finished.result.settled && (
+            <p className="text-xs text-red-400">
+              Still moving after {finished.settings.maxTime} s; the result may not be final.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => download(`${exportName}.json`, drapeResultToJson(finished.result, finished.material, finished.settings), 'application/json')}
+              className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+            >
+              Export JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => download(`${exportName}.csv`, drapeResultToCsv(finished.result, finished.material, finished.settings), 'text/csv')}
+              className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+            >
+              Export CSV
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
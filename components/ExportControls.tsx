@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { EXPORT_FORMAT_LABELS, ExportFormat, ExportMesh, exportMeshes } from '../simulation/meshExport';
+import { download } from './DrapeTestControls';
+
+interface ExportControlsProps {
+  fileName: string; // Without extension
+  // Current cloth layers, plus the colliders when asked for
+  getMeshes: (includeColliders: boolean) => ExportMesh[];
+}
+
+// Writes the drape as it is now (positions, normals, texture coordinates)
+// to a file for Blender and product renderers
+export const ExportControls: React.FC<ExportControlsProps> = ({ fileName, getMeshes }) => {
+  const [format, setFormat] = useState<ExportFormat>('glb');
+  const [includeColliders, setIncludeColliders] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportDrape = () => {
+    const meshes = getMeshes(includeColliders);
+    if (meshes.length === 0) {
+      setExportError('No cloth to export yet');
+      return;
+    }
+    setExportError(null);
+    const file = exportMeshes(meshes, format);
+    download(`${fileName.toLowerCase().replace(/\s+/g, '-')}.${file.extension}`, file.data, file.mimeType);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-xs text-gray-400">
+        <span>Format</span>
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as ExportFormat)}
+          className="bg-gray-700 text-gray-200 rounded px-1 py-0.5"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(key => (
+            <option key={key} value={key}>{EXPORT_FORMAT_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">Include Colliders</span>
+        <button
+          type="button"
+          onClick={() => setIncludeColliders(!includeColliders)}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+            includeColliders ? 'bg-purple-500' : 'bg-gray-600'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+              includeColliders ? 'translate-x-4' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={exportDrape}
+        className="w-full text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+      >
+        Export Mesh
+      </button>
+      {exportError && <p className="text-xs text-red-400">{exportError}</p>}
+    </div>
+  );
+};
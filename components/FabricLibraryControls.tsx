@@ -0,0 +1,115 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FabricMaterial, isSameMaterial } from '../simulation/FabricMaterial';
+import {
+  FABRIC_LIBRARY_ACCEPT,
+  FabricPreset,
+  fabricLibraryToJson,
+  loadFabricCatalogue,
+  searchFabrics
+} from '../simulation/fabricLibrary';
+import { download } from './DrapeTestControls';
+
+interface FabricLibraryControlsProps {
+  library: FabricPreset[];
+  // The selected layer's fabric and the library entry it was set to
+  material: FabricMaterial;
+  fabricId: string | null;
+  onApply: (fabric: FabricPreset) => void;
+  onImport: (fabrics: FabricPreset[]) => void;
+}
+
+const buttonClass = 'flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded';
+
+// Searchable list of named fabrics; picking one sets the selected layer's
+// material and look. Catalogues (CSV or JSON) add to the list.
+export const FabricLibraryControls: React.FC<FabricLibraryControlsProps> = ({
+  library,
+  material,
+  fabricId,
+  onApply,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [imported, setImported] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const matches = useMemo(() => searchFabrics(library, query), [library, query]);
+  const current = library.find(fabric => fabric.id === fabricId);
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const fabrics = await loadFabricCatalogue(file);
+      onImport(fabrics);
+      setImported(`Imported ${fabrics.length} fabric${fabrics.length === 1 ? '' : 's'} from ${file.name}`);
+    } catch (err) {
+      setImported(null);
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">
+        {current ? (
+          <>
+            <span className="text-gray-200">{current.name}</span> · {current.id}
+            {!isSameMaterial(current.material, material) && <span className="text-yellow-400"> (edited)</span>}
+          </>
+        ) : fabricId ? (
+          `${fabricId} (not in the library)`
+        ) : (
+          'Custom fabric'
+        )}
+      </p>
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Search name, SKU, fibre…"
+        className="w-full text-xs bg-gray-700 text-gray-200 rounded px-2 py-1 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+      />
+      <div className="max-h-40 overflow-y-auto space-y-1 scrollbar-hide">
+        {matches.map(fabric => (
+          <button
+            key={fabric.id}
+            type="button"
+            onClick={() => onApply(fabric)}
+            className={`w-full flex items-center gap-2 text-left text-xs px-2 py-1 rounded border ${
+              fabric.id === fabricId ? 'border-purple-500 bg-purple-500/20' : 'border-white/10 bg-white/5 hover:bg-white/10'
+            }`}
+          >
+            <span className="inline-block h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: fabric.appearance.color }} />
+            <span className="flex-1 min-w-0">
+              <span className="block truncate text-gray-200">{fabric.name}</span>
+              <span className="block truncate text-[10px] text-gray-500">
+                {[fabric.category, fabric.composition].filter(Boolean).join(' · ') || fabric.id}
+              </span>
+            </span>
+            <span className="font-mono text-gray-400">{fabric.material.gsm} gsm</span>
+          </button>
+        ))}
+        {matches.length === 0 && <p className="text-xs text-gray-500">No fabric matches “{query}”</p>}
+      </div>
+      <div className="flex gap-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          Import Catalogue…
+        </button>
+        <button
+          type="button"
+          onClick={() => download('fabric-library.json', fabricLibraryToJson(library), 'application/json')}
+          className={buttonClass}
+        >
+          Export Library
+        </button>
+        <input ref={fileInputRef} type="file" accept={FABRIC_LIBRARY_ACCEPT} onChange={importFile} className="hidden" />
+      </div>
+      {imported && <p className="text-[10px] text-gray-500">{imported}</p>}
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from 'react';
+import {
+  GARMENT_SAMPLE_LABELS,
+  Garment,
+  GarmentSample,
+  Seam,
+  createSampleGarment,
+  edgeLength
+} from '../simulation/pattern';
+import { PATTERN_FILE_ACCEPT, loadPattern } from '../simulation/patternImport';
+
+interface GarmentControlsProps {
+  garment: Garment | null;
+  setGarment: (val: Garment | null) => void;
+}
+
+const SAMPLES: GarmentSample[] = ['tube', 'poncho'];
+
+const PLACEMENT_FIELDS: { key: 'radius' | 'top'; label: string; min: number; max: number }[] = [
+  { key: 'radius', label: 'Distance From Centre', min: 0.2, max: 3 },
+  { key: 'top', label: 'Top Height', min: -2, max: 5 }
+];
+
+const selectClass = 'bg-gray-700 text-gray-200 rounded px-1 py-0.5 text-xs min-w-0 flex-1';
+
+export const GarmentControls: React.FC<GarmentControlsProps> = ({ garment, setGarment }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Open lines the last imported pattern left out
+  const [skipped, setSkipped] = useState<string[]>([]);
+  // Seam being assembled in the editor: piece and edge on either side
+  const [draft, setDraft] = useState<Seam>({ a: { piece: 0, edge: 0 }, b: { piece: 1, edge: 0 }, flip: false });
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const loaded = await loadPattern(file);
+      setSkipped(loaded.skipped);
+      setGarment(loaded.garment);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!garment) {
+    return (
+      <div className="space-y-3">
+        <p className="text-[10px] text-gray-500">
+          Simulating a square swatch. Load a pattern to sew panels around the body instead.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {SAMPLES.map(sample => (
+            <button
+              key={sample}
+              type="button"
+              onClick={() => {
+                setSkipped([]);
+                setGarment(createSampleGarment(sample));
+              }}
+              className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+            >
+              + {GARMENT_SAMPLE_LABELS[sample]}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+            className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+          >
+            {loading ? 'Loading…' : '+ Pattern (SVG/DXF)'}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={PATTERN_FILE_ACCEPT}
+            onChange={loadFile}
+            className="hidden"
+          />
+        </div>
+        {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+      </div>
+    );
+  }
+
+  const { pieces, seams } = garment;
+  const edgeLabel = (piece: number, edge: number) =>
+    `${pieces[piece]?.name ?? '?'} · edge ${edge + 1}`;
+  const clampDraft = (seam: Seam): Seam => {
+    const fix = ({ piece, edge }: Seam['a']) => {
+      const p = Math.min(piece, pieces.length - 1);
+      return { piece: p, edge: Math.min(edge, pieces[p].outline.length - 1) };
+    };
+    return { ...seam, a: fix(seam.a), b: fix(seam.b) };
+  };
+  const current = clampDraft(draft);
+
+  const updateSeams = (next: Seam[]) => setGarment({ ...garment, seams: next });
+
+  const edgeSelects = (side: 'a' | 'b') => (
+    <div className="flex gap-1">
+      <select
+        value={current[side].piece}
+        onChange={(e) => setDraft(clampDraft({ ...current, [side]: { piece: parseInt(e.target.value), edge: 0 } }))}
+        className={selectClass}
+      >
+        {pieces.map((piece, p) => <option key={p} value={p}>{piece.name}</option>)}
+      </select>
+      <select
+        value={current[side].edge}
+        onChange={(e) => setDraft({ ...current, [side]: { ...current[side], edge: parseInt(e.target.value) } })}
+        className={selectClass}
+      >
+        {pieces[current[side].piece].outline.map((_, edge) => (
+          <option key={edge} value={edge}>
+            Edge {edge + 1} ({edgeLength(pieces[current[side].piece], edge).toFixed(2)}m)
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-200 truncate">{garment.name}</span>
+        <button
+          type="button"
+          onClick={() => setGarment(null)}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          Back to Swatch
+        </button>
+      </div>
+
+      {skipped.length > 0 && (
+        <p className="text-[10px] text-gray-500">
+          Skipped {skipped.length} open {skipped.length === 1 ? 'line' : 'lines'}: {skipped.join(', ')}
+        </p>
+      )}
+
+      <div className="text-xs text-gray-400 space-y-1">
+        {pieces.map((piece, p) => {
+          const us = piece.outline.map(([u]) => u);
+          const vs = piece.outline.map(([, v]) => v);
+          return (
+            <div key={p} className="flex justify-between">
+              <span className="truncate">{piece.name}</span>
+              <span className="font-mono">
+                {(Math.max(...us) - Math.min(...us)).toFixed(2)} × {(Math.max(...vs) - Math.min(...vs)).toFixed(2)}m
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Placement: pieces stand around the body, facing out */}
+      {PLACEMENT_FIELDS.map(({ key, label, min, max }) => (
+        <div key={key}>
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>{label}</span>
+            <span className="font-mono">{garment[key].toFixed(2)}m</span>
+          </div>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step="0.05"
+            value={garment[key]}
+            onChange={(e) => setGarment({ ...garment, [key]: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+          />
+        </div>
+      ))}
+
+      {/* Seams */}
+      <div className="space-y-2">
+        <span className="text-sm font-medium text-gray-200">Seams</span>
+        {seams.length === 0 && <p className="text-[10px] text-gray-500">No seams yet: the panels hang loose.</p>}
+        {seams.map((seam, index) => (
+          <div key={index} className="flex items-center justify-between gap-2 text-xs text-gray-300 bg-white/5 rounded px-2 py-1">
+            <span className="truncate">
+              {edgeLabel(seam.a.piece, seam.a.edge)} ↔ {edgeLabel(seam.b.piece, seam.b.edge)}
+            </span>
+            <div className="flex gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={() => updateSeams(seams.map((s, i) => (i === index ? { ...s, flip: !s.flip } : s)))}
+                title="Join the edges start-to-start instead of start-to-end"
+                className={seam.flip ? 'text-purple-400' : 'text-gray-400 hover:text-white'}
+              >
+                Flip
+              </button>
+              <button
+                type="button"
+                onClick={() => updateSeams(seams.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-white"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-1 bg-white/5 rounded-lg p-2">
+          {edgeSelects('a')}
+          {edgeSelects('b')}
+          <button
+            type="button"
+            onClick={() => updateSeams([...seams, current])}
+            disabled={current.a.piece === current.b.piece && current.a.edge === current.b.edge}
+            className="w-full text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+          >
+            + Sew Edges
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
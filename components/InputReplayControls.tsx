@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  INPUT_LOG_ACCEPT,
+  InputLog,
+  InputPlayer,
+  InputRecorder,
+  ReplayComparison,
+  compareFinalPositions,
+  inputLogToJson,
+  loadInputLog
+} from '../simulation/inputLog';
+import { DEFAULT_TIMESTEP } from '../simulation/FixedTimestep';
+import { download } from './DrapeTestControls';
+
+interface InputReplayControlsProps {
+  fileName: string; // Without extension
+  inputs: InputRecorder | InputPlayer | null;
+  onRecord: () => void; // Restart the scene and start logging
+  onReplay: (log: InputLog) => void; // Restart from the log's scene and feed it in
+  onStop: () => void; // Back to live input
+  // Each layer's current particle positions
+  getFinalPositions: () => Record<string, Float32Array>;
+}
+
+const buttonClass = 'text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50';
+
+// Records the drags and hand pinches into a replay file, and replays one
+// without a camera, checking it ends in the drape it was recorded with
+export const InputReplayControls: React.FC<InputReplayControlsProps> = ({
+  fileName,
+  inputs,
+  onRecord,
+  onReplay,
+  onStop,
+  getFinalPositions
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [result, setResult] = useState<ReplayComparison | null>(null);
+  // Step counter, refreshed every animation frame
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!inputs) return;
+    setResult(null);
+    let rafId = 0;
+    const loop = () => {
+      // A finished replay is compared once against the recorded drape
+      if (inputs instanceof InputPlayer && inputs.finished) {
+        setResult(compareFinalPositions(inputs.log, getFinalPositions()));
+        return;
+      }
+      setTick(tick => tick + 1);
+      rafId = requestAnimationFrame(loop);
+    };
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [inputs]);
+
+  const stopRecording = () => {
+    if (!(inputs instanceof InputRecorder)) return;
+    const log = inputs.finish(getFinalPositions());
+    onStop();
+    download(`${fileName.toLowerCase().replace(/\s+/g, '-')}.json`, inputLogToJson(log), 'application/json');
+  };
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLoadError(null);
+    try {
+      const log = await loadInputLog(file);
+      if (log.stepSize !== DEFAULT_TIMESTEP.stepSize) {
+        throw new Error(`${file.name} was recorded at ${log.stepSize} s steps, not ${DEFAULT_TIMESTEP.stepSize} s`);
+      }
+      onReplay(log);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const status = inputs instanceof InputRecorder
+    ? `Recording… ${inputs.steps} steps`
+    : inputs instanceof InputPlayer
+      ? `Replaying ${inputs.step} / ${inputs.log.steps} steps`
+      : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {inputs instanceof InputRecorder ? (
+          <button type="button" onClick={stopRecording} className={`${buttonClass} text-red-400`}>
+            ■ Stop &amp; Save
+          </button>
+        ) : (
+          <button type="button" disabled={!!inputs} onClick={onRecord} className={buttonClass}>
+            ● Record Inputs
+          </button>
+        )}
+        {inputs instanceof InputPlayer ? (
+          <button type="button" onClick={onStop} className={buttonClass}>
+            Back to Live
+          </button>
+        ) : (
+          <button type="button" disabled={!!inputs} onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            Replay…
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept={INPUT_LOG_ACCEPT} onChange={loadFile} className="hidden" />
+      </div>
+      {status && <p className="text-xs text-gray-400 font-mono">{status}</p>}
+      {result && (
+        <p className={`text-xs ${result.maxDeviation === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+          {result.maxDeviation === 0
+            ? 'Replay matches the recorded drape exactly'
+            : !isFinite(result.maxDeviation)
+              ? `Layer ${result.layer} did not replay like the recording`
+              : `Replay differs from the recording by up to ${(result.maxDeviation * 1000).toFixed(3)} mm (${result.layer})`}
+        </p>
+      )}
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ClothLayer, createClothLayer } from '../simulation/layers';
+import { newId } from './ColliderControls';
+
+interface LayerControlsProps {
+  layers: ClothLayer[];
+  setLayers: (val: ClothLayer[]) => void;
+  activeLayerId: string;
+  setActiveLayerId: (val: string) => void;
+}
+
+export const LayerControls: React.FC<LayerControlsProps> = ({
+  layers,
+  setLayers,
+  activeLayerId,
+  setActiveLayerId
+}) => {
+  const active = layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+
+  const add = () => {
+    // Next free "Layer n" name; it also sets how high the new swatch starts
+    let index = layers.length;
+    while (layers.some(layer => layer.name === `Layer ${index + 1}`)) index++;
+    const layer = createClothLayer(newId('layer'), index);
+    setLayers([...layers, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const remove = (index: number) => {
+    const next = layers.filter((_, i) => i !== index);
+    setLayers(next);
+    if (layers[index].id === active.id) setActiveLayerId(next[Math.max(0, index - 1)].id);
+  };
+
+  // Swaps a layer with its neighbour; order decides which rests on which
+  const move = (index: number, offset: number) => {
+    const next = [...layers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setLayers(next);
+  };
+
+  const setLift = (lift: number) => {
+    setLayers(layers.map(layer => (layer.id === active.id ? { ...layer, lift } : layer)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[10px] text-gray-500">
+        Innermost first: each layer rests on the ones above it in this list. Material, Garment and Pins edit the selected layer.
+      </p>
+
+      {layers.map((layer, index) => (
+        <div
+          key={layer.id}
+          onClick={() => setActiveLayerId(layer.id)}
+          className={`flex items-center justify-between gap-2 rounded-lg px-3 py-2 cursor-pointer ${
+            layer.id === active.id ? 'bg-white/15 ring-1 ring-purple-500/60' : 'bg-white/5 hover:bg-white/10'
+          }`}
+        >
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-200 truncate">
+            <span className="inline-block h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: layer.color }} />
+            {layer.name}
+            <span className="text-xs text-gray-400">
+              {layer.garment ? layer.garment.name : 'Swatch'} · {layer.material.gsm} gsm
+            </span>
+          </span>
+          <div className="flex gap-2 shrink-0 text-xs" onClick={(e) => e.stopPropagation()}>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              title="Move inwards"
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === layers.length - 1}
+              title="Move outwards"
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={layers.length === 1}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {/* Drop height of the selected swatch (garments are placed by the Garment section) */}
+      {!active.garment && (
+        <div>
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>Drop Height</span>
+            <span className="font-mono">+{active.lift.toFixed(2)}m</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="3"
+            step="0.05"
+            value={active.lift}
+            onChange={(e) => setLift(parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+          />
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={add}
+        className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+      >
+        + Layer
+      </button>
+    </div>
+  );
+};
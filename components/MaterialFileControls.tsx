@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import type { FabricMaterial } from '../simulation/FabricMaterial';
+import { MATERIAL_FILE_ACCEPT, MaterialFile, loadMaterial, materialToJson } from '../simulation/materialFile';
+import { download } from './DrapeTestControls';
+
+interface MaterialFileControlsProps {
+  material: FabricMaterial; // The selected layer's fabric
+  setMaterial: (val: FabricMaterial) => void;
+  layerName: string;
+}
+
+// Loads a material file (such as one written by `npm run fit-materials`)
+// into the selected layer, or saves the layer's material as one
+export const MaterialFileControls: React.FC<MaterialFileControlsProps> = ({ material, setMaterial, layerName }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loaded, setLoaded] = useState<MaterialFile | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLoadError(null);
+    try {
+      const materialFile = await loadMaterial(file);
+      setMaterial(materialFile.material);
+      setLoaded(materialFile);
+    } catch (err) {
+      setLoaded(null);
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const calibration = loaded?.calibration;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+        >
+          Load Material…
+        </button>
+        <button
+          type="button"
+          onClick={() => download(`${layerName.toLowerCase().replace(/\s+/g, '-')}-material.json`, materialToJson(layerName, material), 'application/json')}
+          className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+        >
+          Save Material
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={MATERIAL_FILE_ACCEPT}
+          onChange={loadFile}
+          className="hidden"
+        />
+      </div>
+      {loaded && (
+        <p className="text-[10px] text-gray-500">
+          Loaded “{loaded.name}”
+          {calibration &&
+            `, calibrated ${calibration.date.slice(0, 10)} with ${calibration.method.toUpperCase()}` +
+              (calibration.measured.drapeCoefficient !== undefined && calibration.simulated.drapeCoefficient !== undefined
+                ? ` · drape ${(calibration.simulated.drapeCoefficient * 100).toFixed(1)}% (lab ${(calibration.measured.drapeCoefficient * 100).toFixed(1)}%)`
+                : '') +
+              (calibration.measured.bendingLength !== undefined && calibration.simulated.bendingLength !== undefined
+                ? ` · bending length ${(calibration.simulated.bendingLength * 100).toFixed(2)} cm (lab ${(calibration.measured.bendingLength * 100).toFixed(2)} cm)`
+                : '')}
+        </p>
+      )}
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React from 'react';
+import type { Collider } from '../simulation/colliders';
+import { PIN_PRESET_LABELS, PinPreset, PinSet, createPinPreset, findRail } from '../simulation/pins';
+import { colliderLabel, newId } from './ColliderControls';
+
+interface PinControlsProps {
+  pins: PinSet[];
+  setPins: (val: PinSet[]) => void;
+  colliders: Collider[];
+  cols: number | null; // Grid vertices per side; null for garments, which have no grid presets
+  pinEditing: boolean;
+  setPinEditing: (val: boolean) => void;
+}
+
+const PRESETS: PinPreset[] = ['top-edge', 'top-corners', 'centre', 'rail'];
+
+const WORLD = '';
+
+export const PinControls: React.FC<PinControlsProps> = ({
+  pins,
+  setPins,
+  colliders,
+  cols,
+  pinEditing,
+  setPinEditing
+}) => {
+  const hasRail = findRail(colliders) !== undefined;
+
+  const add = (preset: PinPreset) => {
+    if (cols === null) return;
+    const set = createPinPreset(preset, newId(preset), cols, colliders);
+    if (set) setPins([...pins, set]);
+  };
+
+  // Explicit targets are relative to the old attachment, so a re-attached set
+  // is held wherever its vertices are at that moment instead
+  const attach = (index: number, colliderId: string) => {
+    setPins(pins.map((set, i) =>
+      i === index ? { ...set, colliderId: colliderId === WORLD ? undefined : colliderId, targets: undefined } : set
+    ));
+  };
+
+  const remove = (index: number) => {
+    setPins(pins.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Pin Edit Toggle */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-200">Edit Pins</span>
+        <button
+          type="button"
+          onClick={() => setPinEditing(!pinEditing)}
+          className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+            pinEditing ? 'bg-purple-500' : 'bg-gray-600'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+              pinEditing ? 'translate-x-4' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+      {pinEditing && (
+        <p className="text-[10px] text-gray-500">
+          Click the cloth to pin the nearest vertex where it is, or to release a pinned one.
+        </p>
+      )}
+
+      {pins.map((set, index) => {
+        const attached = colliders.some(c => c.id !== undefined && c.id === set.colliderId);
+        return (
+          <div key={set.id} className="space-y-2 bg-white/5 rounded-lg p-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-200 truncate">
+                {set.name}
+                <span className="text-xs text-gray-400 ml-2">
+                  {set.vertices.length} {set.vertices.length === 1 ? 'vertex' : 'vertices'}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Remove
+              </button>
+            </div>
+
+            <div className="flex justify-between items-center text-xs text-gray-400">
+              <span>Attached To</span>
+              <select
+                value={attached ? set.colliderId : WORLD}
+                onChange={(e) => attach(index, e.target.value)}
+                className="bg-gray-700 text-gray-200 rounded px-1 py-0.5 max-w-[60%]"
+              >
+                <option value={WORLD}>World</option>
+                {colliders.filter(c => c.id !== undefined).map(c => (
+                  <option key={c.id} value={c.id}>{colliderLabel(c)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      })}
+
+      {cols !== null && (
+        <div className="flex flex-wrap gap-2">
+          {PRESETS.map(preset => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => add(preset)}
+              disabled={preset === 'rail' && !hasRail}
+              title={preset === 'rail' && !hasRail ? 'Add a hanger (capsule) collider first' : undefined}
+              className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+            >
+              + {PIN_PRESET_LABELS[preset]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { ComponentRef, useEffect, useRef } from 'react';
+import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
+import * as THREE from 'three';
+import type { CameraSettings } from '../simulation/sceneFile';
+
+interface SceneCameraProps {
+  camera: CameraSettings;
+  // Set to a reader of the current (orbited) camera pose, for saving scenes
+  poseRef: React.MutableRefObject<(() => CameraSettings) | null>;
+  onPoseChange?: () => void; // The user finished orbiting or zooming
+}
+
+// Default camera with orbit controls. The pose is only applied when the
+// settings change (a scene is loaded), so orbiting is kept across renders.
+export const SceneCamera: React.FC<SceneCameraProps> = ({ camera, poseRef, onPoseChange }) => {
+  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+
+  useEffect(() => {
+    const perspective = cameraRef.current;
+    if (!perspective) return;
+    perspective.position.set(...camera.position);
+    perspective.fov = camera.fov;
+    perspective.updateProjectionMatrix();
+    controlsRef.current?.target.set(...camera.target);
+    controlsRef.current?.update();
+  }, [camera]);
+
+  useEffect(() => {
+    poseRef.current = () => {
+      const perspective = cameraRef.current;
+      const target = controlsRef.current?.target;
+      if (!perspective) return camera;
+      return {
+        position: [perspective.position.x, perspective.position.y, perspective.position.z],
+        target: target ? [target.x, target.y, target.z] : camera.target,
+        fov: perspective.fov
+      };
+    };
+    return () => {
+      poseRef.current = null;
+    };
+  }, [camera, poseRef]);
+
+  return (
+    <>
+      <PerspectiveCamera ref={cameraRef} makeDefault position={camera.position} fov={camera.fov} />
+      <OrbitControls
+        ref={controlsRef}
+        makeDefault
+        minPolarAngle={0}
+        maxPolarAngle={Math.PI / 2 - 0.1}
+        enablePan={false}
+        onEnd={onPoseChange}
+        mouseButtons={{
+          LEFT: null as unknown as THREE.MOUSE, // Unbind left click
+          MIDDLE: THREE.MOUSE.DOLLY,
+          RIGHT: THREE.MOUSE.ROTATE
+        }}
+      />
+    </>
+  );
+};
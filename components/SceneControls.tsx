@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { SCENE_FILE_ACCEPT, Scene, fetchScene, loadScene, sceneToJson } from '../simulation/sceneFile';
+import { LONG_SHARE_LINK } from '../simulation/shareLink';
+import { download } from './DrapeTestControls';
+
+interface SceneControlsProps {
+  sceneName: string;
+  // Current setup, with the camera where the user has orbited it
+  getScene: () => Scene;
+  // Address that reopens the current setup
+  getShareLink: () => Promise<string>;
+  onLoadScene: (scene: Scene) => void;
+}
+
+// Loads a scene file from disk or a URL, replacing the whole setup, or
+// saves the current one or copies a link to it
+export const SceneControls: React.FC<SceneControlsProps> = ({ sceneName, getScene, getShareLink, onLoadScene }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [shared, setShared] = useState<{ link: string; copied: boolean } | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  const load = async (read: () => Promise<Scene>) => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      onLoadScene(await read());
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(() => loadScene(file));
+  };
+
+  const save = () => {
+    const scene = getScene();
+    download(`${scene.name.toLowerCase().replace(/\s+/g, '-')}.json`, sceneToJson(scene), 'application/json');
+  };
+
+  const copyLink = async () => {
+    setShared(null);
+    setShareError(null);
+    let link: string;
+    try {
+      link = await getShareLink();
+    } catch (err) {
+      setShareError(`Could not make a share link: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setShared({ link, copied: true });
+    } catch {
+      // No clipboard access (e.g. not served over https): show it to copy by hand
+      setShared({ link, copied: false });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] text-gray-500">Current scene: “{sceneName}”</p>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+        >
+          Load Scene…
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+        >
+          Save Scene
+        </button>
+        <button
+          type="button"
+          onClick={copyLink}
+          className="flex-1 text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded"
+        >
+          Copy Link
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SCENE_FILE_ACCEPT}
+          onChange={loadFile}
+          className="hidden"
+        />
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={e => {
+          e.preventDefault();
+          if (url.trim()) load(() => fetchScene(url.trim()));
+        }}
+      >
+        <input
+          type="text"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder="Scene URL (https://…/scene.json)"
+          className="flex-1 min-w-0 text-xs bg-gray-700 text-gray-200 rounded px-2 py-1"
+        />
+        <button
+          type="submit"
+          disabled={loading || !url.trim()}
+          className="text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50"
+        >
+          {loading ? 'Loading…' : 'Load URL'}
+        </button>
+      </form>
+      {shared?.copied && (
+        <p className="text-[10px] text-gray-500">Link copied ({(shared.link.length / 1000).toFixed(1)} kB)</p>
+      )}
+      {shared && !shared.copied && (
+        <input
+          type="text"
+          readOnly
+          value={shared.link}
+          onFocus={e => e.target.select()}
+          className="w-full text-xs bg-gray-700 text-gray-200 rounded px-2 py-1"
+        />
+      )}
+      {shared && shared.link.length > LONG_SHARE_LINK && (
+        <p className="text-[10px] text-yellow-400">
+          This link is long (mesh colliders?) and may get cut short in chats or mail; a saved scene file travels better.
+        </p>
+      )}
+      {shareError && <p className="text-xs text-red-400">{shareError}</p>}
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
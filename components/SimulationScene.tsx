@@ -1,33 +1,74 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Cloth } from './Cloth';
-import { SphereCollider } from './SphereCollider';
+import { ColliderMesh } from './ColliderMesh';
 import { SkeletonHand } from './SkeletonHand';
 import type { HandData } from './HandTracking';
+import type { SolverMethod, SolverStats } from '../simulation/ClothSolver';
+import type { Collider } from '../simulation/colliders';
+import type { WindSettings } from '../simulation/wind';
+import { ClothLayer, layerPosition } from '../simulation/layers';
+import type { ClothSimulation } from '../simulation/ClothSimulation';
+import type { ClothExportSource } from '../simulation/meshExport';
+import type { FrameCache } from '../simulation/frameCache';
+import type { InputPlayer, InputRecorder } from '../simulation/inputLog';
 
 interface SimulationSceneProps {
-  stiffness: number;
-  clothFriction: number;
-  sphereFriction: number;
+  layers: ClothLayer[]; // Innermost first
+  activeLayerId: string; // Takes hand pinches, pin edits and the stats readout
+  solverMethod: SolverMethod;
+  colliders: Collider[];
   resolution: number;
   clothSize: number;
-  sphereRadius: number;
+  dropHeight: number | null; // Null: in proportion to the cloth size
   leftHandRef: React.MutableRefObject<HandData>;
   rightHandRef: React.MutableRefObject<HandData>;
   showSkeletonHands: boolean;
+  offThread: boolean;
+  substeps: number;
+  selfCollision: boolean;
+  thickness: number;
+  wind: WindSettings;
+  sleep: boolean;
+  paused: boolean; // Cached frames are being played back instead
+  recorder: FrameCache | null;
+  inputs: InputRecorder | InputPlayer | null; // Input log being recorded or replayed
+  pinEditing: boolean;
+  onTogglePin: (vertex: number) => void;
+  statsRef: React.MutableRefObject<SolverStats | null>;
+  exportSources?: React.MutableRefObject<Map<string, ClothExportSource>>;
+  // A layer's cloth has come to rest (again)
+  onSettled?: (layerId: string, stats: SolverStats) => void;
 }
 
 export const SimulationScene: React.FC<SimulationSceneProps> = ({ 
-  stiffness, 
-  clothFriction, 
-  sphereFriction,
+  layers,
+  activeLayerId,
+  solverMethod,
+  colliders,
   resolution,
   clothSize,
-  sphereRadius,
+  dropHeight,
   leftHandRef,
   rightHandRef,
-  showSkeletonHands
+  showSkeletonHands,
+  offThread,
+  substeps,
+  selfCollision,
+  thickness,
+  wind,
+  sleep,
+  paused,
+  recorder,
+  inputs,
+  pinEditing,
+  onTogglePin,
+  statsRef,
+  exportSources,
+  onSettled
 }) => {
-  const spherePosition: [number, number, number] = [0, 0, 0];
+  // Each layer's cloth registers its simulation here, so the layers above
+  // can collide against its surface
+  const layerSimulations = useRef(new Map<string, ClothSimulation>());
 
   return (
     <>
@@ -35,29 +76,52 @@ export const SimulationScene: React.FC<SimulationSceneProps> = ({
       <SkeletonHand handDataRef={leftHandRef} showSkeleton={showSkeletonHands} />
       <SkeletonHand handDataRef={rightHandRef} showSkeleton={showSkeletonHands} />
       
-      <SphereCollider 
-        position={spherePosition} 
-        radius={sphereRadius} 
-        friction={sphereFriction}
-      />
+      {colliders.map(collider => (
+        <ColliderMesh key={collider.id} collider={collider} />
+      ))}
       {/* 
-        Key only depends on resolution. 
+        Key only depends on the layer and resolution. 
         Changing clothSize will update props but NOT remount, allowing dynamic resizing.
         Changing resolution still requires a remount to re-allocate buffers.
       */}
-      <Cloth 
-        key={`cloth-${resolution}`}
-        position={[0, clothSize * 0.8, 0]} 
-        resolution={resolution} 
-        clothSize={clothSize}
-        stiffness={stiffness}
-        clothFriction={clothFriction}
-        sphereFriction={sphereFriction}
-        spherePosition={spherePosition}
-        sphereRadius={sphereRadius}
-        leftHandRef={leftHandRef}
-        rightHandRef={rightHandRef}
-      />
+      {layers.map((layer, index) => {
+        const active = layer.id === activeLayerId;
+        return (
+          <Cloth 
+            key={`cloth-${layer.id}-${resolution}`}
+            layerId={layer.id}
+            color={layer.color}
+            roughness={layer.roughness}
+            sheen={layer.sheen}
+            position={layerPosition(layer, clothSize, dropHeight)} 
+            resolution={resolution} 
+            clothSize={clothSize}
+            material={layer.material}
+            solverMethod={solverMethod}
+            colliders={colliders}
+            leftHandRef={active ? leftHandRef : undefined}
+            rightHandRef={active ? rightHandRef : undefined}
+            offThread={offThread}
+            substeps={substeps}
+            selfCollision={selfCollision}
+            thickness={thickness}
+            wind={wind}
+            sleep={sleep}
+            paused={paused}
+            recorder={recorder}
+            inputs={inputs}
+            garment={layer.garment}
+            pins={layer.pins}
+            pinEditing={active && pinEditing}
+            onTogglePin={active ? onTogglePin : undefined}
+            layersBelow={layers.slice(0, index)}
+            layerSimulations={layerSimulations}
+            exportSources={exportSources}
+            statsRef={active ? statsRef : undefined}
+            onSettled={onSettled && (stats => onSettled(layer.id, stats))}
+          />
+        );
+      })}
     </>
   );
 };
\ No newline at end of file
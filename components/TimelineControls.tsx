@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  FRAME_CACHE_ACCEPT,
+  FrameCache,
+  PlaybackState,
+  frameCacheToBuffer,
+  loadFrameCache
+} from '../simulation/frameCache';
+import { download } from './DrapeTestControls';
+
+interface TimelineControlsProps {
+  cache: FrameCache | null;
+  recording: boolean;
+  setRecording: (val: boolean) => void;
+  // Showing cached frames instead of the live simulation
+  viewing: boolean;
+  setViewing: (val: boolean) => void;
+  playbackRef: React.MutableRefObject<PlaybackState>;
+  onLoadCache: (cache: FrameCache) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+
+const buttonClass = 'text-xs px-2 py-1 bg-white/10 hover:bg-white/20 border border-white/10 rounded disabled:opacity-50';
+
+// Record, scrub and play back the frame cache; bottom of the screen
+export const TimelineControls: React.FC<TimelineControlsProps> = ({
+  cache,
+  recording,
+  setRecording,
+  viewing,
+  setViewing,
+  playbackRef,
+  onLoadCache
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Mirrors of the cache and playback state, refreshed every animation frame
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!recording && !viewing) return;
+    let rafId = 0;
+    const loop = () => {
+      // The cache stops taking frames when its budget is spent
+      if (recording && cache?.full) setRecording(false);
+      setTick(tick => tick + 1);
+      rafId = requestAnimationFrame(loop);
+    };
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [recording, viewing, cache, setRecording]);
+
+  const playback = playbackRef.current;
+  const duration = cache?.duration ?? 0;
+  const hasFrames = !!cache && cache.frames.length > 0;
+
+  const startViewing = () => {
+    Object.assign(playbackRef.current, { time: 0, playing: true });
+    setViewing(true);
+  };
+
+  const togglePlaying = () => {
+    if (!playback.playing && playback.time >= duration) playback.time = 0;
+    playback.playing = !playback.playing;
+    setTick(tick => tick + 1);
+  };
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLoadError(null);
+    try {
+      onLoadCache(await loadFrameCache(file));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed left-1/2 bottom-4 -translate-x-1/2 z-40 w-[36rem] max-w-[90vw] bg-black/60 backdrop-blur-md px-4 py-2 rounded-xl border border-white/10 text-white space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={viewing}
+          onClick={() => setRecording(!recording)}
+          className={`${buttonClass} ${recording ? 'text-red-400' : ''}`}
+        >
+          {recording ? '■ Stop' : '● Record'}
+        </button>
+
+        {viewing ? (
+          <>
+            <button type="button" onClick={togglePlaying} className={buttonClass}>
+              {playback.playing ? '❚❚ Pause' : '▶ Play'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                playback.loop = !playback.loop;
+                setTick(tick => tick + 1);
+              }}
+              className={`${buttonClass} ${playback.loop ? 'text-purple-300' : ''}`}
+            >
+              ⟳ Loop
+            </button>
+            <button type="button" onClick={() => setViewing(false)} className={buttonClass}>
+              Back to Live
+            </button>
+          </>
+        ) : (
+          <button type="button" disabled={recording || !hasFrames} onClick={startViewing} className={buttonClass}>
+            ▶ Play Back
+          </button>
+        )}
+
+        <span className="flex-1 text-right font-mono text-xs text-gray-400">
+          {cache
+            ? `${viewing ? `${formatTime(playback.time)} / ` : ''}${formatTime(duration)} · ${cache.frames.length} frames · ${(cache.bytes / 1048576).toFixed(1)} MB`
+            : 'No recording'}
+        </span>
+      </div>
+
+      {viewing && (
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1 / 60}
+          value={playback.time}
+          onChange={e => {
+            // Scrubbing pauses playback
+            playback.time = parseFloat(e.target.value);
+            playback.playing = false;
+            setTick(tick => tick + 1);
+          }}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+        />
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={recording || !hasFrames}
+          onClick={() => download('drape.clothcache', frameCacheToBuffer(cache!), 'application/octet-stream')}
+          className={buttonClass}
+        >
+          Export Cache
+        </button>
+        <button type="button" disabled={recording} onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          Load Cache…
+        </button>
+        <input ref={fileInputRef} type="file" accept={FRAME_CACHE_ACCEPT} onChange={loadFile} className="hidden" />
+        {recording && cache?.full === false && <span className="text-xs text-red-400">Recording…</span>}
+        {!recording && cache?.full && cache.maxBytes !== Infinity && (
+          <span className="text-xs text-yellow-400">Cache full, recording stopped</span>
+        )}
+        {loadError && <span className="text-xs text-red-400">{loadError}</span>}
+      </div>
+    </div>
+  );
+};
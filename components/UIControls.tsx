@@ -1,38 +1,231 @@
 import React from 'react';
+import { supportsWorkerSimulation } from '../simulation/ClothSimulation';
+import type { FabricMaterial } from '../simulation/FabricMaterial';
+import type { SolverMethod } from '../simulation/ClothSolver';
+import type { Collider } from '../simulation/colliders';
+import type { WindSettings } from '../simulation/wind';
+import type { PinSet } from '../simulation/pins';
+import type { Garment } from '../simulation/pattern';
+import type { ClothLayer } from '../simulation/layers';
+import type { Scene } from '../simulation/sceneFile';
+import type { ExportMesh } from '../simulation/meshExport';
+import type { InputLog, InputPlayer, InputRecorder } from '../simulation/inputLog';
+import type { FabricPreset } from '../simulation/fabricLibrary';
+import { ColliderControls } from './ColliderControls';
+import { PinControls } from './PinControls';
+import { GarmentControls } from './GarmentControls';
+import { LayerControls } from './LayerControls';
+import { DrapeTestControls } from './DrapeTestControls';
+import { CantileverTestControls } from './CantileverTestControls';
+import { MaterialFileControls } from './MaterialFileControls';
+import { SceneControls } from './SceneControls';
+import { ExportControls } from './ExportControls';
+import { InputReplayControls } from './InputReplayControls';
+import { FabricLibraryControls } from './FabricLibraryControls';
 
 interface UIControlsProps {
-  stiffness: number;
-  setStiffness: (val: number) => void;
+  layers: ClothLayer[];
+  setLayers: (val: ClothLayer[]) => void;
+  activeLayerId: string;
+  setActiveLayerId: (val: string) => void;
+  material: FabricMaterial;
+  setMaterial: (val: FabricMaterial) => void;
+  solverMethod: SolverMethod;
+  setSolverMethod: (val: SolverMethod) => void;
   resolution: number;
   setResolution: (val: number) => void;
   clothSize: number;
   setClothSize: (val: number) => void;
-  sphereRadius: number;
-  setSphereRadius: (val: number) => void;
+  colliders: Collider[];
+  setColliders: (val: Collider[]) => void;
    showSkeletonHands: boolean;
    setShowSkeletonHands: (val: boolean) => void;
+  offThread: boolean;
+  setOffThread: (val: boolean) => void;
+  substeps: number;
+  setSubsteps: (val: number) => void;
+  selfCollision: boolean;
+  setSelfCollision: (val: boolean) => void;
+  sleep: boolean;
+  setSleep: (val: boolean) => void;
+  thickness: number;
+  setThickness: (val: number) => void;
+  wind: WindSettings;
+  setWind: (val: WindSettings) => void;
+  garment: Garment | null;
+  setGarment: (val: Garment | null) => void;
+  pins: PinSet[];
+  setPins: (val: PinSet[]) => void;
+  pinEditing: boolean;
+  setPinEditing: (val: boolean) => void;
+  sceneName: string;
+  getScene: () => Scene;
+  getShareLink: () => Promise<string>;
+  onLoadScene: (scene: Scene) => void;
+  getExportMeshes: (includeColliders: boolean) => ExportMesh[];
+  inputs: InputRecorder | InputPlayer | null;
+  onRecordInputs: () => void;
+  onReplayInputs: (log: InputLog) => void;
+  onStopInputs: () => void;
+  getFinalPositions: () => Record<string, Float32Array>;
+  fabricLibrary: FabricPreset[];
+  onApplyFabric: (fabric: FabricPreset) => void;
+  onImportFabrics: (fabrics: FabricPreset[]) => void;
   onReset: () => void;
 }
 
+interface MaterialSliderProps {
+  id: string;
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (val: number) => void;
+  hints?: string[];
+}
+
+const MaterialSlider: React.FC<MaterialSliderProps> = ({ id, label, value, display, min, max, step, onChange, hints }) => (
+  <div>
+    <div className="flex justify-between items-center mb-2">
+      <label htmlFor={id} className="text-sm font-medium text-gray-200">
+        {label}
+      </label>
+      <span className="text-xs font-mono bg-white/10 px-2 py-0.5 rounded text-gray-300">
+        {display}
+      </span>
+    </div>
+    <input
+      id={id}
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+    />
+    {hints && (
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1 uppercase tracking-wide">
+        {hints.map(hint => <span key={hint}>{hint}</span>)}
+      </div>
+    )}
+  </div>
+);
+
 export const UIControls: React.FC<UIControlsProps> = ({ 
-  stiffness, 
-  setStiffness, 
+  layers,
+  setLayers,
+  activeLayerId,
+  setActiveLayerId,
+  material, 
+  setMaterial, 
+  solverMethod,
+  setSolverMethod,
   resolution,
   setResolution,
   clothSize,
   setClothSize,
-  sphereRadius,
-  setSphereRadius,
+  colliders,
+  setColliders,
   showSkeletonHands,
   setShowSkeletonHands,
+  offThread,
+  setOffThread,
+  substeps,
+  setSubsteps,
+  selfCollision,
+  setSelfCollision,
+  sleep,
+  setSleep,
+  thickness,
+  setThickness,
+  wind,
+  setWind,
+  garment,
+  setGarment,
+  pins,
+  setPins,
+  pinEditing,
+  setPinEditing,
+  sceneName,
+  getScene,
+  getShareLink,
+  onLoadScene,
+  getExportMeshes,
+  inputs,
+  onRecordInputs,
+  onReplayInputs,
+  onStopInputs,
+  getFinalPositions,
+  fabricLibrary,
+  onApplyFabric,
+  onImportFabrics,
   onReset 
 }) => {
+  const workerSupported = supportsWorkerSimulation();
+
+  const updateMaterial = (key: keyof FabricMaterial, val: number) => {
+    setMaterial({ ...material, [key]: val });
+  };
+
+  const updateWind = (key: keyof WindSettings, val: number) => {
+    setWind({ ...wind, [key]: val });
+  };
+
   return (
     <div className="absolute top-6 left-6 z-10 w-80 bg-black/60 backdrop-blur-md p-6 rounded-2xl border border-white/10 text-white shadow-xl max-h-[90vh] overflow-y-auto scrollbar-hide">
       <h1 className="text-xl font-bold mb-1 bg-gradient-to-r from-pink-500 to-purple-500 bg-clip-text text-transparent">
         Fabric Drape Simulation
       </h1>
-      <p className="text-xs text-gray-400 mb-6">Verlet Integration Physics</p>
+      <p className="text-xs text-gray-400 mb-6">
+        {solverMethod === 'xpbd' ? 'XPBD Compliance Physics' : 'Verlet Integration Physics'}
+      </p>
+
+      {/* Scene Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Scene
+        </h2>
+        <SceneControls sceneName={sceneName} getScene={getScene} getShareLink={getShareLink} onLoadScene={onLoadScene} />
+      </div>
+
+      {/* Export Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Export
+        </h2>
+        <ExportControls fileName={`${sceneName}-drape`} getMeshes={getExportMeshes} />
+      </div>
+
+      {/* Input Replay Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Input Replay
+        </h2>
+        <InputReplayControls
+          fileName={`${sceneName}-inputs`}
+          inputs={inputs}
+          onRecord={onRecordInputs}
+          onReplay={onReplayInputs}
+          onStop={onStopInputs}
+          getFinalPositions={getFinalPositions}
+        />
+      </div>
+
+      {/* Layers Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Layers
+        </h2>
+        <LayerControls
+          layers={layers}
+          setLayers={setLayers}
+          activeLayerId={activeLayerId}
+          setActiveLayerId={setActiveLayerId}
+        />
+      </div>
 
       {/* Material Properties Section */}
       <div className="mb-6 space-y-6">
@@ -40,38 +233,135 @@ export const UIControls: React.FC<UIControlsProps> = ({
           Material Properties
         </h2>
 
-        {/* GSM (Stiffness) Control */}
-        <div>
-          <div className="flex justify-between items-center mb-2">
-            <label htmlFor="stiffness" className="text-sm font-medium text-gray-200">
-              GSM
-            </label>
-            <span className="text-xs font-mono bg-white/10 px-2 py-0.5 rounded text-gray-300">
-              {(() => {
-                const maxStiffForGsm = 0.7;
-                const clamped = Math.min(stiffness, maxStiffForGsm);
-                const gsm = Math.round(100 + (clamped / maxStiffForGsm) * 700);
-                return `${gsm} gsm`;
-              })()}
-            </span>
-          </div>
-          <input
-            id="stiffness"
-            type="range"
-            min="0"
-            max="0.7"
-            step="0.01"
-            value={stiffness}
-            onChange={(e) => setStiffness(parseFloat(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
-          />
-          <div className="flex justify-between text-[10px] text-gray-500 mt-1 uppercase tracking-wide">
-            <span>Light</span>
-            <span>Heavy</span>
-          </div>
-        </div>
+        <FabricLibraryControls
+          library={fabricLibrary}
+          material={material}
+          fabricId={layers.find(layer => layer.id === activeLayerId)?.fabricId ?? null}
+          onApply={onApplyFabric}
+          onImport={onImportFabrics}
+        />
+
+        <MaterialFileControls
+          material={material}
+          setMaterial={setMaterial}
+          layerName={layers.find(layer => layer.id === activeLayerId)?.name ?? 'Fabric'}
+        />
 
+        <MaterialSlider
+          id="gsm"
+          label="GSM"
+          value={material.gsm}
+          display={`${material.gsm} gsm`}
+          min={60}
+          max={800}
+          step={10}
+          onChange={(val) => updateMaterial('gsm', val)}
+          hints={['Light', 'Heavy']}
+        />
 
+        <MaterialSlider
+          id="bendingRigidity"
+          label="Bending Rigidity"
+          value={material.bendingRigidity}
+          display={material.bendingRigidity.toFixed(2)}
+          min={0}
+          max={1}
+          step={0.01}
+          onChange={(val) => updateMaterial('bendingRigidity', val)}
+          hints={['Fluid', 'Structured']}
+        />
+
+        <MaterialSlider
+          id="flexuralRigidity"
+          label="Flexural Rigidity"
+          value={material.flexuralRigidity}
+          display={`${material.flexuralRigidity} µN·m`}
+          min={0}
+          max={500}
+          step={1}
+          onChange={(val) => updateMaterial('flexuralRigidity', val)}
+          hints={['Silk', 'Denim']}
+        />
+
+        <MaterialSlider
+          id="warpStiffness"
+          label="Warp Stretch Stiffness"
+          value={material.warpStiffness}
+          display={material.warpStiffness.toFixed(2)}
+          min={0.05}
+          max={1}
+          step={0.01}
+          onChange={(val) => updateMaterial('warpStiffness', val)}
+        />
+
+        <MaterialSlider
+          id="weftStiffness"
+          label="Weft Stretch Stiffness"
+          value={material.weftStiffness}
+          display={material.weftStiffness.toFixed(2)}
+          min={0.05}
+          max={1}
+          step={0.01}
+          onChange={(val) => updateMaterial('weftStiffness', val)}
+        />
+
+        <MaterialSlider
+          id="shearStiffness"
+          label="Shear Stiffness"
+          value={material.shearStiffness}
+          display={material.shearStiffness.toFixed(2)}
+          min={0.05}
+          max={1}
+          step={0.01}
+          onChange={(val) => updateMaterial('shearStiffness', val)}
+        />
+
+        <MaterialSlider
+          id="grainAngle"
+          label="Grain Angle"
+          value={material.grainAngle}
+          display={`${material.grainAngle}°`}
+          min={0}
+          max={90}
+          step={5}
+          onChange={(val) => updateMaterial('grainAngle', val)}
+          hints={['Straight', 'Bias (45°)', 'Cross']}
+        />
+
+        <MaterialSlider
+          id="staticFriction"
+          label="Static Friction"
+          value={material.staticFriction}
+          display={material.staticFriction.toFixed(2)}
+          min={0}
+          max={1.5}
+          step={0.05}
+          onChange={(val) => updateMaterial('staticFriction', val)}
+          hints={['Slippery', 'Grippy']}
+        />
+
+        <MaterialSlider
+          id="kineticFriction"
+          label="Kinetic Friction"
+          value={material.kineticFriction}
+          display={material.kineticFriction.toFixed(2)}
+          min={0}
+          max={1.5}
+          step={0.05}
+          onChange={(val) => updateMaterial('kineticFriction', val)}
+        />
+
+        <MaterialSlider
+          id="tearStrain"
+          label="Tear Strength"
+          value={material.tearStrain}
+          display={material.tearStrain > 0 ? `${Math.round(material.tearStrain * 100)}% stretch` : 'Untearable'}
+          min={0}
+          max={3}
+          step={0.05}
+          onChange={(val) => updateMaterial('tearStrain', val)}
+          hints={['Off', 'Strong']}
+        />
       </div>
 
       {/* Geometry Settings Section */}
@@ -123,28 +413,246 @@ export const UIControls: React.FC<UIControlsProps> = ({
             className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
           />
         </div>
+      </div>
+
+      {/* Garment Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Garment
+        </h2>
+        <GarmentControls garment={garment} setGarment={setGarment} />
+      </div>
+
+      {/* Colliders Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Colliders
+        </h2>
+        <ColliderControls colliders={colliders} setColliders={setColliders} />
+      </div>
+
+      {/* Pins Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Pins
+        </h2>
+        <PinControls
+          pins={pins}
+          setPins={setPins}
+          colliders={colliders}
+          cols={garment ? null : resolution + 1}
+          pinEditing={pinEditing}
+          setPinEditing={setPinEditing}
+        />
+      </div>
+
+      {/* Wind Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Wind
+        </h2>
+
+        {/* Wind Toggle */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">Wind &amp; Air Drag</span>
+          <button
+            type="button"
+            onClick={() => setWind({ ...wind, enabled: !wind.enabled })}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              wind.enabled ? 'bg-purple-500' : 'bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+                wind.enabled ? 'translate-x-4' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {wind.enabled && (
+          <>
+            <MaterialSlider
+              id="windSpeed"
+              label="Speed"
+              value={wind.speed}
+              display={`${wind.speed.toFixed(1)} m/s`}
+              min={0}
+              max={20}
+              step={0.5}
+              onChange={(val) => updateWind('speed', val)}
+              hints={['Still', 'Gale']}
+            />
+            <MaterialSlider
+              id="windDirection"
+              label="Direction"
+              value={wind.direction}
+              display={`${Math.round(wind.direction)}°`}
+              min={0}
+              max={360}
+              step={5}
+              onChange={(val) => updateWind('direction', val)}
+            />
+            <MaterialSlider
+              id="windTurbulence"
+              label="Turbulence"
+              value={wind.turbulence}
+              display={`${Math.round(wind.turbulence * 100)}%`}
+              min={0}
+              max={1}
+              step={0.05}
+              onChange={(val) => updateWind('turbulence', val)}
+              hints={['Steady', 'Gusty']}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Drape Test Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Drape Test
+        </h2>
+        <DrapeTestControls material={material} solverMethod={solverMethod} />
+      </div>
+
+      {/* Bending Test Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Bending Test
+        </h2>
+        <CantileverTestControls material={material} setMaterial={setMaterial} solverMethod={solverMethod} />
+      </div>
+
+      {/* Performance Section */}
+      <div className="mb-6 space-y-3">
+        <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider border-b border-white/10 pb-1">
+          Performance
+        </h2>
+
+        {/* Solver Method Toggle */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">XPBD Solver</span>
+          <button
+            type="button"
+            onClick={() => setSolverMethod(solverMethod === 'xpbd' ? 'pbd' : 'xpbd')}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              solverMethod === 'xpbd' ? 'bg-purple-500' : 'bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+                solverMethod === 'xpbd' ? 'translate-x-4' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
 
-        {/* Sphere Radius Control */}
+        {/* Worker Thread Toggle */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">Worker Thread</span>
+          <button
+            type="button"
+            disabled={!workerSupported}
+            onClick={() => setOffThread(!offThread)}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 disabled:opacity-40 ${
+              offThread ? 'bg-purple-500' : 'bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+                offThread ? 'translate-x-4' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+        {!workerSupported && (
+          <p className="text-[10px] text-gray-500">
+            SharedArrayBuffer unavailable (page is not cross-origin isolated); simulating on the main thread.
+          </p>
+        )}
+
+        {/* Substeps Control */}
         <div>
           <div className="flex justify-between items-center mb-2">
-            <label htmlFor="sphereRadius" className="text-sm font-medium text-gray-200">
-              Sphere Radius
+            <label htmlFor="substeps" className="text-sm font-medium text-gray-200">
+              Substeps
             </label>
             <span className="text-xs font-mono bg-white/10 px-2 py-0.5 rounded text-gray-300">
-              {sphereRadius}m
+              {substeps}x
             </span>
           </div>
           <input
-            id="sphereRadius"
+            id="substeps"
             type="range"
-            min="0.5"
-            max="3"
-            step="0.1"
-            value={sphereRadius}
-            onChange={(e) => setSphereRadius(parseFloat(e.target.value))}
-            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+            min="1"
+            max="4"
+            step="1"
+            value={substeps}
+            onChange={(e) => setSubsteps(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
           />
         </div>
+
+        {/* Sleep Toggle */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">Sleep When Settled</span>
+          <button
+            type="button"
+            onClick={() => setSleep(!sleep)}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              sleep ? 'bg-purple-500' : 'bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+                sleep ? 'translate-x-4' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {/* Self-Collision Toggle */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">Self-Collision</span>
+          <button
+            type="button"
+            onClick={() => setSelfCollision(!selfCollision)}
+            className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors duration-200 ${
+              selfCollision ? 'bg-purple-500' : 'bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white shadow transition-transform duration-200 ${
+                selfCollision ? 'translate-x-4' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {/* Thickness Control (also the gap kept between layers) */}
+        {(selfCollision || layers.length > 1) && (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label htmlFor="thickness" className="text-sm font-medium text-gray-200">
+                Thickness
+              </label>
+              <span className="text-xs font-mono bg-white/10 px-2 py-0.5 rounded text-gray-300">
+                {Math.round(thickness * 100)}cm
+              </span>
+            </div>
+            <input
+              id="thickness"
+              type="range"
+              min="0.02"
+              max="0.3"
+              step="0.01"
+              value={thickness}
+              onChange={(e) => setThickness(parseFloat(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-orange-500 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+            />
+          </div>
+        )}
       </div>
 
       {/* Visualization Section */}
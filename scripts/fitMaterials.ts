@@ -0,0 +1,75 @@
+// Fits fabric materials to lab measurements and writes one material file per
+// fabric, ready to load into a layer from the app's Material Properties:
+//
+//   npm run fit-materials -- lab.csv [--out materials] [--method pbd|xpbd] [--base base.json]
+//
+// See parseLabData (simulation/materialFit.ts) for the lab data format.
+// --base takes the parameters that are not fitted (stretch, friction...)
+// from a material file instead of the defaults.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { SolverMethod } from '../simulation/ClothSolver';
+import { DEFAULT_FABRIC } from '../simulation/FabricMaterial';
+import { materialToJson, parseMaterialFile } from '../simulation/materialFile';
+import { fitMaterial, parseLabData } from '../simulation/materialFit';
+
+const USAGE = 'Usage: npm run fit-materials -- <lab.csv|lab.json> [--out dir] [--method pbd|xpbd] [--base material.json]';
+
+// File name for a fabric: lower case, runs of anything else become a dash
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'fabric';
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'materials' },
+      method: { type: 'string', default: 'pbd' },
+      base: { type: 'string' }
+    }
+  });
+  if (positionals.length !== 1) throw new Error(USAGE);
+  if (values.method !== 'pbd' && values.method !== 'xpbd') throw new Error(`Unknown solver method: ${values.method}`);
+  const method: SolverMethod = values.method;
+
+  const labFile = positionals[0];
+  const measurements = parseLabData(fs.readFileSync(labFile, 'utf8'), path.basename(labFile));
+  const base = values.base
+    ? parseMaterialFile(fs.readFileSync(values.base, 'utf8'), path.basename(values.base)).material
+    : DEFAULT_FABRIC;
+  fs.mkdirSync(values.out, { recursive: true });
+
+  let unmatched = 0;
+  measurements.forEach((measurement, i) => {
+    console.log(`[${i + 1}/${measurements.length}] ${measurement.name}`);
+    const start = Date.now();
+    const { material, calibration, matched } = fitMaterial(measurement, base, {
+      method,
+      onTrial: message => console.log(`  ${message}`)
+    });
+
+    const { simulated } = calibration;
+    const report = [
+      simulated.drapeCoefficient !== undefined &&
+        `drape ${(simulated.drapeCoefficient * 100).toFixed(1)}% (measured ${(measurement.drapeCoefficient! * 100).toFixed(1)}%)`,
+      simulated.bendingLength !== undefined &&
+        `bending length ${(simulated.bendingLength * 100).toFixed(2)} cm (measured ${(measurement.bendingLength! * 100).toFixed(2)} cm)`
+    ].filter(Boolean);
+    const file = path.join(values.out, `${slug(measurement.name)}.json`);
+    fs.writeFileSync(file, materialToJson(measurement.name, material, calibration));
+    console.log(`  ${matched ? 'matched' : 'NOT MATCHED'}: ${report.join(', ') || 'GSM only'} → ${file} (${((Date.now() - start) / 1000).toFixed(1)} s)`);
+    if (!matched) unmatched++;
+  });
+
+  if (unmatched > 0) {
+    console.log(`${unmatched} of ${measurements.length} fabrics could not be matched; their files hold the closest fit found.`);
+  }
+};
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,225 @@
+// Runs the cloth solver over scene or material files without the browser and
+// reports settle time, drape metrics and per-phase timings:
+//
+//   npm run simulate -- scene.json [material.json...] [--steps N] [--max-time s]
+//     [--resolution 10,20,40] [--substeps n] [--method pbd|xpbd] [--scene base.json]
+//     [--mesh drape.glb] [--csv report.csv]
+//
+// A scene file runs as saved from the app. A material file is put on every
+// layer of the --scene file (the default scene without one), so a folder of
+// fitted materials makes a sweep. Every file runs once per --resolution.
+// Without --steps a run lasts until every layer has settled or --max-time
+// simulated seconds have passed. --mesh writes each run's final cloth
+// (.glb, .gltf, .obj or .ply; several runs get the file and resolution
+// appended to the name) and --csv one row per layer and run.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { MATERIAL_FILE_FORMAT, parseMaterialFile } from '../simulation/materialFile';
+import { EXPORT_FORMAT_LABELS, ExportFormat, clothExportMesh, exportMeshes } from '../simulation/meshExport';
+import { SETTING_RANGES, Scene, createDefaultScene, parseSceneFile } from '../simulation/sceneFile';
+import { DEFAULT_SCENE_RUN, SceneRunResult, runScene } from '../simulation/sceneRun';
+
+const USAGE =
+  'Usage: npm run simulate -- <scene.json|material.json>... [--steps N] [--max-time s] [--resolution 10,20,40] ' +
+  '[--substeps n] [--method pbd|xpbd] [--scene base.json] [--mesh drape.glb] [--csv report.csv]';
+
+const CSV_HEADER = [
+  'file',
+  'scene',
+  'layer',
+  'method',
+  'resolution',
+  'substeps',
+  'particles',
+  'triangles',
+  'steps',
+  'simulated_s',
+  'settled_s',
+  'coverage_pct',
+  'shadow_area_m2',
+  'min_height_m',
+  'max_height_m',
+  'mean_height_m',
+  'width_m',
+  'depth_m',
+  'step_ms',
+  'constraints_ms',
+  'collisions_ms',
+  'self_collision_ms',
+  'setup_ms',
+  'run_ms'
+];
+
+const readNumber = (value: string | undefined, option: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) throw new Error(`--${option} needs a positive number, not "${value}"`);
+  return number;
+};
+
+// Overrides are held to the ranges a scene file is
+const readSetting = (value: string | undefined, option: 'resolution' | 'substeps') => {
+  const number = readNumber(value, option);
+  if (number === undefined) return undefined;
+  const [min, max] = SETTING_RANGES[option];
+  const rounded = Math.round(number);
+  if (rounded < min || rounded > max) throw new Error(`--${option} must be between ${min} and ${max}, not "${value}"`);
+  return rounded;
+};
+
+// A scene as saved, or a material dropped onto every layer of the base scene
+const readInput = (file: string, base: Scene): Scene => {
+  const text = fs.readFileSync(file, 'utf8');
+  const name = path.basename(file);
+  let format: unknown;
+  try {
+    format = JSON.parse(text)?.format;
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  if (format !== MATERIAL_FILE_FORMAT) return parseSceneFile(text, name);
+  const { material } = parseMaterialFile(text, name);
+  return {
+    ...base,
+    name: `${base.name} (${path.basename(file, path.extname(file))})`,
+    layers: base.layers.map(layer => ({ ...layer, material }))
+  };
+};
+
+const formatSettled = (seconds: number | null) => (seconds === null ? 'not settled' : `settled at ${seconds.toFixed(2)} s`);
+
+const report = (label: string, scene: Scene, result: SceneRunResult) => {
+  const { settings } = scene;
+  const realTime = result.runMs > 0 ? (result.time * 1000) / result.runMs : Infinity;
+  console.log(
+    `${label}: ${settings.solverMethod}, resolution ${settings.resolution}, ${settings.substeps} substep(s), ` +
+      `${result.steps} steps (${result.time.toFixed(2)} s) in ${(result.runMs / 1000).toFixed(2)} s, ${realTime.toFixed(1)}x real time`
+  );
+  console.log(`  ${formatSettled(result.settledAt)}; setup ${result.setupMs.toFixed(0)} ms`);
+  result.layers.forEach(layer => {
+    const { metrics, timings } = layer;
+    console.log(
+      `  ${layer.name}: ${layer.particles} particles, ${formatSettled(layer.settledAt)}, ` +
+        `coverage ${(metrics.coverage * 100).toFixed(1)}% (${metrics.shadowArea.toFixed(3)} of ${metrics.flatArea.toFixed(3)} m²), ` +
+        `height ${metrics.minHeight.toFixed(3)}–${metrics.maxHeight.toFixed(3)} m (mean ${metrics.meanHeight.toFixed(3)}), ` +
+        `${metrics.width.toFixed(3)} × ${metrics.depth.toFixed(3)} m`
+    );
+    console.log(
+      `    per step: ${timings.step.toFixed(3)} ms (constraints ${timings.constraints.toFixed(3)}, ` +
+        `collisions ${timings.collisions.toFixed(3)}, self-collision ${timings.selfCollision.toFixed(3)})`
+    );
+  });
+};
+
+const csvRows = (file: string, scene: Scene, result: SceneRunResult) =>
+  result.layers.map(layer => {
+    const { metrics, timings } = layer;
+    const { settings } = scene;
+    return [
+      file,
+      scene.name,
+      layer.name,
+      settings.solverMethod,
+      settings.resolution,
+      settings.substeps,
+      layer.particles,
+      layer.triangles,
+      result.steps,
+      result.time.toFixed(3),
+      layer.settledAt?.toFixed(3) ?? '',
+      (metrics.coverage * 100).toFixed(2),
+      metrics.shadowArea.toFixed(4),
+      metrics.minHeight.toFixed(4),
+      metrics.maxHeight.toFixed(4),
+      metrics.meanHeight.toFixed(4),
+      metrics.width.toFixed(4),
+      metrics.depth.toFixed(4),
+      timings.step.toFixed(4),
+      timings.constraints.toFixed(4),
+      timings.collisions.toFixed(4),
+      timings.selfCollision.toFixed(4),
+      result.setupMs.toFixed(1),
+      result.runMs.toFixed(1)
+    ]
+      // Names may hold commas or quotes
+      .map(value => (typeof value === 'string' && /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+      .join(',');
+  });
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      steps: { type: 'string' },
+      'max-time': { type: 'string' },
+      resolution: { type: 'string' },
+      substeps: { type: 'string' },
+      method: { type: 'string' },
+      scene: { type: 'string' },
+      mesh: { type: 'string' },
+      csv: { type: 'string' }
+    }
+  });
+  if (positionals.length === 0) throw new Error(USAGE);
+  if (values.method !== undefined && values.method !== 'pbd' && values.method !== 'xpbd') {
+    throw new Error(`Unknown solver method: ${values.method}`);
+  }
+  const steps = readNumber(values.steps, 'steps');
+  const maxTime = readNumber(values['max-time'], 'max-time') ?? DEFAULT_SCENE_RUN.maxTime;
+  const substeps = readSetting(values.substeps, 'substeps');
+  const resolutions = values.resolution?.split(',').map(value => readSetting(value.trim(), 'resolution')!) ?? [null];
+  let meshFormat: ExportFormat | null = null;
+  if (values.mesh) {
+    const extension = path.extname(values.mesh).slice(1).toLowerCase();
+    if (!(extension in EXPORT_FORMAT_LABELS)) throw new Error(`--mesh must end in .glb, .gltf, .obj or .ply`);
+    meshFormat = extension as ExportFormat;
+  }
+  const base = values.scene
+    ? parseSceneFile(fs.readFileSync(values.scene, 'utf8'), path.basename(values.scene))
+    : createDefaultScene();
+
+  const runs = positionals.length * resolutions.length;
+  const rows: string[] = [];
+  positionals.forEach(file => {
+    const input = readInput(file, base);
+    resolutions.forEach(resolution => {
+      const scene: Scene = {
+        ...input,
+        settings: {
+          ...input.settings,
+          ...(resolution !== null && { resolution }),
+          ...(substeps !== undefined && { substeps }),
+          ...(values.method !== undefined && { solverMethod: values.method as Scene['settings']['solverMethod'] })
+        }
+      };
+      const result = runScene(scene, { steps: steps === undefined ? null : Math.round(steps), maxTime });
+      report(path.basename(file), scene, result);
+      rows.push(...csvRows(file, scene, result));
+
+      if (values.mesh && meshFormat) {
+        const meshes = result.layers.map(layer => clothExportMesh(layer.name, layer.color, layer.source));
+        const exported = exportMeshes(meshes, meshFormat);
+        const { dir, name, ext } = path.parse(values.mesh);
+        const suffix = runs > 1 ? `-${path.basename(file, path.extname(file))}-r${scene.settings.resolution}` : '';
+        const out = path.join(dir, `${name}${suffix}${ext}`);
+        fs.mkdirSync(dir || '.', { recursive: true });
+        fs.writeFileSync(out, typeof exported.data === 'string' ? exported.data : Buffer.from(exported.data));
+        console.log(`  mesh → ${out}`);
+      }
+    });
+  });
+
+  if (values.csv) {
+    fs.writeFileSync(values.csv, `${CSV_HEADER.join(',')}\n${rows.join('\n')}\n`);
+    console.log(`${rows.length} row(s) → ${values.csv}`);
+  }
+};
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,314 @@
+import { ClothSolver, ConstraintGroup, EMPTY_SOLVER_STATS, SolverSettings, SolverStats } from './ClothSolver';
+import { computeVertexNormals } from './clothNormals';
+import { FixedTimestep, TimestepSettings, interpolatePositions } from './FixedTimestep';
+import type { PinList, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Everything needed to build a solver for one cloth
+export interface ClothSetup {
+  positions: Float32Array;
+  indices: Uint32Array;
+  vertexAreas: Float32Array;
+  constraints: ConstraintGroup[];
+  // Particle slots to reserve for tearing (defaults to the initial count)
+  capacity?: number;
+}
+
+// Handle used by the renderer. Hides whether the solver runs in this thread
+// or in a worker, and owns the fixed-timestep clock that drives it.
+export interface ClothSimulation {
+  readonly offThread: boolean;
+  // Active particles and current triangles. Tearing grows the former and
+  // rewrites the latter; topologyVersion changes whenever it does.
+  readonly count: number;
+  readonly indices: Uint32Array;
+  // Initial particle each particle was split from, for texture coordinates
+  readonly origins: Uint32Array;
+  readonly topologyVersion: number;
+  // Latest solver state (capacity * 3 floats), and the state one fixed step earlier
+  readonly positions: Float32Array;
+  readonly previousPositions: Float32Array;
+  readonly normals: Float32Array;
+  // Positions as the solver publishes them, for the layers above to collide
+  // against. A worker's are a view on its shared buffer, so another worker
+  // can read them without copies.
+  readonly surfacePositions: Float32Array;
+  // Phase timings and motion of the most recent solver step
+  readonly stats: SolverStats;
+  configure(settings: Partial<SolverSettings>): void;
+  setTimestep(settings: Partial<TimestepSettings>): void;
+  setPin(index: number, x: number, y: number, z: number): void;
+  releasePin(index: number): void;
+  // Feeds real frame time in; returns true when a new solver state is available
+  advance(frameDelta: number): boolean;
+  // Writes positions blended between the last two fixed steps by real time
+  interpolate(out: Float32Array): void;
+  dispose(): void;
+}
+
+// SharedArrayBuffer is only exposed on cross-origin isolated pages
+export const supportsWorkerSimulation = () =>
+  typeof Worker !== 'undefined' &&
+  typeof SharedArrayBuffer !== 'undefined' &&
+  (typeof crossOriginIsolated === 'undefined' || crossOriginIsolated);
+
+class InThreadSimulation implements ClothSimulation {
+  readonly offThread = false;
+  readonly previousPositions: Float32Array;
+  readonly normals: Float32Array;
+  private solver: ClothSolver;
+  private clock = new FixedTimestep();
+
+  constructor(setup: ClothSetup) {
+    this.solver = new ClothSolver(setup.positions, {
+      vertexAreas: setup.vertexAreas,
+      indices: setup.indices,
+      capacity: setup.capacity
+    });
+    setup.constraints.forEach(group => this.solver.addConstraintGroup(group));
+    this.previousPositions = new Float32Array(this.solver.positions);
+    this.normals = new Float32Array(this.solver.positions.length);
+    computeVertexNormals(this.solver.positions, this.solver.indices, this.normals);
+  }
+
+  get count() {
+    return this.solver.count;
+  }
+
+  get indices() {
+    return this.solver.indices;
+  }
+
+  get origins() {
+    return this.solver.origins;
+  }
+
+  get topologyVersion() {
+    return this.solver.topologyVersion;
+  }
+
+  get positions() {
+    return this.solver.positions;
+  }
+
+  get surfacePositions() {
+    return this.solver.positions;
+  }
+
+  get stats() {
+    return this.solver.stats;
+  }
+
+  configure(settings: Partial<SolverSettings>) {
+    this.solver.configure(settings);
+  }
+
+  setTimestep(settings: Partial<TimestepSettings>) {
+    Object.assign(this.clock.settings, settings);
+  }
+
+  setPin(index: number, x: number, y: number, z: number) {
+    this.solver.setPin(index, x, y, z);
+  }
+
+  releasePin(index: number) {
+    this.solver.releasePin(index);
+  }
+
+  advance(frameDelta: number) {
+    const steps = this.clock.advance(frameDelta);
+    if (steps === 0) return false;
+
+    const { substeps } = this.clock.settings;
+    const dt = this.clock.solverDt;
+    const version = this.solver.topologyVersion;
+    const slept = this.solver.asleep;
+    for (let s = 0; s < steps; s++) {
+      if (s === steps - 1) this.previousPositions.set(this.solver.positions);
+      for (let sub = 0; sub < substeps; sub++) this.solver.step(dt);
+    }
+    // Slept through: nothing moved, so the normals still hold
+    if (slept && this.solver.asleep) return false;
+    // Split-off particles have no earlier state to blend from
+    if (this.solver.topologyVersion !== version) this.previousPositions.set(this.solver.positions);
+
+    computeVertexNormals(this.solver.positions, this.solver.indices, this.normals);
+    return true;
+  }
+
+  interpolate(out: Float32Array) {
+    interpolatePositions(this.previousPositions, this.solver.positions, this.clock.alpha, out);
+  }
+
+  dispose() {}
+}
+
+class WorkerSimulation implements ClothSimulation {
+  readonly offThread = true;
+  count: number;
+  readonly indices: Uint32Array;
+  readonly origins: Uint32Array;
+  topologyVersion = 0;
+  // Main-thread copies, refreshed only while no step is in flight
+  readonly positions: Float32Array;
+  readonly previousPositions: Float32Array;
+  readonly normals: Float32Array;
+  readonly surfacePositions: Float32Array;
+  stats: SolverStats = { ...EMPTY_SOLVER_STATS };
+  private shared: Float32Array;
+  private worker: Worker;
+  private clock = new FixedTimestep();
+  private pins = new Map<number, [number, number, number]>();
+  private pendingSettings: Partial<SolverSettings> | null = null;
+  private pendingSteps = 0;
+  private busy = false;
+  private fresh = false;
+  private failed = false;
+  // Called once if the worker fails to load or throws; stepping stops and
+  // the caller is expected to replace this simulation
+  private onError: (message: string) => void;
+
+  constructor(setup: ClothSetup, onError: (message: string) => void) {
+    this.onError = onError;
+    this.count = setup.positions.length / 3;
+    const capacity = Math.max(this.count, setup.capacity ?? this.count);
+    const floats = capacity * 3;
+    const buffer = new SharedArrayBuffer(floats * 3 * Float32Array.BYTES_PER_ELEMENT);
+    this.shared = new Float32Array(buffer);
+    this.surfacePositions = this.shared.subarray(0, floats);
+    // Readable by other layers before the first step comes back
+    this.surfacePositions.set(setup.positions);
+    this.positions = new Float32Array(floats);
+    this.positions.set(setup.positions);
+    this.previousPositions = new Float32Array(this.positions);
+    this.normals = new Float32Array(floats);
+    this.indices = new Uint32Array(setup.indices);
+    this.origins = new Uint32Array(capacity);
+    for (let i = 0; i < this.count; i++) this.origins[i] = i;
+    computeVertexNormals(this.positions, this.indices, this.normals);
+
+    this.worker = new Worker(new URL('./clothWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      if (e.data.type === 'stepped') {
+        this.stats = e.data.stats;
+        const { topology } = e.data;
+        if (topology) {
+          this.count = topology.count;
+          this.indices.set(topology.indices);
+          this.origins.set(topology.origins);
+          this.topologyVersion = topology.version;
+        }
+        this.busy = false;
+        this.fresh = true;
+      }
+    };
+    this.worker.onerror = e => {
+      e.preventDefault();
+      this.fail(e.message || 'the worker script could not be loaded');
+    };
+    this.worker.onmessageerror = () => this.fail('a message from the worker could not be read');
+
+    this.post({
+      type: 'init',
+      positions: setup.positions,
+      indices: setup.indices,
+      vertexAreas: setup.vertexAreas,
+      constraints: setup.constraints,
+      capacity,
+      buffer
+    });
+  }
+
+  configure(settings: Partial<SolverSettings>) {
+    this.pendingSettings = { ...this.pendingSettings, ...settings };
+  }
+
+  setTimestep(settings: Partial<TimestepSettings>) {
+    Object.assign(this.clock.settings, settings);
+  }
+
+  setPin(index: number, x: number, y: number, z: number) {
+    this.pins.set(index, [x, y, z]);
+  }
+
+  releasePin(index: number) {
+    this.pins.delete(index);
+  }
+
+  // The worker only writes the shared buffer while a step is in flight, and
+  // results are copied out before the next step is requested, so the
+  // renderer never sees a half-written frame.
+  advance(frameDelta: number) {
+    if (this.failed) return false;
+    const changed = this.fresh;
+    if (this.fresh) {
+      const floats = this.positions.length;
+      this.positions.set(this.shared.subarray(0, floats));
+      this.previousPositions.set(this.shared.subarray(floats, floats * 2));
+      this.normals.set(this.shared.subarray(floats * 2));
+      this.fresh = false;
+    }
+
+    // Steps keep accruing while the worker is busy, so it catches up in real time
+    const { maxStepsPerFrame, substeps } = this.clock.settings;
+    this.pendingSteps = Math.min(this.pendingSteps + this.clock.advance(frameDelta), maxStepsPerFrame);
+
+    if (!this.busy && this.pendingSteps > 0) {
+      const pins: PinList = [];
+      this.pins.forEach((target, index) => pins.push(index, target[0], target[1], target[2]));
+
+      this.post({
+        type: 'step',
+        dt: this.clock.solverDt,
+        steps: this.pendingSteps,
+        substeps,
+        pins,
+        settings: this.pendingSettings ?? undefined
+      });
+      this.pendingSettings = null;
+      this.pendingSteps = 0;
+      this.busy = true;
+    }
+    return changed;
+  }
+
+  interpolate(out: Float32Array) {
+    interpolatePositions(this.previousPositions, this.positions, this.clock.alpha, out);
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+
+  private fail(message: string) {
+    if (this.failed) return;
+    this.failed = true;
+    this.busy = false;
+    this.pendingSteps = 0;
+    this.worker.terminate();
+    console.warn(`Worker simulation failed (${message}), stepping on the main thread`);
+    this.onError(message);
+  }
+
+  private post(msg: WorkerRequest) {
+    this.worker.postMessage(msg);
+  }
+}
+
+// Prefers the worker when requested and supported, otherwise falls back to
+// stepping in the calling thread. A worker that fails later (its script does
+// not load, or a step throws) stops and calls `onWorkerError`, after which
+// the caller rebuilds the cloth in this thread.
+export const createClothSimulation = (
+  setup: ClothSetup,
+  preferWorker: boolean,
+  onWorkerError: (message: string) => void = () => {}
+): ClothSimulation => {
+  if (preferWorker && supportsWorkerSimulation()) {
+    try {
+      return new WorkerSimulation(setup, onWorkerError);
+    } catch (err) {
+      console.warn('Worker simulation unavailable, stepping on the main thread', err);
+    }
+  }
+  return new InThreadSimulation(setup);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { ClothSolver, SolverMethod } from './ClothSolver';
+import { createGridCloth } from './clothGrid';
+import { createColliderPreset, createMeshCollider } from './colliders';
+import { DEFAULT_FABRIC } from './FabricMaterial';
+import { createPinPreset } from './pins';
+
+const RESOLUTION = 10;
+const DT = 1 / 60;
+
+// A 1 m swatch, hanging from its top edge or dropped onto the sphere preset
+const createSolver = (method: SolverMethod, setup: 'hanging' | 'draped') => {
+  const mesh = createGridCloth(RESOLUTION, 1, 1, [0, 1.5, 0]);
+  const solver = new ClothSolver(mesh.positions, {
+    vertexAreas: mesh.vertexAreas,
+    indices: mesh.indices,
+    method,
+    material: DEFAULT_FABRIC
+  });
+  mesh.constraints.forEach(group => solver.addConstraintGroup(group));
+  if (setup === 'hanging') {
+    solver.configure({ pins: [createPinPreset('top-edge', 'pins', RESOLUTION + 1, [])!] });
+  } else {
+    solver.configure({ colliders: [createColliderPreset('sphere', 'sphere')] });
+  }
+  return solver;
+};
+
+// Steps for `seconds`, checking for NaNs along the way; returns the highest
+// kinetic energy reached in each simulated second (a swinging cloth trades it
+// with potential energy, so single samples go up and down)
+const run = (solver: ClothSolver, seconds: number) => {
+  const peaks: number[] = [];
+  for (let step = 0; step < seconds / DT; step++) {
+    solver.step(DT);
+    expect(solver.hasInvalidState(), `invalid state at step ${step}`).toBe(false);
+    const second = Math.floor(step * DT);
+    peaks[second] = Math.max(peaks[second] ?? 0, solver.kineticEnergy(DT));
+  }
+  return peaks;
+};
+
+describe.each<SolverMethod>(['pbd', 'xpbd'])('ClothSolver (%s)', method => {
+  it('hangs from pins without NaNs and with links near their rest length', () => {
+    const solver = createSolver(method, 'hanging');
+    run(solver, 6);
+    expect(solver.maxConstraintError()).toBeLessThan(0.1);
+  });
+
+  it('loses energy as a hanging cloth settles', () => {
+    const solver = createSolver(method, 'hanging');
+    const peaks = run(solver, 10);
+    expect(peaks[0]).toBeGreaterThan(0);
+    // Every two seconds swing less than the two before
+    for (let second = 2; second < peaks.length; second += 2) {
+      expect(Math.max(peaks[second], peaks[second + 1])).toBeLessThan(Math.max(peaks[second - 2], peaks[second - 1]));
+    }
+    expect(peaks[peaks.length - 1]).toBeLessThan(peaks[0] * 0.01);
+  });
+
+  it('drapes over a sphere and comes to rest without NaNs', () => {
+    const solver = createSolver(method, 'draped');
+    const peaks = run(solver, 8);
+    expect(peaks[peaks.length - 1]).toBeLessThan(Math.max(...peaks) * 0.01);
+    expect(solver.maxConstraintError()).toBeLessThan(0.1);
+    // Resting on the sphere (radius 1) rather than falling through it
+    let lowest = Infinity;
+    for (let i = 0; i < solver.count; i++) lowest = Math.min(lowest, solver.positions[i * 3 + 1]);
+    expect(lowest).toBeGreaterThan(-1);
+  });
+
+  it('stays finite through a large time step', () => {
+    const solver = createSolver(method, 'draped');
+    for (let step = 0; step < 30; step++) solver.step(0.1);
+    expect(solver.hasInvalidState()).toBe(false);
+  });
+});
+
+describe('ClothSolver mesh colliders', () => {
+  // Closed 1 m cube around the origin, counter-clockwise from outside
+  const cube = createMeshCollider(
+    'cube',
+    'cube',
+    new Float32Array([-0.5, -0.5, -0.5, 0.5, -0.5, -0.5, 0.5, 0.5, -0.5, -0.5, 0.5, -0.5, -0.5, -0.5, 0.5, 0.5, -0.5, 0.5, 0.5, 0.5, 0.5, -0.5, 0.5, 0.5]),
+    new Uint32Array([0, 2, 1, 0, 3, 2, 4, 5, 6, 4, 6, 7, 0, 1, 5, 0, 5, 4, 3, 7, 6, 3, 6, 2, 0, 4, 7, 0, 7, 3, 1, 2, 6, 1, 6, 5])
+  );
+
+  // One free particle at `y` moving down at `speed` (m/s)
+  const dropParticle = (y: number, speed: number) => {
+    const solver = new ClothSolver(new Float32Array([0.1, y, 0.1]), {});
+    solver.configure({ colliders: [cube] });
+    solver.prevPositions[1] = y + speed * DT;
+    for (let step = 0; step < 120; step++) solver.step(DT);
+    return solver.positions[1];
+  };
+
+  it.each([6, 12, 20, 40])('catches a particle falling at %d m/s on the top face', speed => {
+    // Resting on the top (y = 0.5) plus the default collision margin
+    expect(dropParticle(1.5, speed)).toBeCloseTo(0.58, 2);
+  });
+
+  it('pushes out a particle that starts deep inside', () => {
+    const solver = new ClothSolver(new Float32Array([0.1, 0, 0.05]), {});
+    solver.configure({ colliders: [cube] });
+    solver.step(DT);
+    // Out through the nearest face (x = 0.5), to the collision margin
+    expect(solver.positions[0]).toBeCloseTo(0.58, 2);
+  });
+});
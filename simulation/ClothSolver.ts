@@ -0,0 +1,1381 @@
+// Headless Verlet cloth solver.
+// Owns the particle state buffers and knows nothing about React or Three.js,
+// so it can be stepped in the render loop, a worker or plain Node.
+
+import {
+  DEFAULT_FABRIC,
+  FabricMaterial,
+  isSameMaterial,
+  reinforcementStiffness,
+  stiffnessToCompliance,
+  stretchStiffness
+} from './FabricMaterial';
+import { SpatialHash } from './SpatialHash';
+import {
+  AIR_DENSITY,
+  DEFAULT_WIND,
+  DRAG_COEFFICIENT,
+  LIFT_COEFFICIENT,
+  WindSettings,
+  isSameWind,
+  windVelocity
+} from './wind';
+import { Collider, PreparedCollider, colliderDistance, colliderOrigin, prepareCollider } from './colliders';
+import {
+  TriangleBVH,
+  buildTriangleBVH,
+  closestPointOnTriangle,
+  closestTriangle,
+  refitTriangleBVH,
+  triangleNormal
+} from './meshCollider';
+import { PinSet, isSamePinSet } from './pins';
+import type { ClothSurface } from './layers';
+
+export type { Collider } from './colliders';
+
+export type Vec3 = [number, number, number];
+
+// Which material parameter drives a group's stiffness. Seams are rigid and
+// independent of the fabric: their rest lengths shrink to zero over time,
+// drawing the joined edges together.
+export type ConstraintKind = 'stretch' | 'bending' | 'reinforcement' | 'seam';
+
+export interface ConstraintGroup {
+  name: string;
+  kind: ConstraintKind;
+  // Flat triples: particle A, particle B, rest length
+  data: number[];
+  // Direction of each link in the flat pattern (radians from the cloth's X axis)
+  angles: number[];
+  // Multiplier on the material stiffness (0 disables the group)
+  strength: number;
+}
+
+// 'pbd': classic position-based solve, stiffness is a per-iteration fraction
+// (so the result depends on iteration count and timestep).
+// 'xpbd': compliance-based solve with Lagrange multipliers, where stiffness
+// converges to the same value regardless of iterations and timestep.
+export type SolverMethod = 'pbd' | 'xpbd';
+
+// Runtime settings that can change between steps. Kept plain and serializable
+// so they can be posted to a worker-hosted solver unchanged.
+export interface SolverSettings {
+  method: SolverMethod;
+  material: FabricMaterial;
+  iterations: number;
+  constraintStrengths: Record<string, number>;
+  colliders: Collider[];
+  selfCollision: boolean;
+  thickness: number; // Minimum particle separation for self-collision and between layers (m)
+  wind: WindSettings;
+  pins: PinSet[];
+  // Surfaces of the cloth layers beneath this one
+  layersBelow: ClothSurface[];
+  // Stop stepping once the cloth has come to rest, until something disturbs it
+  sleep: boolean;
+}
+
+// Wall-clock milliseconds spent in each phase of the last step, and how the
+// cloth was moving after it
+export interface SolverStats {
+  stepMs: number;
+  constraintsMs: number;
+  collisionsMs: number;
+  selfCollisionMs: number;
+  selfCollisionPairs: number;
+  kineticEnergy: number; // J
+  maxSpeed: number; // m/s, of the fastest particle
+  // Simulated time at which the cloth came to rest; null while it moves
+  settledAt: number | null;
+  asleep: boolean;
+}
+
+export const EMPTY_SOLVER_STATS: SolverStats = {
+  stepMs: 0,
+  constraintsMs: 0,
+  collisionsMs: 0,
+  selfCollisionMs: 0,
+  selfCollisionPairs: 0,
+  kineticEnergy: 0,
+  maxSpeed: 0,
+  settledAt: null,
+  asleep: false
+};
+
+// Constraint iterations for a cloth `resolution` quads across. They only
+// follow mesh density; the material sets link stiffness.
+export const solverIterations = (resolution: number) => (resolution > 40 ? 12 : 8);
+
+export interface ClothSolverOptions {
+  // Rest area represented by each particle (m²); mass = area * areal density
+  vertexAreas?: Float32Array;
+  // Triangles of the rendered surface; tearing splits particles along them
+  indices?: Uint32Array;
+  // Particle slots to allocate (at least the initial count); tearing fills
+  // the spare ones with split-off copies
+  capacity?: number;
+  method?: SolverMethod;
+  material?: FabricMaterial;
+  gravity?: number;
+  drag?: number;
+  iterations?: number;
+  collisionMargin?: number;
+  selfCollision?: boolean;
+  thickness?: number;
+  wind?: WindSettings;
+  pins?: PinSet[];
+  layersBelow?: ClothSurface[];
+  sleep?: boolean;
+  // At rest once no particle has moved faster than this (m/s) for
+  // `sleepDelay` simulated seconds
+  sleepSpeed?: number;
+  sleepDelay?: number;
+}
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Areal density at which `drag` applies as-is; lighter fabrics feel more air
+const REFERENCE_GSM = 200;
+
+// Furthest the air may move a particle in one step (m)
+const MAX_AERODYNAMIC_SHIFT = 0.01;
+
+// How fast seams are sewn shut (m/s); slow enough that panels settle around
+// the body instead of snapping through it. Gravity waits until every seam is
+// closed, so panels do not fall away before they are joined.
+const SEAM_CLOSING_SPEED = 0.5;
+
+// Pins moved less than this (m), and lower layers that have moved less since
+// this cloth fell asleep, leave it asleep
+const WAKE_DISTANCE = 1e-4;
+
+interface ResolvedPinSet {
+  set: PinSet;
+  // Targets relative to the attachment origin (the world origin when unattached)
+  offsets: Float64Array;
+  // Attached collider's origin; kept at its last value if the collider is removed
+  origin: Vec3;
+}
+
+// A lower layer's surface with a tree over its triangles, refitted every step
+interface PreparedSurface {
+  surface: ClothSurface;
+  bvh: TriangleBVH;
+  // Positions when this cloth fell asleep on it
+  restPositions: Float32Array | null;
+}
+
+interface SolverConstraintGroup {
+  group: ConstraintGroup;
+  // Per-link stiffness (0-1) derived from the material
+  stiffness: Float32Array;
+  // XPBD Lagrange multipliers, accumulated over the iterations of one step
+  lambdas: Float32Array;
+  // Links torn apart (1); skipped by the solve for good
+  broken: Uint8Array;
+}
+
+export class ClothSolver {
+  // Active particles; grows when tearing splits one in two
+  count: number;
+  readonly capacity: number;
+  readonly positions: Float32Array;
+  readonly prevPositions: Float32Array;
+  // Initial configuration; self-collision never pushes particles further apart than this
+  readonly restPositions: Float32Array;
+  readonly masses: Float32Array;
+  readonly invMasses: Float32Array;
+  // Triangles, rewritten in place when tearing splits a particle
+  readonly indices: Uint32Array;
+  // Initial particle each particle descends from (itself unless split off),
+  // so the renderer can give copies the same texture coordinates
+  readonly origins: Uint32Array;
+  // Bumped whenever tearing changes `count` or `indices`
+  topologyVersion = 0;
+
+  method: SolverMethod;
+  material: FabricMaterial;
+  gravity: number;
+  drag: number; // Air resistance (velocity multiplier per 1/60 s)
+  iterations: number;
+  collisionMargin: number;
+  selfCollision: boolean;
+  thickness: number;
+  wind: WindSettings;
+  // Simulated seconds since creation (drives the wind's gusts)
+  time = 0;
+  sleep: boolean;
+  sleepSpeed: number;
+  sleepDelay: number;
+  // Asleep: steps leave the cloth as it is until something wakes it
+  asleep = false;
+
+  readonly stats: SolverStats = { ...EMPTY_SOLVER_STATS };
+
+  private vertexAreas: Float32Array;
+  private constraints: SolverConstraintGroup[] = [];
+  // Hinge bending, one hinge per interior edge of the rest surface. Flat
+  // quadruples: the edge's two particles, then the two opposite particles.
+  private hinges: Uint32Array;
+  // Cotangent weight of each hinge particle
+  private hingeWeights: Float32Array;
+  // Rest area of each hinge's two triangles (m²)
+  private hingeAreas: Float32Array;
+  // Lagrange multipliers (xyz per hinge) accumulated over one step
+  private hingeLambdas: Float32Array;
+  // Hinges dropped because tearing split one of their particles
+  private hingeBroken: Uint8Array;
+  // Inverse masses for the hinge solve, with pinned particles immovable
+  private hingeInvMasses: Float32Array;
+  private colliders: PreparedCollider[] = [];
+  private layersBelow: PreparedSurface[] = [];
+  // Flat quadruples, rebuilt every step: particle, layer, triangle, side (±1)
+  private layerContacts: number[] = [];
+  private contactNormal = new Float64Array(3);
+  private contactPoint = new Float64Array(3);
+  // Transient pins (pointer drag, hand pinches), applied over the pin sets
+  private pins = new Map<number, Vec3>();
+  private pinSets: ResolvedPinSet[] = [];
+  private pinnedBySet: Uint8Array;
+  // Aerodynamic force on each particle for the current step (N)
+  private forces: Float32Array;
+  private airVelocity = new Float64Array(3);
+
+  // Self-collision state, rebuilt every step
+  private hash: SpatialHash | null = null;
+  private selfPairs: number[] = []; // Flat triples: particle A, particle B, min separation
+  private visitStamp: Int32Array;
+  private stamp = 0;
+
+  // Simulated seconds every particle has stayed below the sleep speed
+  private restingFor = 0;
+
+  constructor(initialPositions: Float32Array, options: ClothSolverOptions = {}) {
+    this.count = initialPositions.length / 3;
+    const capacity = Math.max(this.count, options.capacity ?? this.count);
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.positions.set(initialPositions);
+    this.prevPositions = new Float32Array(this.positions);
+    this.restPositions = new Float32Array(this.positions);
+    this.masses = new Float32Array(capacity);
+    this.invMasses = new Float32Array(capacity);
+    this.vertexAreas = new Float32Array(capacity);
+    if (options.vertexAreas) this.vertexAreas.set(options.vertexAreas);
+    else this.vertexAreas.fill(1, 0, this.count);
+    this.indices = options.indices ? new Uint32Array(options.indices) : new Uint32Array(0);
+    this.origins = new Uint32Array(capacity);
+    for (let i = 0; i < this.count; i++) this.origins[i] = i;
+
+    this.method = options.method ?? 'pbd';
+    this.material = { ...(options.material ?? DEFAULT_FABRIC) };
+    this.updateMasses();
+
+    this.gravity = options.gravity ?? -9.8;
+    this.drag = options.drag ?? 0.99;
+    this.iterations = options.iterations ?? 8;
+    this.collisionMargin = options.collisionMargin ?? 0.08;
+    this.selfCollision = options.selfCollision ?? false;
+    this.thickness = options.thickness ?? 0.05;
+    this.wind = { ...(options.wind ?? DEFAULT_WIND) };
+    this.sleep = options.sleep ?? false;
+    this.sleepSpeed = options.sleepSpeed ?? 0.02;
+    this.sleepDelay = options.sleepDelay ?? 1;
+    this.forces = new Float32Array(capacity * 3);
+    this.visitStamp = new Int32Array(capacity);
+    this.pinnedBySet = new Uint8Array(capacity);
+    if (options.pins) this.setPinSets(options.pins);
+    if (options.layersBelow) this.setLayersBelow(options.layersBelow);
+
+    const hinges = this.buildHinges();
+    this.hinges = new Uint32Array(hinges.vertices);
+    this.hingeWeights = new Float32Array(hinges.weights);
+    this.hingeAreas = new Float32Array(hinges.areas);
+    this.hingeLambdas = new Float32Array(this.hingeAreas.length * 3);
+    this.hingeBroken = new Uint8Array(this.hingeAreas.length);
+    this.hingeInvMasses = new Float32Array(capacity);
+  }
+
+  // Hinges across every interior edge of the rest surface, weighted as in
+  // Bergou et al.'s quadratic bending energy: the weighted sum of a hinge's
+  // four positions is zero while its triangles are coplanar and grows in
+  // proportion to the fold, so it resists curvature from the first degree,
+  // where the skip-one bending links only do once folded. Rest surfaces are
+  // flat (swatches, pattern pieces, test specimens); hinges that are not are
+  // left out.
+  private buildHinges() {
+    const rest = this.restPositions;
+    const indices = this.indices;
+    const vertices: number[] = [];
+    const weights: number[] = [];
+    const areas: number[] = [];
+
+    const opposite = new Map<string, number>();
+    const edge = new Float64Array(3);
+    const toC = new Float64Array(3);
+    const toD = new Float64Array(3);
+    const fromB = new Float64Array(3);
+    const cross = new Float64Array(3);
+    const sub = (out: Float64Array, p: number, q: number) => {
+      for (let c = 0; c < 3; c++) out[c] = rest[p * 3 + c] - rest[q * 3 + c];
+    };
+    const crossInto = (u: Float64Array, v: Float64Array) => {
+      cross[0] = u[1] * v[2] - u[2] * v[1];
+      cross[1] = u[2] * v[0] - u[0] * v[2];
+      cross[2] = u[0] * v[1] - u[1] * v[0];
+      return cross;
+    };
+    const dot = (u: Float64Array, v: Float64Array) => u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+    // Cotangent of the angle between u and v, scaled by `sign` on u
+    const cot = (u: Float64Array, v: Float64Array, sign: number) => {
+      const c = crossInto(u, v);
+      return (sign * dot(u, v)) / Math.hypot(c[0], c[1], c[2]);
+    };
+
+    for (let t = 0; t < indices.length; t += 3) {
+      for (let e = 0; e < 3; e++) {
+        const a = indices[t + e], b = indices[t + (e + 1) % 3], c = indices[t + (e + 2) % 3];
+        const key = a < b ? `${a},${b}` : `${b},${a}`;
+        const d = opposite.get(key);
+        if (d === undefined) {
+          opposite.set(key, c);
+          continue;
+        }
+
+        sub(edge, b, a);
+        sub(toC, c, a);
+        sub(toD, d, a);
+        const n1 = crossInto(edge, toC).slice();
+        const n2 = crossInto(edge, toD);
+        const area1 = Math.hypot(n1[0], n1[1], n1[2]) / 2;
+        const area2 = Math.hypot(n2[0], n2[1], n2[2]) / 2;
+        if (area1 < 1e-12 || area2 < 1e-12) continue;
+        // Flat at rest: the two triangles lie either side of the edge in one plane
+        if (dot(n1, n2) > -0.999 * 4 * area1 * area2) continue;
+
+        const c01 = cot(edge, toC, 1);
+        const c02 = cot(edge, toD, 1);
+        sub(fromB, c, b);
+        const c03 = cot(edge, fromB, -1);
+        sub(fromB, d, b);
+        const c04 = cot(edge, fromB, -1);
+
+        vertices.push(a, b, c, d);
+        weights.push(c03 + c04, c01 + c02, -c01 - c03, -c02 - c04);
+        areas.push(area1 + area2);
+      }
+    }
+    return { vertices, weights, areas };
+  }
+
+  // Settings are usually resent unchanged every frame; only actual changes
+  // wake a sleeping cloth
+  configure(settings: Partial<SolverSettings>) {
+    const changed = <T>(value: T | undefined, current: T) => value !== undefined && value !== current;
+    if (
+      changed(settings.method, this.method) ||
+      changed(settings.iterations, this.iterations) ||
+      changed(settings.selfCollision, this.selfCollision) ||
+      changed(settings.thickness, this.thickness) ||
+      (settings.wind && !isSameWind(settings.wind, this.wind))
+    ) {
+      this.wake();
+    }
+    if (settings.sleep !== undefined) {
+      this.sleep = settings.sleep;
+      if (!this.sleep) this.asleep = false;
+    }
+
+    if (settings.method) this.method = settings.method;
+    if (settings.material) this.setMaterial(settings.material);
+    if (settings.iterations !== undefined) this.iterations = settings.iterations;
+    if (settings.colliders) this.setColliders(settings.colliders);
+    if (settings.pins) this.setPinSets(settings.pins);
+    if (settings.layersBelow) this.setLayersBelow(settings.layersBelow);
+    if (settings.selfCollision !== undefined) this.selfCollision = settings.selfCollision;
+    if (settings.thickness !== undefined) this.thickness = settings.thickness;
+    if (settings.wind) this.wind = { ...settings.wind };
+    if (settings.constraintStrengths) {
+      for (const [name, strength] of Object.entries(settings.constraintStrengths)) {
+        this.setConstraintStrength(name, strength);
+      }
+    }
+  }
+
+  // Starts stepping again and forgets that the cloth had come to rest
+  wake() {
+    this.asleep = false;
+    this.restingFor = 0;
+    this.stats.settledAt = null;
+    this.stats.asleep = false;
+  }
+
+  setMaterial(material: FabricMaterial) {
+    if (isSameMaterial(material, this.material)) return;
+    this.wake();
+    const densityChanged = material.gsm !== this.material.gsm;
+    this.material = { ...material };
+    if (densityChanged) this.updateMasses();
+    this.constraints.forEach(entry => this.updateStiffness(entry));
+  }
+
+  private updateMasses() {
+    for (let i = 0; i < this.count; i++) this.updateMass(i);
+  }
+
+  private updateMass(i: number) {
+    const density = this.material.gsm / 1000; // kg/m²
+    this.masses[i] = this.vertexAreas[i] * density;
+    this.invMasses[i] = this.masses[i] > 0 ? 1 / this.masses[i] : 0;
+  }
+
+  private updateStiffness({ group, stiffness }: SolverConstraintGroup) {
+    const material = this.material;
+    for (let k = 0; k < stiffness.length; k++) {
+      if (group.kind === 'stretch') stiffness[k] = stretchStiffness(material, group.angles[k]);
+      else if (group.kind === 'bending') stiffness[k] = material.bendingRigidity;
+      else if (group.kind === 'seam') stiffness[k] = 1;
+      else stiffness[k] = reinforcementStiffness(material);
+    }
+  }
+
+  // --- Registration ---
+
+  addConstraintGroup(source: ConstraintGroup) {
+    // Tearing rewrites link endpoints, so keep a private copy of the links
+    const group = { ...source, data: source.data.slice() };
+    const links = group.data.length / 3;
+    const entry = {
+      group,
+      stiffness: new Float32Array(links),
+      lambdas: new Float32Array(links),
+      broken: new Uint8Array(links)
+    };
+    this.updateStiffness(entry);
+    this.constraints.push(entry);
+  }
+
+  getConstraintGroup(name: string) {
+    return this.constraints.find(entry => entry.group.name === name)?.group;
+  }
+
+  setConstraintStrength(name: string, strength: number) {
+    const group = this.getConstraintGroup(name);
+    if (!group || group.strength === strength) return;
+    group.strength = strength;
+    this.wake();
+  }
+
+  addCollider(collider: Collider) {
+    this.colliders.push(prepareCollider(collider));
+    this.wake();
+  }
+
+  setColliders(colliders: Collider[]) {
+    this.colliders = colliders.map(prepareCollider);
+    this.wake();
+  }
+
+  // Layers are one-way: this cloth keeps clear of the ones beneath it, which
+  // do not feel it in return, so layers can step independently (even in
+  // separate workers) without fighting over shared particles
+  setLayersBelow(surfaces: ClothSurface[]) {
+    this.layersBelow = surfaces.map(surface => ({
+      surface,
+      bvh: buildTriangleBVH(surface.positions, surface.indices),
+      restPositions: null
+    }));
+    this.wake();
+  }
+
+  // Pinned particles are held at their target inside every solver iteration.
+  // A pin that moves its particle (a drag, a pinch) wakes the cloth.
+  setPin(index: number, x: number, y: number, z: number) {
+    const pos = this.positions;
+    const i = index * 3;
+    if (Math.max(Math.abs(pos[i] - x), Math.abs(pos[i + 1] - y), Math.abs(pos[i + 2] - z)) > WAKE_DISTANCE) {
+      this.wake();
+    }
+    const pin = this.pins.get(index);
+    if (pin) {
+      pin[0] = x;
+      pin[1] = y;
+      pin[2] = z;
+    } else {
+      this.pins.set(index, [x, y, z]);
+    }
+  }
+
+  releasePin(index: number) {
+    if (this.pins.delete(index)) this.wake();
+  }
+
+  clearPins() {
+    if (this.pins.size > 0) this.wake();
+    this.pins.clear();
+  }
+
+  isPinned(index: number) {
+    return this.pins.has(index) || this.pinnedBySet[index] === 1;
+  }
+
+  // Unchanged sets keep their targets; new or edited ones are resolved
+  // against the current particle and collider positions
+  setPinSets(pinSets: PinSet[]) {
+    const previous = this.pinSets;
+    this.pinSets = pinSets.map(set => previous.find(entry => isSamePinSet(entry.set, set)) ?? this.resolvePinSet(set));
+    if (this.pinSets.length !== previous.length || this.pinSets.some((entry, k) => entry !== previous[k])) this.wake();
+    this.pinnedBySet.fill(0);
+    for (const { set } of this.pinSets) {
+      for (const v of set.vertices) if (v < this.capacity) this.pinnedBySet[v] = 1;
+    }
+  }
+
+  private resolvePinSet(set: PinSet): ResolvedPinSet {
+    const collider = this.findCollider(set.colliderId);
+    const origin: Vec3 = collider ? colliderOrigin(collider) : [0, 0, 0];
+    const offsets = new Float64Array(set.vertices.length * 3);
+    set.vertices.forEach((v, k) => {
+      if (v >= this.capacity) return;
+      for (let axis = 0; axis < 3; axis++) {
+        offsets[k * 3 + axis] = set.targets
+          ? set.targets[k * 3 + axis]
+          : this.positions[v * 3 + axis] - origin[axis];
+      }
+    });
+    return { set, offsets, origin };
+  }
+
+  private findCollider(id: string | undefined) {
+    if (id === undefined) return undefined;
+    return this.colliders.find(prepared => prepared.collider.id === id)?.collider;
+  }
+
+  // --- Simulation ---
+
+  step(dt: number) {
+    const stats = this.stats;
+    const stepStart = now();
+    stats.constraintsMs = stats.collisionsMs = stats.selfCollisionMs = 0;
+
+    if (this.asleep) {
+      if (this.layersBelowMoved()) this.wake();
+      else {
+        this.time += dt;
+        stats.stepMs = now() - stepStart;
+        return;
+      }
+    }
+
+    // Attached pins follow their colliders
+    for (const entry of this.pinSets) {
+      const collider = this.findCollider(entry.set.colliderId);
+      if (collider) entry.origin = colliderOrigin(collider);
+    }
+
+    const sewing = this.sew(dt);
+
+    const aerodynamic = this.wind.enabled && this.indices.length > 0 && !sewing;
+    if (aerodynamic) this.computeAerodynamicForces(dt);
+    this.integrate(dt, aerodynamic, sewing ? 0 : this.gravity);
+
+    const xpbd = this.method === 'xpbd';
+    if (xpbd) this.constraints.forEach(entry => entry.lambdas.fill(0));
+    const hinged = this.material.flexuralRigidity > 0 && this.hingeAreas.length > 0;
+    if (hinged) {
+      this.hingeLambdas.fill(0);
+      // A hinge at a pin bends the free side only; sharing the correction
+      // with the pinned side (which the pin then resets) would halve it
+      for (let i = 0; i < this.count; i++) this.hingeInvMasses[i] = this.isPinned(i) ? 0 : this.invMasses[i];
+    }
+
+    let t = now();
+    if (this.layersBelow.length > 0) {
+      this.findLayerContacts();
+      stats.collisionsMs += now() - t;
+    }
+
+    t = now();
+    if (this.selfCollision) {
+      this.findSelfCollisionPairs();
+      stats.selfCollisionMs += now() - t;
+    }
+    stats.selfCollisionPairs = this.selfCollision ? this.selfPairs.length / 3 : 0;
+
+    for (let iter = 0; iter < this.iterations; iter++) {
+      t = now();
+      for (const entry of this.constraints) {
+        if (entry.group.strength <= 0) continue;
+        if (xpbd) this.solveGroupCompliant(entry, dt);
+        else this.solveGroup(entry);
+      }
+      if (hinged) this.solveHinges(dt);
+
+      const t1 = now();
+      if (this.selfCollision) this.solveSelfCollisions();
+
+      const t2 = now();
+      this.applyPins();
+      this.collide();
+
+      const t3 = now();
+      stats.constraintsMs += t1 - t;
+      stats.selfCollisionMs += t2 - t1;
+      stats.collisionsMs += t3 - t2;
+    }
+
+    if (this.material.tearStrain > 0) this.tear();
+
+    this.time += dt;
+    // Wind can pick the cloth up again at any time, so it never counts as at rest
+    this.updateRest(dt, !sewing && !this.wind.enabled);
+
+    stats.stepMs = now() - stepStart;
+  }
+
+  // Motion statistics, and whether the cloth has come to rest
+  private updateRest(dt: number, canRest: boolean) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    let energy = 0;
+    let maxSpeedSq = 0;
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const dx = pos[idx] - prev[idx];
+      const dy = pos[idx + 1] - prev[idx + 1];
+      const dz = pos[idx + 2] - prev[idx + 2];
+      const speedSq = (dx * dx + dy * dy + dz * dz) / (dt * dt);
+      energy += 0.5 * this.masses[i] * speedSq;
+      if (speedSq > maxSpeedSq) maxSpeedSq = speedSq;
+    }
+
+    const stats = this.stats;
+    stats.kineticEnergy = energy;
+    stats.maxSpeed = Math.sqrt(maxSpeedSq);
+    if (!canRest || stats.maxSpeed > this.sleepSpeed) {
+      this.restingFor = 0;
+      stats.settledAt = null;
+      return;
+    }
+
+    this.restingFor += dt;
+    if (this.restingFor < this.sleepDelay || stats.settledAt !== null) return;
+    stats.settledAt = this.time;
+    if (this.sleep) {
+      this.asleep = stats.asleep = true;
+      // Wake from a standstill, not with what little motion was left
+      prev.set(pos.subarray(0, this.count * 3));
+      stats.kineticEnergy = stats.maxSpeed = 0;
+      for (const layer of this.layersBelow) layer.restPositions = layer.surface.positions.slice();
+    }
+  }
+
+  // Whether a layer underneath has moved since this cloth fell asleep on it
+  private layersBelowMoved() {
+    for (const { surface, restPositions } of this.layersBelow) {
+      if (!restPositions) return true;
+      const positions = surface.positions;
+      for (let i = 0; i < restPositions.length; i++) {
+        if (Math.abs(positions[i] - restPositions[i]) > WAKE_DISTANCE) return true;
+      }
+    }
+    return false;
+  }
+
+  // 1. Verlet Integration, Gravity & Wind
+  private integrate(dt: number, aerodynamic: boolean, gravity: number) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    const forces = this.forces;
+    const invMass = this.invMasses;
+    const dt2 = dt * dt;
+    const gravityStep = gravity * dt2;
+    // Rescale so substepping does not change how quickly motion dies out, and
+    // so lighter fabrics (less mass per area exposed to the air) damp faster
+    const drag = Math.pow(this.drag, dt * 60 * (REFERENCE_GSM / Math.max(1, this.material.gsm)));
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+
+      const px = pos[idx];
+      const py = pos[idx + 1];
+      const pz = pos[idx + 2];
+
+      const velX = (px - prev[idx]) * drag;
+      const velY = (py - prev[idx + 1]) * drag;
+      const velZ = (pz - prev[idx + 2]) * drag;
+
+      prev[idx] = px;
+      prev[idx + 1] = py;
+      prev[idx + 2] = pz;
+
+      pos[idx] = px + velX;
+      pos[idx + 1] = py + velY + gravityStep;
+      pos[idx + 2] = pz + velZ;
+
+      if (aerodynamic) {
+        const w = invMass[i] * dt2;
+        pos[idx] += forces[idx] * w;
+        pos[idx + 1] += forces[idx + 1] * w;
+        pos[idx + 2] += forces[idx + 2] * w;
+      }
+    }
+  }
+
+  // Per-triangle aerodynamics, treating each triangle as a flat plate in the
+  // air flowing past it: drag along the relative flow, lift across it, both
+  // scaling with the area facing the flow. Forces are split evenly between
+  // the corners; since a triangle's mass is its area times the areal density,
+  // light fabrics get pushed around far more than heavy ones.
+  private computeAerodynamicForces(dt: number) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    const indices = this.indices;
+    const forces = this.forces;
+    const air = this.airVelocity;
+    const density = this.material.gsm / 1000; // kg/m²
+    forces.fill(0, 0, this.count * 3);
+
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t] * 3;
+      const b = indices[t + 1] * 3;
+      const c = indices[t + 2] * 3;
+
+      // Normal and area
+      const e1x = pos[b] - pos[a], e1y = pos[b + 1] - pos[a + 1], e1z = pos[b + 2] - pos[a + 2];
+      const e2x = pos[c] - pos[a], e2y = pos[c + 1] - pos[a + 1], e2z = pos[c + 2] - pos[a + 2];
+      let nx = e1y * e2z - e1z * e2y;
+      let ny = e1z * e2x - e1x * e2z;
+      let nz = e1x * e2y - e1y * e2x;
+      const doubleArea = Math.sqrt(nx * nx + ny * ny + nz * nz);
+      if (doubleArea < 1e-12) continue;
+      nx /= doubleArea; ny /= doubleArea; nz /= doubleArea;
+      const area = doubleArea / 2;
+
+      // Air velocity relative to the triangle (Verlet velocity of the last step)
+      const cx = (pos[a] + pos[b] + pos[c]) / 3;
+      const cy = (pos[a + 1] + pos[b + 1] + pos[c + 1]) / 3;
+      const cz = (pos[a + 2] + pos[b + 2] + pos[c + 2]) / 3;
+      windVelocity(this.wind, this.time, cx, cy, cz, air);
+      const ux = air[0] - (pos[a] + pos[b] + pos[c] - prev[a] - prev[b] - prev[c]) / (3 * dt);
+      const uy = air[1] - (pos[a + 1] + pos[b + 1] + pos[c + 1] - prev[a + 1] - prev[b + 1] - prev[c + 1]) / (3 * dt);
+      const uz = air[2] - (pos[a + 2] + pos[b + 2] + pos[c + 2] - prev[a + 2] - prev[b + 2] - prev[c + 2]) / (3 * dt);
+      const speed = Math.sqrt(ux * ux + uy * uy + uz * uz);
+      if (speed < 1e-6) continue;
+
+      // cos of the angle between flow and normal = share of the area facing the flow
+      const un = (ux * nx + uy * ny + uz * nz) / speed;
+      const cos = Math.abs(un);
+      const sin = Math.sqrt(Math.max(0, 1 - cos * cos));
+      const pressure = 0.5 * AIR_DENSITY * speed * speed * area;
+
+      // Drag pushes along the flow
+      const drag = pressure * DRAG_COEFFICIENT * cos;
+      let fx = (ux / speed) * drag;
+      let fy = (uy / speed) * drag;
+      let fz = (uz / speed) * drag;
+
+      // Lift pushes across it, towards the side the flow is deflected from:
+      // the part of the downstream-facing normal perpendicular to the flow
+      const sign = un < 0 ? -1 : 1;
+      let lx = nx * sign - (ux / speed) * cos;
+      let ly = ny * sign - (uy / speed) * cos;
+      let lz = nz * sign - (uz / speed) * cos;
+      const lLen = Math.sqrt(lx * lx + ly * ly + lz * lz);
+      if (lLen > 1e-9) {
+        const lift = (pressure * LIFT_COEFFICIENT * cos * sin) / lLen;
+        fx += lx * lift;
+        fy += ly * lift;
+        fz += lz * lift;
+      }
+
+      // An explicit step must not push the cloth past the air's own velocity,
+      // nor further than the constraints can pull back within one step (light
+      // fabrics in strong wind would otherwise stretch without limit). Smaller
+      // steps raise the ceiling, so substeps give the full force back.
+      const mass = area * density;
+      const deltaV = (Math.sqrt(fx * fx + fy * fy + fz * fz) * dt) / Math.max(mass, 1e-9);
+      const maxDeltaV = Math.min(speed, MAX_AERODYNAMIC_SHIFT / dt);
+      const scale = deltaV > maxDeltaV ? maxDeltaV / deltaV : 1;
+
+      for (const v of [a, b, c]) {
+        forces[v] += (fx * scale) / 3;
+        forces[v + 1] += (fy * scale) / 3;
+        forces[v + 2] += (fz * scale) / 3;
+      }
+    }
+  }
+
+  // Shortens open seams; returns whether any were still open
+  private sew(dt: number) {
+    const closing = SEAM_CLOSING_SPEED * dt;
+    let open = false;
+    for (const { group } of this.constraints) {
+      if (group.kind !== 'seam') continue;
+      const list = group.data;
+      for (let i = 2; i < list.length; i += 3) {
+        if (list[i] <= 0) continue;
+        open = true;
+        list[i] = Math.max(0, list[i] - closing);
+      }
+    }
+    return open;
+  }
+
+  // 2. Constraint Solving
+  // Corrections are split by inverse mass, so lighter (edge) particles move more
+  private solveGroup({ group, stiffness, broken }: SolverConstraintGroup) {
+    const pos = this.positions;
+    const invMass = this.invMasses;
+    const list = group.data;
+    const strength = group.strength;
+
+    for (let i = 0, k = 0; i < list.length; i += 3, k++) {
+      const linkStiffness = clamp(stiffness[k] * strength, 0, 1);
+      if (linkStiffness <= 0 || broken[k]) continue;
+
+      const i1 = list[i];
+      const i2 = list[i + 1];
+      const restDist = list[i + 2];
+      const w1 = invMass[i1];
+      const w2 = invMass[i2];
+      const wSum = w1 + w2;
+      if (wSum <= 0) continue;
+
+      const idx1 = i1 * 3;
+      const idx2 = i2 * 3;
+
+      const dx = pos[idx2] - pos[idx1];
+      const dy = pos[idx2 + 1] - pos[idx1 + 1];
+      const dz = pos[idx2 + 2] - pos[idx1 + 2];
+
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (dist < 0.0001) continue;
+
+      const correction = ((dist - restDist) / dist) * linkStiffness / wSum;
+      const c1 = correction * w1;
+      const c2 = correction * w2;
+
+      pos[idx1] += dx * c1;
+      pos[idx1 + 1] += dy * c1;
+      pos[idx1 + 2] += dz * c1;
+
+      pos[idx2] -= dx * c2;
+      pos[idx2 + 1] -= dy * c2;
+      pos[idx2 + 2] -= dz * c2;
+    }
+  }
+
+  // XPBD: each link carries a compliance and a Lagrange multiplier, so the
+  // converged stiffness does not depend on iteration count or timestep
+  private solveGroupCompliant({ group, stiffness, lambdas, broken }: SolverConstraintGroup, dt: number) {
+    const pos = this.positions;
+    const invMass = this.invMasses;
+    const list = group.data;
+    const strength = group.strength;
+    const invDt2 = 1 / (dt * dt);
+
+    for (let i = 0, k = 0; i < list.length; i += 3, k++) {
+      const compliance = stiffnessToCompliance(stiffness[k] * strength);
+      if (compliance === Infinity || broken[k]) continue;
+      const alpha = compliance * invDt2;
+
+      const i1 = list[i];
+      const i2 = list[i + 1];
+      const restDist = list[i + 2];
+      const w1 = invMass[i1];
+      const w2 = invMass[i2];
+      const denom = w1 + w2 + alpha;
+      if (denom <= 0) continue;
+
+      const idx1 = i1 * 3;
+      const idx2 = i2 * 3;
+
+      const dx = pos[idx2] - pos[idx1];
+      const dy = pos[idx2 + 1] - pos[idx1 + 1];
+      const dz = pos[idx2 + 2] - pos[idx1 + 2];
+
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (dist < 0.0001) continue;
+
+      const constraint = dist - restDist;
+      const deltaLambda = (-constraint - alpha * lambdas[k]) / denom;
+      lambdas[k] += deltaLambda;
+
+      // Gradient w.r.t. particle 2 is the unit vector from 1 to 2
+      const c1 = (-deltaLambda * w1) / dist;
+      const c2 = (deltaLambda * w2) / dist;
+
+      pos[idx1] += dx * c1;
+      pos[idx1 + 1] += dy * c1;
+      pos[idx1 + 2] += dz * c1;
+
+      pos[idx2] += dx * c2;
+      pos[idx2 + 1] += dy * c2;
+      pos[idx2 + 2] += dz * c2;
+    }
+  }
+
+  // Each hinge's weighted position sum C = Σ kᵢxᵢ is driven to zero, one
+  // axis at a time, with the compliance that makes its bending energy
+  // G·|C|² / (2·area). Always compliant, whichever method the links use,
+  // since G is a physical stiffness rather than a per-iteration fraction.
+  private solveHinges(dt: number) {
+    const pos = this.positions;
+    const invMass = this.hingeInvMasses;
+    const hinges = this.hinges;
+    const weights = this.hingeWeights;
+    const lambdas = this.hingeLambdas;
+    const rigidity = this.material.flexuralRigidity * 1e-6; // N·m
+    const invDt2 = 1 / (dt * dt);
+
+    for (let h = 0, q = 0; h < this.hingeAreas.length; h++, q += 4) {
+      if (this.hingeBroken[h]) continue;
+      const alpha = (this.hingeAreas[h] / rigidity) * invDt2;
+      let denom = alpha;
+      for (let j = 0; j < 4; j++) denom += invMass[hinges[q + j]] * weights[q + j] * weights[q + j];
+      if (denom <= 0) continue;
+
+      for (let axis = 0; axis < 3; axis++) {
+        let constraint = 0;
+        for (let j = 0; j < 4; j++) constraint += weights[q + j] * pos[hinges[q + j] * 3 + axis];
+        const deltaLambda = (-constraint - alpha * lambdas[h * 3 + axis]) / denom;
+        lambdas[h * 3 + axis] += deltaLambda;
+        for (let j = 0; j < 4; j++) {
+          const v = hinges[q + j];
+          pos[v * 3 + axis] += invMass[v] * weights[q + j] * deltaLambda;
+        }
+      }
+    }
+  }
+
+  // Broad phase: pairs of particles that could come closer than `thickness`
+  // during this step. Queried once per step with a margin for motion.
+  private findSelfCollisionPairs() {
+    const pos = this.positions;
+    const rest = this.restPositions;
+    const thickness = this.thickness;
+    const radius = thickness * 2;
+
+    if (!this.hash || this.hash.spacing !== radius) this.hash = new SpatialHash(radius, this.capacity);
+    this.hash.build(pos, this.count);
+
+    const pairs = this.selfPairs;
+    pairs.length = 0;
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const px = pos[idx];
+      const py = pos[idx + 1];
+      const pz = pos[idx + 2];
+      // Hash collisions can list a particle more than once per query
+      const stamp = ++this.stamp;
+
+      this.hash.query(px, py, pz, radius, j => {
+        if (j <= i || this.visitStamp[j] === stamp) return;
+        this.visitStamp[j] = stamp;
+
+        const jdx = j * 3;
+        const dx = pos[jdx] - px;
+        const dy = pos[jdx + 1] - py;
+        const dz = pos[jdx + 2] - pz;
+        if (dx * dx + dy * dy + dz * dz > radius * radius) return;
+
+        // Neighbours that sit closer than `thickness` at rest are held by the
+        // constraints; only keep them from getting closer than that
+        const rx = rest[jdx] - rest[idx];
+        const ry = rest[jdx + 1] - rest[idx + 1];
+        const rz = rest[jdx + 2] - rest[idx + 2];
+        const restDist = Math.sqrt(rx * rx + ry * ry + rz * rz);
+
+        pairs.push(i, j, Math.min(thickness, restDist));
+      });
+    }
+  }
+
+  // Narrow phase: push apart any candidate pair closer than its separation
+  private solveSelfCollisions() {
+    const pos = this.positions;
+    const invMass = this.invMasses;
+    const pairs = this.selfPairs;
+
+    for (let p = 0; p < pairs.length; p += 3) {
+      const i1 = pairs[p];
+      const i2 = pairs[p + 1];
+      const minDist = pairs[p + 2];
+      const w1 = invMass[i1];
+      const w2 = invMass[i2];
+      const wSum = w1 + w2;
+      if (wSum <= 0) continue;
+
+      const idx1 = i1 * 3;
+      const idx2 = i2 * 3;
+      const dx = pos[idx2] - pos[idx1];
+      const dy = pos[idx2 + 1] - pos[idx1 + 1];
+      const dz = pos[idx2 + 2] - pos[idx1 + 2];
+      const distSq = dx * dx + dy * dy + dz * dz;
+      if (distSq >= minDist * minDist || distSq < 1e-12) continue;
+
+      const dist = Math.sqrt(distSq);
+      const correction = (dist - minDist) / dist / wSum;
+      const c1 = correction * w1;
+      const c2 = correction * w2;
+
+      pos[idx1] += dx * c1;
+      pos[idx1 + 1] += dy * c1;
+      pos[idx1 + 2] += dz * c1;
+
+      pos[idx2] -= dx * c2;
+      pos[idx2 + 1] -= dy * c2;
+      pos[idx2 + 2] -= dz * c2;
+    }
+  }
+
+  private applyPins() {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+
+    for (const { set, offsets, origin } of this.pinSets) {
+      set.vertices.forEach((v, k) => {
+        if (v >= this.count) return;
+        const idx = v * 3;
+        pos[idx] = prev[idx] = origin[0] + offsets[k * 3];
+        pos[idx + 1] = prev[idx + 1] = origin[1] + offsets[k * 3 + 1];
+        pos[idx + 2] = prev[idx + 2] = origin[2] + offsets[k * 3 + 2];
+      });
+    }
+
+    this.pins.forEach((target, index) => {
+      const idx = index * 3;
+      pos[idx] = prev[idx] = target[0];
+      pos[idx + 1] = prev[idx + 1] = target[1];
+      pos[idx + 2] = prev[idx + 2] = target[2];
+    });
+  }
+
+  // 3. Collisions
+  private collide() {
+    for (let i = 0; i < this.count; i++) {
+      // Skip pinned particles to avoid fighting the pin target
+      if (this.isPinned(i)) continue;
+
+      for (const collider of this.colliders) this.collideWith(i, collider);
+    }
+    this.solveLayerContacts();
+  }
+
+  private collideWith(i: number, prepared: PreparedCollider) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    const idx = i * 3;
+    const normal = this.contactNormal;
+    const { collider } = prepared;
+
+    const margin = collider.margin ?? this.collisionMargin;
+    const mx = pos[idx] - prev[idx];
+    const my = pos[idx + 1] - prev[idx + 1];
+    const mz = pos[idx + 2] - prev[idx + 2];
+    const motion = Math.sqrt(mx * mx + my * my + mz * mz);
+    // Meshes search as far as the particle moved, so one that entered the
+    // mesh this step still finds the surface it crossed
+    let dist = colliderDistance(prepared, pos[idx], pos[idx + 1], pos[idx + 2], normal, margin + motion);
+
+    if (dist >= margin) {
+      // Fast particles can jump clean over thin shapes (hanger rails, table
+      // tops) within one step; walk the path from the previous position and
+      // treat the first sample inside as the contact point.
+      const spacing = prepared.thinness + margin;
+      if (motion <= spacing) return;
+
+      const samples = Math.ceil(motion / spacing);
+      let hit = false;
+      for (let k = 1; k < samples && !hit; k++) {
+        const t = k / samples;
+        const sx = prev[idx] + mx * t;
+        const sy = prev[idx + 1] + my * t;
+        const sz = prev[idx + 2] + mz * t;
+        dist = colliderDistance(prepared, sx, sy, sz, normal, margin);
+        if (dist < margin) {
+          pos[idx] = sx;
+          pos[idx + 1] = sy;
+          pos[idx + 2] = sz;
+          hit = true;
+        }
+      }
+      if (!hit) return;
+    }
+
+    const [nx, ny, nz] = normal;
+    const push = margin - dist;
+
+    // Positional correction (normal push out of the collider)
+    pos[idx] += nx * push;
+    pos[idx + 1] += ny * push;
+    pos[idx + 2] += nz * push;
+
+    this.applyFriction(idx, push, collider);
+  }
+
+  // Broad phase for the layers below: the nearest triangle of each layer to
+  // each particle, and the side of it the particle starts the step on. The
+  // search reaches as far as the particle is moving, so one that jumps
+  // clean through a layer within the step is still caught.
+  private findLayerContacts() {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    const closest = this.contactPoint;
+    const normal = this.contactNormal;
+    const contacts = this.layerContacts;
+    contacts.length = 0;
+
+    this.layersBelow.forEach(({ surface, bvh }, layer) => {
+      const { positions, indices } = surface;
+      refitTriangleBVH(bvh, positions, indices);
+
+      for (let i = 0; i < this.count; i++) {
+        if (this.isPinned(i)) continue;
+        const idx = i * 3;
+        const px = pos[idx], py = pos[idx + 1], pz = pos[idx + 2];
+        const motion = Math.sqrt((px - prev[idx]) ** 2 + (py - prev[idx + 1]) ** 2 + (pz - prev[idx + 2]) ** 2);
+        const t = closestTriangle(positions, indices, bvh, px, py, pz, closest, this.thickness * 2 + motion);
+        if (t < 0) continue;
+
+        triangleNormal(positions, indices, t, normal);
+        const side = (prev[idx] - closest[0]) * normal[0] + (prev[idx + 1] - closest[1]) * normal[1] + (prev[idx + 2] - closest[2]) * normal[2];
+        contacts.push(i, layer, t, side < 0 ? -1 : 1);
+      }
+    });
+  }
+
+  // Narrow phase: keeps each particle `thickness` away from its triangle, on
+  // the side it came from
+  private solveLayerContacts() {
+    const pos = this.positions;
+    const thickness = this.thickness;
+    const closest = this.contactPoint;
+    const normal = this.contactNormal;
+    const contacts = this.layerContacts;
+
+    for (let c = 0; c < contacts.length; c += 4) {
+      const idx = contacts[c] * 3;
+      const surface = this.layersBelow[contacts[c + 1]].surface;
+      const { positions, indices } = surface;
+      const t = contacts[c + 2];
+      const side = contacts[c + 3];
+
+      const px = pos[idx], py = pos[idx + 1], pz = pos[idx + 2];
+      closestPointOnTriangle(positions, indices[t * 3] * 3, indices[t * 3 + 1] * 3, indices[t * 3 + 2] * 3, px, py, pz, closest);
+      triangleNormal(positions, indices, t, normal);
+      const [cx, cy, cz] = closest;
+      const dx = px - cx, dy = py - cy, dz = pz - cz;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      const crossed = (dx * normal[0] + dy * normal[1] + dz * normal[2]) * side < 0;
+      if (!crossed && dist >= thickness) continue;
+
+      // Back across to the near side, or straight out from the closest point
+      // (which also rounds off the layer's open edges)
+      let nx = normal[0] * side, ny = normal[1] * side, nz = normal[2] * side;
+      if (!crossed && dist > 1e-9) {
+        nx = dx / dist; ny = dy / dist; nz = dz / dist;
+      }
+      pos[idx] = cx + nx * thickness;
+      pos[idx + 1] = cy + ny * thickness;
+      pos[idx + 2] = cz + nz * thickness;
+      normal[0] = nx; normal[1] = ny; normal[2] = nz;
+
+      this.applyFriction(idx, crossed ? thickness + dist : thickness - dist, surface);
+    }
+  }
+
+  // --- Coulomb friction against the surface in contactNormal ---
+  // Position form: the penetration just resolved stands in for the normal
+  // force. Tangential motion since the last step below μs × depth is
+  // cancelled (the cloth sticks); above it only μk × depth is removed, so
+  // the cloth slides when pulled hard enough. Lower layers count as static.
+  private applyFriction(idx: number, push: number, other: { staticFriction: number; kineticFriction: number }) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    const [nx, ny, nz] = this.contactNormal;
+    const fabric = this.material;
+    const staticFriction = (fabric.staticFriction + other.staticFriction) * 0.5;
+    // Kinetic friction never exceeds static (sliding must not grip harder)
+    const kineticFriction = Math.min(staticFriction, (fabric.kineticFriction + other.kineticFriction) * 0.5);
+
+    const dx = pos[idx] - prev[idx];
+    const dy = pos[idx + 1] - prev[idx + 1];
+    const dz = pos[idx + 2] - prev[idx + 2];
+    const dn = dx * nx + dy * ny + dz * nz;
+    const tx = dx - nx * dn;
+    const ty = dy - ny * dn;
+    const tz = dz - nz * dn;
+    const slide = Math.sqrt(tx * tx + ty * ty + tz * tz);
+    if (slide < 1e-12) return;
+
+    const removed = slide < staticFriction * push
+      ? 1
+      : Math.min(1, (kineticFriction * push) / slide);
+
+    pos[idx] -= tx * removed;
+    pos[idx + 1] -= ty * removed;
+    pos[idx + 2] -= tz * removed;
+  }
+
+  // 4. Tearing
+  // Links stretched past the material's tear strain give way. A torn stretch
+  // link also splits the surface at one of its ends so a visible crack opens;
+  // bending and reinforcement links simply drop out, as do the hinges at a split.
+  private tear() {
+    const pos = this.positions;
+    const limit = this.material.tearStrain;
+    // Particles split this pass; their links are left to relax first so one
+    // overstretched spot does not unzip in a single step
+    const stamp = ++this.stamp;
+
+    for (const { group, broken } of this.constraints) {
+      // Seams hold until the fabric either side of them gives way
+      if (group.kind === 'seam') continue;
+      const list = group.data;
+      for (let i = 0, k = 0; i < list.length; i += 3, k++) {
+        if (broken[k]) continue;
+        const a = list[i];
+        const b = list[i + 1];
+        const restDist = list[i + 2];
+        if (restDist <= 0 || this.visitStamp[a] === stamp || this.visitStamp[b] === stamp) continue;
+
+        const dx = pos[b * 3] - pos[a * 3];
+        const dy = pos[b * 3 + 1] - pos[a * 3 + 1];
+        const dz = pos[b * 3 + 2] - pos[a * 3 + 2];
+        const strain = Math.sqrt(dx * dx + dy * dy + dz * dz) / restDist - 1;
+        if (strain <= limit) continue;
+
+        const split = group.kind === 'stretch' && (this.splitParticle(a, b) || this.splitParticle(b, a));
+        if (split) {
+          this.visitStamp[a] = this.visitStamp[b] = stamp;
+        } else {
+          broken[k] = 1;
+        }
+      }
+    }
+  }
+
+  // Cuts particle `a` along the plane through it facing `toward`: triangles
+  // and links on that side move to a new copy of the particle, so the two
+  // halves can separate. Fails when the plane does not divide a's triangles
+  // (e.g. at a boundary corner), the particle is held by a pin (the copy
+  // would slip out of the grip), or no spare capacity is left.
+  private splitParticle(a: number, toward: number) {
+    if (this.count >= this.capacity || this.isPinned(a)) return false;
+    const pos = this.positions;
+    const indices = this.indices;
+    const ax = pos[a * 3], ay = pos[a * 3 + 1], az = pos[a * 3 + 2];
+    const nx = pos[toward * 3] - ax;
+    const ny = pos[toward * 3 + 1] - ay;
+    const nz = pos[toward * 3 + 2] - az;
+    const side = (p: number) => (pos[p * 3] - ax) * nx + (pos[p * 3 + 1] - ay) * ny + (pos[p * 3 + 2] - az) * nz;
+    // Centroid side, scaled by 3
+    const triangleSide = (t: number) => side(indices[t]) + side(indices[t + 1]) + side(indices[t + 2]);
+
+    let moving = 0;
+    let staying = 0;
+    for (let t = 0; t < indices.length; t += 3) {
+      if (indices[t] !== a && indices[t + 1] !== a && indices[t + 2] !== a) continue;
+      if (triangleSide(t) > 0) moving++;
+      else staying++;
+    }
+    if (moving === 0 || staying === 0) return false;
+
+    const copy = this.count++;
+    for (let c = 0; c < 3; c++) {
+      this.positions[copy * 3 + c] = pos[a * 3 + c];
+      this.prevPositions[copy * 3 + c] = this.prevPositions[a * 3 + c];
+      this.restPositions[copy * 3 + c] = this.restPositions[a * 3 + c];
+    }
+    this.origins[copy] = this.origins[a];
+
+    // Triangles on the far side now use the copy
+    for (let t = 0; t < indices.length; t += 3) {
+      if (indices[t] !== a && indices[t + 1] !== a && indices[t + 2] !== a) continue;
+      if (triangleSide(t) <= 0) continue;
+      for (let c = 0; c < 3; c++) {
+        if (indices[t + c] === a) indices[t + c] = copy;
+      }
+    }
+
+    // So do links whose other end lies on the far side
+    for (const { group } of this.constraints) {
+      const list = group.data;
+      for (let i = 0; i < list.length; i += 3) {
+        if (list[i] === a && side(list[i + 1]) > 0) list[i] = copy;
+        else if (list[i + 1] === a && side(list[i]) > 0) list[i + 1] = copy;
+      }
+    }
+
+    // Hinges around the cut no longer join one surface
+    for (let q = 0; q < this.hinges.length; q++) {
+      if (this.hinges[q] === a) this.hingeBroken[q >> 2] = 1;
+    }
+
+    // Mass follows the triangles
+    const area = this.vertexAreas[a];
+    this.vertexAreas[copy] = (area * moving) / (moving + staying);
+    this.vertexAreas[a] = area - this.vertexAreas[copy];
+    this.updateMass(a);
+    this.updateMass(copy);
+
+    this.topologyVersion++;
+    return true;
+  }
+
+  // --- Diagnostics (headless invariant checks) ---
+
+  // Largest relative stretch over all active constraint groups (torn links excluded)
+  maxConstraintError() {
+    const pos = this.positions;
+    let maxError = 0;
+
+    for (const { group, broken } of this.constraints) {
+      if (group.strength <= 0) continue;
+      const list = group.data;
+      for (let i = 0, k = 0; i < list.length; i += 3, k++) {
+        if (broken[k]) continue;
+        const idx1 = list[i] * 3;
+        const idx2 = list[i + 1] * 3;
+        const restDist = list[i + 2];
+        if (restDist <= 0) continue;
+
+        const dx = pos[idx2] - pos[idx1];
+        const dy = pos[idx2 + 1] - pos[idx1 + 1];
+        const dz = pos[idx2 + 2] - pos[idx1 + 2];
+        const error = Math.abs(Math.sqrt(dx * dx + dy * dy + dz * dz) - restDist) / restDist;
+        if (error > maxError) maxError = error;
+      }
+    }
+    return maxError;
+  }
+
+  // Kinetic energy in joules, from the Verlet velocity estimate
+  kineticEnergy(dt: number) {
+    const pos = this.positions;
+    const prev = this.prevPositions;
+    let energy = 0;
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const vx = (pos[idx] - prev[idx]) / dt;
+      const vy = (pos[idx + 1] - prev[idx + 1]) / dt;
+      const vz = (pos[idx + 2] - prev[idx + 2]) / dt;
+      energy += 0.5 * this.masses[i] * (vx * vx + vy * vy + vz * vz);
+    }
+    return energy;
+  }
+
+  hasInvalidState() {
+    for (let i = 0; i < this.positions.length; i++) {
+      if (!Number.isFinite(this.positions[i]) || !Number.isFinite(this.prevPositions[i])) return true;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,64 @@
+// Physical description of a fabric, consumed by the cloth solver.
+// Mechanical stiffnesses are normalised (0 = no resistance, 1 = as stiff as
+// the solver allows); areal density and flexural rigidity are in real units.
+
+export interface FabricMaterial {
+  gsm: number; // Areal density in g/m² (drives per-vertex mass)
+  bendingRigidity: number; // 0-1, resistance to folding
+  // µN·m, resistance to curving (the G a cantilever bending test measures);
+  // unlike the 0-1 settings it means the same at any mesh density
+  flexuralRigidity: number;
+  warpStiffness: number; // 0-1, stretch resistance along the warp (lengthwise grain)
+  weftStiffness: number; // 0-1, stretch resistance along the weft (crosswise grain)
+  shearStiffness: number; // 0-1, resistance to in-plane shear between the yarn sets
+  grainAngle: number; // Degrees between warp and the cloth's X axis (45 = bias cut)
+  staticFriction: number; // Coulomb coefficient that must be overcome to start sliding
+  kineticFriction: number; // Coulomb coefficient while sliding (≤ static)
+  tearStrain: number; // Relative stretch at which links break (0 = never tears)
+}
+
+export const DEFAULT_FABRIC: FabricMaterial = {
+  gsm: 200,
+  bendingRigidity: 0.5,
+  flexuralRigidity: 10,
+  warpStiffness: 1,
+  weftStiffness: 1,
+  shearStiffness: 1,
+  grainAngle: 0,
+  staticFriction: 0.8,
+  kineticFriction: 0.6,
+  tearStrain: 0
+};
+
+export const isSameMaterial = (a: FabricMaterial, b: FabricMaterial) =>
+  (Object.keys(a) as (keyof FabricMaterial)[]).every(key => a[key] === b[key]);
+
+// Stretch stiffness of a link lying at `angle` (radians, flat pattern space).
+// Orthotropic blend: pure warp/weft links get their own stiffness, links at
+// 45° to the grain are held mostly by shear, which is what makes a bias cut
+// drape softer than a straight-grain one.
+export const stretchStiffness = (material: FabricMaterial, angle: number) => {
+  const theta = angle - (material.grainAngle * Math.PI) / 180;
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  const c2 = c * c;
+  const s2 = s * s;
+  return Math.min(
+    1,
+    material.warpStiffness * c2 * c2 +
+      material.weftStiffness * s2 * s2 +
+      material.shearStiffness * 4 * c2 * s2
+  );
+};
+
+// Long-range reinforcement links only engage for very stiff fabrics
+export const reinforcementStiffness = (material: FabricMaterial) =>
+  material.bendingRigidity > 0.7 ? (material.bendingRigidity - 0.7) / 0.3 : 0;
+
+// XPBD compliance (inverse stiffness, m/N) for a normalised link stiffness.
+// 1 maps to a rigid link, 0 to an infinitely soft one. With this scale a
+// 2 m swatch of 200 gsm at stiffness 0.5 stretches ~0.5% hanging from one edge.
+export const COMPLIANCE_SCALE = 0.02;
+
+export const stiffnessToCompliance = (stiffness: number) =>
+  stiffness >= 1 ? 0 : stiffness <= 0 ? Infinity : COMPLIANCE_SCALE * (1 / stiffness - 1);
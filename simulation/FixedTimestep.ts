@@ -0,0 +1,63 @@
+// Real-time accumulator that turns variable frame deltas into a whole number
+// of fixed simulation steps, so drape speed does not depend on display rate.
+
+export interface TimestepSettings {
+  stepSize: number; // Seconds of simulated time per fixed step
+  substeps: number; // Solver steps per fixed step (each stepSize / substeps long)
+  maxStepsPerFrame: number; // Catch-up clamp; excess time is dropped, not simulated
+}
+
+export const DEFAULT_TIMESTEP: TimestepSettings = {
+  stepSize: 1 / 60,
+  substeps: 1,
+  maxStepsPerFrame: 4
+};
+
+export class FixedTimestep {
+  settings: TimestepSettings;
+  private accumulator = 0;
+
+  constructor(settings: Partial<TimestepSettings> = {}) {
+    this.settings = { ...DEFAULT_TIMESTEP, ...settings };
+  }
+
+  // Returns the number of fixed steps due after `frameDelta` seconds
+  advance(frameDelta: number) {
+    const { stepSize, maxStepsPerFrame } = this.settings;
+    this.accumulator += Math.max(0, frameDelta);
+
+    let steps = Math.floor(this.accumulator / stepSize);
+    this.accumulator -= steps * stepSize;
+
+    if (steps > maxStepsPerFrame) {
+      // Too far behind (slow frame, background tab): run slow instead of spiralling
+      steps = maxStepsPerFrame;
+      this.accumulator = 0;
+    }
+    return steps;
+  }
+
+  // How far (0-1) real time has progressed into the next fixed step
+  get alpha() {
+    return Math.min(1, this.accumulator / this.settings.stepSize);
+  }
+
+  get solverDt() {
+    return this.settings.stepSize / this.settings.substeps;
+  }
+
+  reset() {
+    this.accumulator = 0;
+  }
+}
+
+export const interpolatePositions = (
+  from: Float32Array,
+  to: Float32Array,
+  alpha: number,
+  out: Float32Array
+) => {
+  for (let i = 0; i < out.length; i++) {
+    out[i] = from[i] + (to[i] - from[i]) * alpha;
+  }
+};
@@ -0,0 +1,80 @@
+// Uniform spatial hash over particle positions (dense counting-sort layout).
+// Rebuilt from scratch each query pass; cells are `spacing` wide, so a query
+// radius up to `spacing` only has to visit the 27 surrounding cells.
+
+export class SpatialHash {
+  spacing: number;
+  private tableSize: number;
+  private cellStart: Int32Array;
+  private cellEntries: Int32Array;
+
+  constructor(spacing: number, maxCount: number) {
+    this.spacing = spacing;
+    this.tableSize = 2 * maxCount;
+    this.cellStart = new Int32Array(this.tableSize + 1);
+    this.cellEntries = new Int32Array(maxCount);
+  }
+
+  private hashCoords(xi: number, yi: number, zi: number) {
+    const h = (xi * 92837111) ^ (yi * 689287499) ^ (zi * 283923481);
+    return Math.abs(h) % this.tableSize;
+  }
+
+  private cellCoord(value: number) {
+    return Math.floor(value / this.spacing);
+  }
+
+  build(positions: ArrayLike<number>, count: number) {
+    const { cellStart, cellEntries } = this;
+    cellStart.fill(0);
+
+    // Count particles per cell, then turn counts into end offsets
+    for (let i = 0; i < count; i++) {
+      const h = this.hashCoords(
+        this.cellCoord(positions[i * 3]),
+        this.cellCoord(positions[i * 3 + 1]),
+        this.cellCoord(positions[i * 3 + 2])
+      );
+      cellStart[h]++;
+    }
+    let start = 0;
+    for (let h = 0; h < this.tableSize; h++) {
+      start += cellStart[h];
+      cellStart[h] = start;
+    }
+    cellStart[this.tableSize] = start;
+
+    // Fill entries, walking offsets back to each cell's start
+    for (let i = 0; i < count; i++) {
+      const h = this.hashCoords(
+        this.cellCoord(positions[i * 3]),
+        this.cellCoord(positions[i * 3 + 1]),
+        this.cellCoord(positions[i * 3 + 2])
+      );
+      cellStart[h]--;
+      cellEntries[cellStart[h]] = i;
+    }
+  }
+
+  // Calls `visit` for every particle in the cells overlapping the query box.
+  // Candidates still need an exact distance check.
+  query(x: number, y: number, z: number, radius: number, visit: (index: number) => void) {
+    const x0 = this.cellCoord(x - radius);
+    const y0 = this.cellCoord(y - radius);
+    const z0 = this.cellCoord(z - radius);
+    const x1 = this.cellCoord(x + radius);
+    const y1 = this.cellCoord(y + radius);
+    const z1 = this.cellCoord(z + radius);
+
+    for (let xi = x0; xi <= x1; xi++) {
+      for (let yi = y0; yi <= y1; yi++) {
+        for (let zi = z0; zi <= z1; zi++) {
+          const h = this.hashCoords(xi, yi, zi);
+          for (let e = this.cellStart[h]; e < this.cellStart[h + 1]; e++) {
+            visit(this.cellEntries[e]);
+          }
+        }
+      }
+    }
+  }
+}
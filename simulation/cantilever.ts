@@ -0,0 +1,389 @@
+// Virtual cantilever bending tester (ASTM D1388 / BS 3356). A strip lies on
+// a horizontal platform and is slid slowly off its edge until the tip has
+// dropped to a line 41.5° below the edge; the overhang is then twice the
+// bending length, and the flexural rigidity follows from the fabric's weight.
+// A fit mode searches the bending stiffness that reproduces a measured
+// bending length. Headless, so it can run in the app, a worker or Node.
+// As with the drape test, results depend on the resolution, substeps and
+// method, which go into the exported report.
+
+import { ClothSolver, SolverMethod } from './ClothSolver';
+import type { FabricMaterial } from './FabricMaterial';
+import type { ClothMesh } from './clothGrid';
+import { linkFlatMesh } from './pattern';
+
+export interface CantileverSettings {
+  stripLength: number; // m (200 mm in the standard)
+  stripWidth: number; // m (25 mm in the standard)
+  resolution: number; // Grid cells along the strip
+  substeps: number; // Solver steps per 1/60 s
+  method: SolverMethod;
+  slideSpeed: number; // m/s the strip is pushed off the platform
+}
+
+export const DEFAULT_CANTILEVER: CantileverSettings = {
+  stripLength: 0.2,
+  stripWidth: 0.025,
+  resolution: 20,
+  substeps: 8,
+  method: 'pbd',
+  slideSpeed: 0.01
+};
+
+export interface CantileverResult {
+  // False when the tip never reached the line before the strip ran out; the
+  // lengths are then lower bounds
+  reached: boolean;
+  overhang: number; // m
+  bendingLength: number; // m, half the overhang
+  flexuralRigidity: number; // N·m (per metre of width)
+  time: number; // Simulated seconds
+}
+
+// Peirce: bending length = overhang · (cos(θ/2) / (8 tan θ))^(1/3), which
+// is half the overhang at this angle
+export const TIP_ANGLE = (41.5 * Math.PI) / 180;
+
+const PLATFORM_HEIGHT = 1;
+const GRAVITY = 9.81;
+const ITERATIONS = 12;
+// The strip is particles, so its overhang grows a row at a time. The test
+// pushes it to each row in turn and reads the tip once the strip is at
+// rest: slower than this RMS speed (m/s), or after the longest wait (s).
+// Air drag is raised so it settles quickly; it does not change the rest shape.
+const SETTLED_SPEED = 0.002;
+const MAX_SETTLE_TIME = 3;
+const SETTLE_DRAG = 0.9;
+// Part of the strip that stays on the platform to hold it
+const MIN_SUPPORTED = 0.02;
+
+// A flat strip lying along +X on the platform, its leading edge at the
+// platform's edge (x = 0), and the vertices of that edge. A regular grid
+// with alternating diagonals, so the strip bends the same at every row.
+export const createCantileverStrip = (settings: CantileverSettings): { mesh: ClothMesh; tip: number[] } => {
+  const { stripLength: length, stripWidth: width, resolution } = settings;
+  const across = Math.max(2, Math.round((width * resolution) / length));
+  const cols = resolution + 1;
+  const rows = across + 1;
+  const points: number[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) points.push((c / resolution - 1) * length, (r / across - 0.5) * width);
+  }
+  const triangles: number[] = [];
+  for (let r = 0; r < across; r++) {
+    for (let c = 0; c < resolution; c++) {
+      const a = r * cols + c, b = a + 1, d = a + cols, e = d + 1;
+      // Counter-clockwise in the pattern plane
+      if ((r + c) % 2 === 0) triangles.push(a, b, e, a, e, d);
+      else triangles.push(a, b, d, b, e, d);
+    }
+  }
+
+  const count = points.length / 2;
+  const positions = new Float32Array(count * 3);
+  const uvs = new Float32Array(count * 2);
+  const tip: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = points[i * 2], z = points[i * 2 + 1];
+    // Pattern y becomes world -z, so the counter-clockwise triangles face up
+    positions.set([x, PLATFORM_HEIGHT, -z], i * 3);
+    uvs.set([x / length + 1, z / width + 0.5], i * 2);
+    if (i % cols === resolution) tip.push(i);
+  }
+
+  const { vertexAreas, structural, bending } = linkFlatMesh(points, triangles);
+  return {
+    mesh: {
+      positions,
+      uvs,
+      indices: new Uint32Array(triangles),
+      vertexAreas,
+      constraints: [structural, bending],
+      handles: [0, 0]
+    },
+    tip
+  };
+};
+
+// Flexural rigidity G = w·g·c³ for areal density w and bending length c
+export const flexuralRigidity = (gsm: number, bendingLength: number) =>
+  (gsm / 1000) * GRAVITY * bendingLength ** 3;
+
+export class CantileverTest {
+  readonly settings: CantileverSettings;
+  readonly solver: ClothSolver;
+  time = 0;
+  reached = false;
+  private readonly gsm: number;
+  private readonly tip: number[];
+  private totalMass = 0;
+  // Rest x of each particle; those behind the edge are held on the platform
+  private readonly restX: Float32Array;
+  private readonly restZ: Float32Array;
+  // Overhangs at which the next row of particles comes to the edge, in order
+  private readonly stops: number[] = [];
+  private stop = 0;
+  private offset = 0; // How far the strip has been pushed (m)
+  private settling = 0; // Seconds held still at the current stop
+  private lastReading: { overhang: number; angle: number } | null = null;
+  private reachedOverhang = 0;
+
+  constructor(material: FabricMaterial, settings: CantileverSettings = DEFAULT_CANTILEVER) {
+    this.settings = { ...settings };
+    this.gsm = material.gsm;
+    const { mesh, tip } = createCantileverStrip(this.settings);
+    this.tip = tip;
+    this.solver = new ClothSolver(mesh.positions, {
+      vertexAreas: mesh.vertexAreas,
+      indices: mesh.indices,
+      method: settings.method,
+      material,
+      iterations: ITERATIONS,
+      drag: SETTLE_DRAG
+    });
+    mesh.constraints.forEach(group => this.solver.addConstraintGroup(group));
+
+    const count = this.solver.count;
+    this.restX = new Float32Array(count);
+    this.restZ = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      this.restX[i] = mesh.positions[i * 3];
+      this.restZ[i] = mesh.positions[i * 3 + 2];
+      this.totalMass += this.solver.masses[i];
+    }
+
+    const minOverhang = this.settings.stripLength / this.settings.resolution;
+    const rows = Array.from(new Set(Array.from(this.restX, x => Math.round(-x * 1e6) / 1e6))).sort((a, b) => a - b);
+    for (const overhang of rows) {
+      if (overhang >= minOverhang && overhang <= this.maxOverhang) this.stops.push(overhang);
+    }
+    this.hold();
+  }
+
+  get overhang() {
+    return this.reached ? this.reachedOverhang : this.offset;
+  }
+
+  private get maxOverhang() {
+    return this.settings.stripLength - MIN_SUPPORTED;
+  }
+
+  get done() {
+    return this.reached || this.stop >= this.stops.length;
+  }
+
+  // 0-1; jumps to 1 when the tip reaches the line
+  get progress() {
+    return this.done ? 1 : this.offset / this.stops[this.stops.length - 1];
+  }
+
+  // Angle of the line from the platform edge to the tip, below horizontal
+  get tipAngle() {
+    const pos = this.solver.positions;
+    let x = 0, y = 0;
+    for (const i of this.tip) {
+      x += pos[i * 3];
+      y += pos[i * 3 + 1];
+    }
+    x /= this.tip.length;
+    y /= this.tip.length;
+    return x > 0 ? Math.atan2(PLATFORM_HEIGHT - y, x) : Math.PI / 2;
+  }
+
+  // Holds the part of the strip still on the platform flat on it, as the
+  // standard's ruler does; the rest hangs free
+  private hold() {
+    for (let i = 0; i < this.solver.count; i++) {
+      const x = this.restX[i] + this.offset;
+      if (x <= 1e-6) this.solver.setPin(i, x, PLATFORM_HEIGHT, this.restZ[i]);
+      else this.solver.releasePin(i);
+    }
+  }
+
+  // Runs up to `seconds` more simulated time; returns whether the test is done
+  advance(seconds: number) {
+    const dt = 1 / 60 / this.settings.substeps;
+    const end = this.time + seconds;
+    while (!this.done && this.time < end) {
+      this.time += dt;
+      const target = this.stops[this.stop];
+      if (this.offset < target) {
+        this.offset = Math.min(target, this.offset + this.settings.slideSpeed * dt);
+        this.settling = 0;
+      } else {
+        this.settling += dt;
+      }
+      this.hold();
+      this.solver.step(dt);
+      if (this.offset >= target) this.read(dt);
+    }
+    return this.done;
+  }
+
+  // Once the strip has come to rest at a stop, checks the tip against the
+  // line. The crossing is interpolated between the last stop short of the
+  // line and the first on or past it.
+  private read(dt: number) {
+    const meanSquareSpeed = (2 * this.solver.kineticEnergy(dt)) / this.totalMass;
+    if (meanSquareSpeed > SETTLED_SPEED * SETTLED_SPEED && this.settling < MAX_SETTLE_TIME) return;
+
+    const overhang = this.offset;
+    const angle = this.tipAngle;
+    const last = this.lastReading;
+    if (angle < TIP_ANGLE) {
+      this.lastReading = { overhang, angle };
+      this.stop++;
+      return;
+    }
+    this.reachedOverhang = last && angle > last.angle
+      ? last.overhang + ((overhang - last.overhang) * (TIP_ANGLE - last.angle)) / (angle - last.angle)
+      : overhang;
+    this.reached = true;
+  }
+
+  // Runs until the tip reaches the line or the strip runs out
+  run() {
+    this.advance(Infinity);
+    return this.result();
+  }
+
+  result(): CantileverResult {
+    const overhang = this.overhang;
+    const bendingLength = overhang / 2;
+    return {
+      reached: this.reached,
+      overhang,
+      bendingLength,
+      flexuralRigidity: flexuralRigidity(this.gsm, bendingLength),
+      time: this.time
+    };
+  }
+}
+
+// --- Fitting ---
+
+export interface BendingFitResult {
+  flexuralRigidity: number; // µN·m, best material setting found
+  bendingLength: number; // m, what the simulation gives with it
+  // False when no trial came within the tolerance of the target
+  matched: boolean;
+  trials: number;
+}
+
+// Bending lengths within this of the target (m) count as a match
+export const FIT_TOLERANCE = 0.001;
+const FIT_MAX_TRIALS = 10;
+// Furthest one trial may scale the rigidity from the last
+const FIT_MAX_STEP = 8;
+
+interface FitTrial {
+  rigidity: number;
+  bendingLength: number;
+}
+
+// Searches the material's flexural rigidity for the value whose simulated
+// bending length matches a measured one (m). Bending length goes roughly as
+// the cube root of rigidity: trials start from the rigidity the target
+// implies and scale it by the cube of the length ratio until the target is
+// bracketed, then interpolate on a log-log scale between the brackets. Runs
+// one cantilever test at a time so callers can step it a slice at a time.
+export class BendingFit {
+  readonly target: number;
+  readonly settings: CantileverSettings;
+  trials = 0;
+  private readonly material: FabricMaterial;
+  private best: { flexuralRigidity: number; bendingLength: number } | null = null;
+  // Closest trials either side of the target
+  private below: FitTrial | null = null;
+  private above: FitTrial | null = null;
+  private finished = false;
+  private rigidity: number; // µN·m, of the running trial
+  private test: CantileverTest;
+
+  constructor(material: FabricMaterial, target: number, settings: CantileverSettings = DEFAULT_CANTILEVER) {
+    this.material = material;
+    this.target = target;
+    this.settings = { ...settings };
+    this.rigidity = flexuralRigidity(material.gsm, target) * 1e6;
+    this.test = this.startTrial();
+  }
+
+  get done() {
+    return this.finished;
+  }
+
+  // 0-1, by trials (a trial's own progress fills in between)
+  get progress() {
+    return this.finished ? 1 : Math.min(1, (this.trials + this.test.progress) / FIT_MAX_TRIALS);
+  }
+
+  private startTrial() {
+    return new CantileverTest({ ...this.material, flexuralRigidity: this.rigidity }, this.settings);
+  }
+
+  private next({ bendingLength }: CantileverResult) {
+    this.trials++;
+    const error = Math.abs(bendingLength - this.target);
+    if (!this.best || error < Math.abs(this.best.bendingLength - this.target)) {
+      this.best = { flexuralRigidity: this.rigidity, bendingLength };
+    }
+    if (error <= FIT_TOLERANCE || this.trials >= FIT_MAX_TRIALS) {
+      this.finished = true;
+      return;
+    }
+
+    const trial = { rigidity: this.rigidity, bendingLength };
+    if (bendingLength < this.target) {
+      if (!this.below || this.rigidity > this.below.rigidity) this.below = trial;
+    } else if (!this.above || this.rigidity < this.above.rigidity) {
+      this.above = trial;
+    }
+
+    const { below, above } = this;
+    if (below && above) {
+      const t = Math.log(this.target / below.bendingLength) / Math.log(above.bendingLength / below.bendingLength);
+      // Keep clear of the brackets so a flat stretch cannot stall the search
+      const f = Math.min(0.9, Math.max(0.1, Number.isFinite(t) ? t : 0.5));
+      this.rigidity = below.rigidity * (above.rigidity / below.rigidity) ** f;
+    } else {
+      const scale = (this.target / Math.max(bendingLength, 1e-6)) ** 3;
+      this.rigidity *= Math.min(FIT_MAX_STEP, Math.max(1 / FIT_MAX_STEP, scale));
+    }
+    this.test = this.startTrial();
+  }
+
+  // Runs up to `seconds` more simulated time across trials; returns whether
+  // the fit is done
+  advance(seconds: number) {
+    let remaining = seconds;
+    while (!this.finished && remaining > 0) {
+      const start = this.test.time;
+      this.test.advance(remaining);
+      remaining -= this.test.time - start;
+      if (this.test.done) this.next(this.test.result());
+    }
+    return this.finished;
+  }
+
+  run() {
+    this.advance(Infinity);
+    return this.result();
+  }
+
+  result(): BendingFitResult {
+    const best = this.best ?? { flexuralRigidity: this.rigidity, bendingLength: NaN };
+    return {
+      ...best,
+      matched: Math.abs(best.bendingLength - this.target) <= FIT_TOLERANCE,
+      trials: this.trials
+    };
+  }
+}
+
+// --- Export ---
+
+export const cantileverResultToJson = (
+  result: CantileverResult,
+  material: FabricMaterial,
+  settings: CantileverSettings
+) => JSON.stringify({ test: 'cantilever', settings, material, result }, null, 2);
@@ -0,0 +1,145 @@
+import type { ConstraintGroup, Vec3 } from './ClothSolver';
+
+// Everything the solver and renderer need for one piece of cloth, whether a
+// square swatch or sewn garment panels
+export interface ClothMesh {
+  positions: Float32Array;
+  uvs: Float32Array;
+  indices: Uint32Array;
+  vertexAreas: Float32Array;
+  constraints: ConstraintGroup[];
+  // Particles the left and right hand pinches grab (top-left, top-right)
+  handles: [number, number];
+}
+
+export interface GridCloth extends ClothMesh {
+  cols: number;
+  rows: number;
+}
+
+// Helper to get index in 1D array from 2D grid coordinates
+export const getGridIndex = (x: number, y: number, cols: number) => y * cols + x;
+
+// Builds a flat, horizontal grid of (resolution + 1)^2 particles centred on
+// `origin`, plus the structural, bending and reinforcement constraint groups
+// the solver expects. Vertex order matches THREE.PlaneGeometry so the same
+// buffers can drive a planeGeometry mesh directly. Link directions are
+// recorded in the flat layout so the material can weight them by grain.
+export const createGridCloth = (
+  resolution: number,
+  width: number,
+  height: number,
+  origin: Vec3
+): GridCloth => {
+  const cols = resolution + 1;
+  const rows = resolution + 1;
+  const positions = new Float32Array(cols * rows * 3);
+  const uvs = new Float32Array(cols * rows * 2);
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = getGridIndex(x, y, cols);
+      positions[i * 3] = (x / resolution) * width - width / 2 + origin[0];
+      positions[i * 3 + 1] = origin[1];
+      positions[i * 3 + 2] = (y / resolution) * height - height / 2 + origin[2];
+      // Same texture coordinates as THREE.PlaneGeometry
+      uvs[i * 2] = x / resolution;
+      uvs[i * 2 + 1] = 1 - y / resolution;
+    }
+  }
+
+  // Each vertex carries a quarter of every cell it touches
+  const cellArea = (width / resolution) * (height / resolution);
+  const vertexAreas = new Float32Array(cols * rows);
+  for (let y = 0; y < resolution; y++) {
+    for (let x = 0; x < resolution; x++) {
+      vertexAreas[getGridIndex(x, y, cols)] += cellArea / 4;
+      vertexAreas[getGridIndex(x + 1, y, cols)] += cellArea / 4;
+      vertexAreas[getGridIndex(x, y + 1, cols)] += cellArea / 4;
+      vertexAreas[getGridIndex(x + 1, y + 1, cols)] += cellArea / 4;
+    }
+  }
+
+  const structural: ConstraintGroup = { name: 'structural', kind: 'stretch', data: [], angles: [], strength: 1 };
+  const bending: ConstraintGroup = { name: 'bending', kind: 'bending', data: [], angles: [], strength: 1 };
+  const reinforcement: ConstraintGroup = { name: 'reinforcement', kind: 'reinforcement', data: [], angles: [], strength: 1 };
+
+  const addConstraint = (group: ConstraintGroup, p1: number, p2: number) => {
+    const x1 = (p1 % cols) * (width / resolution);
+    const y1 = Math.floor(p1 / cols) * (height / resolution);
+    const x2 = (p2 % cols) * (width / resolution);
+    const y2 = Math.floor(p2 / cols) * (height / resolution);
+    const dist = Math.sqrt((x1 - x2) ** 2 + (y1 - y2) ** 2);
+    group.data.push(p1, p2, dist);
+    group.angles.push(Math.atan2(y2 - y1, x2 - x1));
+  };
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = getGridIndex(x, y, cols);
+
+      // --- 1. Structural (Nearest Neighbors) ---
+      if (x < cols - 1) addConstraint(structural, i, getGridIndex(x + 1, y, cols));
+      if (y < rows - 1) addConstraint(structural, i, getGridIndex(x, y + 1, cols));
+
+      // --- 2. Shear (Diagonals) ---
+      if (x < cols - 1 && y < rows - 1) {
+        addConstraint(structural, i, getGridIndex(x + 1, y + 1, cols));
+        addConstraint(structural, getGridIndex(x + 1, y, cols), getGridIndex(x, y + 1, cols));
+      }
+
+      // --- 3. Bending (Skip 1 and 2) ---
+      if (x < cols - 2) addConstraint(bending, i, getGridIndex(x + 2, y, cols));
+      if (y < rows - 2) addConstraint(bending, i, getGridIndex(x, y + 2, cols));
+      if (x < cols - 2 && y < rows - 2) {
+        addConstraint(bending, i, getGridIndex(x + 2, y + 2, cols));
+      }
+    }
+  }
+
+  // --- 4. Reinforcement (Distributed Mesh Structure) ---
+  const stride = Math.max(3, Math.floor(resolution / 6));
+
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = getGridIndex(x, y, cols);
+
+      // Orthogonal long-range
+      if (x < cols - stride) addConstraint(reinforcement, i, getGridIndex(x + stride, y, cols));
+      if (y < rows - stride) addConstraint(reinforcement, i, getGridIndex(x, y + stride, cols));
+
+      // Diagonal long-range
+      if (x < cols - stride && y < rows - stride) {
+        addConstraint(reinforcement, i, getGridIndex(x + stride, y + stride, cols));
+      }
+      if (x >= stride && y < rows - stride) {
+        addConstraint(reinforcement, i, getGridIndex(x - stride, y + stride, cols));
+      }
+    }
+  }
+
+  // Two triangles per cell, same winding as THREE.PlaneGeometry
+  const indices = new Uint32Array(resolution * resolution * 6);
+  let t = 0;
+  for (let y = 0; y < resolution; y++) {
+    for (let x = 0; x < resolution; x++) {
+      const a = getGridIndex(x, y, cols);
+      const b = getGridIndex(x, y + 1, cols);
+      const c = getGridIndex(x + 1, y + 1, cols);
+      const d = getGridIndex(x + 1, y, cols);
+      indices[t++] = a; indices[t++] = b; indices[t++] = d;
+      indices[t++] = b; indices[t++] = c; indices[t++] = d;
+    }
+  }
+
+  return {
+    cols,
+    rows,
+    positions,
+    uvs,
+    indices,
+    vertexAreas,
+    constraints: [structural, bending, reinforcement],
+    handles: [getGridIndex(0, 0, cols), getGridIndex(cols - 1, 0, cols)]
+  };
+};
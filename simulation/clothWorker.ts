@@ -0,0 +1,78 @@
+import { ClothSolver } from './ClothSolver';
+import { computeVertexNormals } from './clothNormals';
+import type { TopologyUpdate, WorkerRequest, WorkerResponse } from './workerProtocol';
+
+// Hosts a ClothSolver off the main thread. Each 'step' request advances the
+// solver and publishes positions and normals into the shared buffer.
+
+let solver: ClothSolver | null = null;
+let topologyVersion = 0;
+let sharedPositions: Float32Array | null = null;
+let sharedPrevious: Float32Array | null = null;
+let sharedNormals: Float32Array | null = null;
+// Particles pinned by the last request
+let pinned = new Set<number>();
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    solver = new ClothSolver(msg.positions, {
+      vertexAreas: msg.vertexAreas,
+      indices: msg.indices,
+      capacity: msg.capacity
+    });
+    msg.constraints.forEach(group => solver!.addConstraintGroup(group));
+    topologyVersion = solver.topologyVersion;
+
+    const floats = msg.capacity * 3;
+    sharedPositions = new Float32Array(msg.buffer, 0, floats);
+    sharedPrevious = new Float32Array(msg.buffer, floats * 4, floats);
+    sharedNormals = new Float32Array(msg.buffer, floats * 8, floats);
+    return;
+  }
+
+  if (!solver || !sharedPositions || !sharedPrevious || !sharedNormals) return;
+
+  if (msg.settings) solver.configure(msg.settings);
+
+  // Every request carries the full pin list; only the differences are
+  // applied, so unchanged pins do not wake a sleeping cloth
+  const pins = new Set<number>();
+  for (let i = 0; i < msg.pins.length; i += 4) {
+    pins.add(msg.pins[i]);
+    solver.setPin(msg.pins[i], msg.pins[i + 1], msg.pins[i + 2], msg.pins[i + 3]);
+  }
+  pinned.forEach(index => {
+    if (!pins.has(index)) solver!.releasePin(index);
+  });
+  pinned = pins;
+
+  const slept = solver.asleep;
+  for (let s = 0; s < msg.steps; s++) {
+    if (s === msg.steps - 1) sharedPrevious.set(solver.positions);
+    for (let sub = 0; sub < msg.substeps; sub++) solver.step(msg.dt);
+  }
+
+  let topology: TopologyUpdate | undefined;
+  if (solver.topologyVersion !== topologyVersion) {
+    topologyVersion = solver.topologyVersion;
+    // Split-off particles have no earlier state to blend from
+    sharedPrevious.set(solver.positions);
+    topology = {
+      version: topologyVersion,
+      count: solver.count,
+      indices: solver.indices.slice(),
+      origins: solver.origins.slice(0, solver.count)
+    };
+  }
+
+  // Slept through: the shared buffer already holds this state
+  if (!slept || !solver.asleep) {
+    sharedPositions.set(solver.positions);
+    computeVertexNormals(sharedPositions, solver.indices, sharedNormals);
+  }
+
+  const response: WorkerResponse = { type: 'stepped', stats: solver.stats, topology };
+  self.postMessage(response);
+};
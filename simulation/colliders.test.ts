@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { PlaneCollider, colliderDistance, colliderOrigin, prepareCollider, translateCollider } from './colliders';
+
+const normal = new Float64Array(3);
+
+describe('plane colliders', () => {
+  // Normal twice unit length: the plane is still y = offset
+  const plane: PlaneCollider = { id: 'plane', kind: 'plane', normal: [0, 2, 0], offset: 1, staticFriction: 0.5, kineticFriction: 0.4 };
+
+  it('measures distance along the unit normal', () => {
+    expect(colliderDistance(prepareCollider(plane), 0, 3, 0, normal)).toBeCloseTo(2);
+    expect(Array.from(normal)).toEqual([0, 1, 0]);
+  });
+
+  it('puts its origin on the contact plane', () => {
+    const origin = colliderOrigin(plane);
+    expect(origin).toEqual([0, 1, 0]);
+    expect(colliderDistance(prepareCollider(plane), ...origin, normal)).toBeCloseTo(0);
+  });
+
+  it('moves its origin and contact plane together', () => {
+    const moved = translateCollider(plane, 0.3, 0.5, 0);
+    const origin = colliderOrigin(moved);
+    expect(origin[1]).toBeCloseTo(1.5);
+    expect(colliderDistance(prepareCollider(moved), ...origin, normal)).toBeCloseTo(0);
+  });
+});
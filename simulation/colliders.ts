@@ -0,0 +1,300 @@
+// Rigid collider shapes the cloth can rest on, and their distance queries.
+// Shapes are plain data so they can be posted to a worker or saved to a file.
+
+import type { Vec3 } from './ClothSolver';
+import { TriangleBVH, buildTriangleBVH, meshDistance } from './meshCollider';
+
+interface ColliderBase {
+  id?: string;
+  // Coulomb coefficients, averaged with the fabric's own
+  staticFriction: number;
+  kineticFriction: number;
+  // Extra distance kept between the cloth and the surface (solver default if unset)
+  margin?: number;
+}
+
+export interface SphereCollider extends ColliderBase {
+  kind: 'sphere';
+  center: Vec3;
+  radius: number;
+}
+
+// Segment from `start` to `end`, inflated by `radius` (shoulders, arms, rails)
+export interface CapsuleCollider extends ColliderBase {
+  kind: 'capsule';
+  start: Vec3;
+  end: Vec3;
+  radius: number;
+}
+
+export interface BoxCollider extends ColliderBase {
+  kind: 'box';
+  center: Vec3;
+  halfExtents: Vec3;
+  rotation: Vec3; // Euler angles in radians, XYZ order (same as THREE.Euler)
+}
+
+// Infinite plane: points with dot(normal, p) < offset are inside
+export interface PlaneCollider extends ColliderBase {
+  kind: 'plane';
+  normal: Vec3;
+  offset: number;
+}
+
+// Closed triangle mesh (mannequin, product model) in world space. The BVH is
+// built once on load so preparing and posting the collider stays cheap.
+export interface MeshCollider extends ColliderBase {
+  kind: 'mesh';
+  name: string; // Source file name, shown in the UI
+  vertices: Float32Array;
+  indices: Uint32Array;
+  bvh: TriangleBVH;
+}
+
+export type Collider = SphereCollider | CapsuleCollider | BoxCollider | PlaneCollider | MeshCollider;
+export type ColliderKind = Collider['kind'];
+
+// Collider with derived data cached for fast per-particle queries
+export interface PreparedCollider {
+  collider: Collider;
+  // Box: row-major local-to-world rotation; plane: unit normal in [0..2]
+  basis: Float64Array;
+  // Smallest half-size of the solid; particles moving further than this in a
+  // step can tunnel through and need a swept test
+  thinness: number;
+}
+
+// Row-major rotation matrix for XYZ Euler angles (matches THREE.Matrix4.makeRotationFromEuler)
+const eulerToMatrix = ([x, y, z]: Vec3, out: Float64Array) => {
+  const a = Math.cos(x), b = Math.sin(x);
+  const c = Math.cos(y), d = Math.sin(y);
+  const e = Math.cos(z), f = Math.sin(z);
+  const ae = a * e, af = a * f, be = b * e, bf = b * f;
+
+  out[0] = c * e;        out[1] = -c * f;       out[2] = d;
+  out[3] = af + be * d;  out[4] = ae - bf * d;  out[5] = -b * c;
+  out[6] = bf - ae * d;  out[7] = be + af * d;  out[8] = a * c;
+  return out;
+};
+
+// A plane holds the points p with unit(normal) · p = offset, whatever the
+// normal's length; distance, origin and translation all use this
+export const planeNormal = ({ normal: [nx, ny, nz] }: PlaneCollider): Vec3 => {
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+  return [nx / len, ny / len, nz / len];
+};
+
+export const prepareCollider = (collider: Collider): PreparedCollider => {
+  const basis = new Float64Array(9);
+  if (collider.kind === 'box') {
+    eulerToMatrix(collider.rotation, basis);
+  } else if (collider.kind === 'plane') {
+    basis.set(planeNormal(collider));
+  }
+  const thinness =
+    collider.kind === 'box' ? Math.min(...collider.halfExtents) :
+    collider.kind === 'plane' ? Infinity :
+    collider.kind === 'mesh' ? meshThinness(collider) :
+    collider.radius;
+  return { collider, basis, thinness };
+};
+
+// Signed distance from a point to the collider surface (negative inside).
+// Writes the outward surface normal at the closest point into `normal`.
+// Mesh colliders only search up to `maxDistance` and report that value for
+// anything further away.
+export const colliderDistance = (
+  prepared: PreparedCollider,
+  x: number,
+  y: number,
+  z: number,
+  normal: Float64Array,
+  maxDistance = Infinity
+): number => {
+  const { collider, basis } = prepared;
+
+  switch (collider.kind) {
+    case 'sphere': {
+      return pointDistance(x, y, z, collider.center[0], collider.center[1], collider.center[2], collider.radius, normal);
+    }
+
+    case 'capsule': {
+      const [ax, ay, az] = collider.start;
+      const abx = collider.end[0] - ax;
+      const aby = collider.end[1] - ay;
+      const abz = collider.end[2] - az;
+      const lenSq = abx * abx + aby * aby + abz * abz;
+      const t = lenSq > 0 ? Math.min(1, Math.max(0, ((x - ax) * abx + (y - ay) * aby + (z - az) * abz) / lenSq)) : 0;
+      return pointDistance(x, y, z, ax + abx * t, ay + aby * t, az + abz * t, collider.radius, normal);
+    }
+
+    case 'plane': {
+      normal[0] = basis[0];
+      normal[1] = basis[1];
+      normal[2] = basis[2];
+      return basis[0] * x + basis[1] * y + basis[2] * z - collider.offset;
+    }
+
+    case 'mesh': {
+      return meshDistance(collider.vertices, collider.indices, collider.bvh, x, y, z, normal, maxDistance);
+    }
+
+    case 'box': {
+      // Into box space: local = R^T (p - center)
+      const px = x - collider.center[0];
+      const py = y - collider.center[1];
+      const pz = z - collider.center[2];
+      const lx = basis[0] * px + basis[3] * py + basis[6] * pz;
+      const ly = basis[1] * px + basis[4] * py + basis[7] * pz;
+      const lz = basis[2] * px + basis[5] * py + basis[8] * pz;
+
+      const [hx, hy, hz] = collider.halfExtents;
+      const qx = Math.abs(lx) - hx;
+      const qy = Math.abs(ly) - hy;
+      const qz = Math.abs(lz) - hz;
+
+      let nx = 0, ny = 0, nz = 0, dist: number;
+      if (qx > 0 || qy > 0 || qz > 0) {
+        // Outside: direction to the closest point on the box
+        nx = Math.max(qx, 0) * Math.sign(lx);
+        ny = Math.max(qy, 0) * Math.sign(ly);
+        nz = Math.max(qz, 0) * Math.sign(lz);
+        dist = Math.sqrt(nx * nx + ny * ny + nz * nz);
+        nx /= dist; ny /= dist; nz /= dist;
+      } else {
+        // Inside: leave through the nearest face
+        dist = Math.max(qx, qy, qz);
+        if (dist === qx) nx = Math.sign(lx) || 1;
+        else if (dist === qy) ny = Math.sign(ly) || 1;
+        else nz = Math.sign(lz) || 1;
+      }
+
+      // Back to world space: n = R n_local
+      normal[0] = basis[0] * nx + basis[1] * ny + basis[2] * nz;
+      normal[1] = basis[3] * nx + basis[4] * ny + basis[5] * nz;
+      normal[2] = basis[6] * nx + basis[7] * ny + basis[8] * nz;
+      return dist;
+    }
+  }
+};
+
+// Distance from a point to a sphere of `radius` around (cx, cy, cz)
+const pointDistance = (
+  x: number, y: number, z: number,
+  cx: number, cy: number, cz: number,
+  radius: number,
+  normal: Float64Array
+) => {
+  const dx = x - cx;
+  const dy = y - cy;
+  const dz = z - cz;
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (dist < 1e-9) {
+    normal[0] = 0; normal[1] = 1; normal[2] = 0;
+  } else {
+    normal[0] = dx / dist; normal[1] = dy / dist; normal[2] = dz / dist;
+  }
+  return dist - radius;
+};
+
+// Meshes have no cheap thickness bound; use half the smallest extent of the
+// root box, which is right for flat models and conservative for bodies
+const meshThinness = ({ bvh }: MeshCollider) => {
+  const b = bvh.bounds;
+  if (b.length < 6) return Infinity;
+  return Math.min(b[3] - b[0], b[4] - b[1], b[5] - b[2]) / 2;
+};
+
+export const createMeshCollider = (
+  id: string,
+  name: string,
+  vertices: Float32Array,
+  indices: Uint32Array
+): MeshCollider => ({
+  id,
+  kind: 'mesh',
+  name,
+  vertices,
+  indices,
+  bvh: buildTriangleBVH(vertices, indices),
+  staticFriction: 0.8,
+  kineticFriction: 0.6
+});
+
+// Reference point that moves with the collider; pins attached to it keep
+// their offset from here
+export const colliderOrigin = (collider: Collider): Vec3 => {
+  switch (collider.kind) {
+    case 'sphere':
+    case 'box':
+      return [...collider.center];
+    case 'capsule':
+      return [
+        (collider.start[0] + collider.end[0]) / 2,
+        (collider.start[1] + collider.end[1]) / 2,
+        (collider.start[2] + collider.end[2]) / 2
+      ];
+    case 'plane': {
+      const [nx, ny, nz] = planeNormal(collider);
+      return [nx * collider.offset, ny * collider.offset, nz * collider.offset];
+    }
+    case 'mesh': {
+      const b = collider.bvh.bounds;
+      return b.length < 6 ? [0, 0, 0] : [(b[0] + b[3]) / 2, (b[1] + b[4]) / 2, (b[2] + b[5]) / 2];
+    }
+  }
+};
+
+// Copy of the collider moved by (dx, dy, dz). Meshes shift their vertices
+// and BVH boxes rather than rebuilding the tree.
+export const translateCollider = (collider: Collider, dx: number, dy: number, dz: number): Collider => {
+  const shift = ([x, y, z]: Vec3): Vec3 => [x + dx, y + dy, z + dz];
+  switch (collider.kind) {
+    case 'sphere':
+    case 'box':
+      return { ...collider, center: shift(collider.center) };
+    case 'capsule':
+      return { ...collider, start: shift(collider.start), end: shift(collider.end) };
+    case 'plane': {
+      const [nx, ny, nz] = planeNormal(collider);
+      return { ...collider, offset: collider.offset + nx * dx + ny * dy + nz * dz };
+    }
+    case 'mesh': {
+      const vertices = collider.vertices.slice();
+      for (let i = 0; i < vertices.length; i += 3) {
+        vertices[i] += dx;
+        vertices[i + 1] += dy;
+        vertices[i + 2] += dz;
+      }
+      const bounds = collider.bvh.bounds.slice();
+      for (let i = 0; i < bounds.length; i += 3) {
+        bounds[i] += dx;
+        bounds[i + 1] += dy;
+        bounds[i + 2] += dz;
+      }
+      return { ...collider, vertices, bvh: { ...collider.bvh, bounds } };
+    }
+  }
+};
+
+// --- Presets for the scene editor ---
+
+export type ColliderPreset = 'sphere' | 'table' | 'shoulders' | 'hanger' | 'floor';
+
+export const FLOOR_HEIGHT = -2.5;
+
+// Static friction keeps each preset's former friction; kinetic is 80% of it
+export const createColliderPreset = (preset: ColliderPreset, id: string): Collider => {
+  switch (preset) {
+    case 'sphere':
+      return { id, kind: 'sphere', center: [0, 0, 0], radius: 1, staticFriction: 1, kineticFriction: 0.8 };
+    case 'table':
+      return { id, kind: 'box', center: [0, -0.05, 0], halfExtents: [1.5, 0.05, 1], rotation: [0, 0, 0], staticFriction: 0.8, kineticFriction: 0.64 };
+    case 'shoulders':
+      return { id, kind: 'capsule', start: [-0.9, 0.5, 0], end: [0.9, 0.5, 0], radius: 0.3, staticFriction: 0.6, kineticFriction: 0.48 };
+    case 'hanger':
+      return { id, kind: 'capsule', start: [-1.2, 1.5, 0], end: [1.2, 1.5, 0], radius: 0.05, staticFriction: 0.4, kineticFriction: 0.32, margin: 0.05 };
+    case 'floor':
+      return { id, kind: 'plane', normal: [0, 1, 0], offset: FLOOR_HEIGHT, staticFriction: 0.1, kineticFriction: 0.08, margin: 0 };
+  }
+};
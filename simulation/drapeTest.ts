@@ -0,0 +1,302 @@
+// Virtual Cusick drape tester (BS 5058 / ISO 9073-9). A circular specimen is
+// clamped between two smaller coaxial disks and left to hang; the drape
+// coefficient is the share of the ring around the disks that the specimen's
+// shadow still covers once it has settled: 100 % for a specimen that stays
+// flat, near 0 % for one that falls straight down. Headless, so it can run
+// in the app, a worker or Node.
+// The solver's stiffness depends on mesh density and step length, so results
+// are only comparable between runs with the same resolution, substeps and
+// method; all three go into the exported report.
+
+import { ClothSolver, SolverMethod } from './ClothSolver';
+import type { FabricMaterial } from './FabricMaterial';
+import type { ClothMesh } from './clothGrid';
+import { linkFlatMesh } from './pattern';
+import { Vec2, triangulatePolygon } from './triangulate';
+
+export interface DrapeTestSettings {
+  specimenDiameter: number; // m (the standard sizes are 0.24, 0.30 and 0.36)
+  diskDiameter: number; // m (0.18 in the standard)
+  resolution: number; // Triangles across the specimen
+  substeps: number; // Solver steps per 1/60 s
+  method: SolverMethod;
+  maxTime: number; // Simulated seconds to wait for the specimen to settle
+}
+
+export const DEFAULT_DRAPE_TEST: DrapeTestSettings = {
+  specimenDiameter: 0.3,
+  diskDiameter: 0.18,
+  resolution: 20,
+  substeps: 4,
+  method: 'pbd',
+  maxTime: 12
+};
+
+export const SPECIMEN_DIAMETERS = [0.24, 0.3, 0.36];
+
+export interface DrapeTestResult {
+  drapeCoefficient: number; // 0-1
+  nodes: number; // Folds around the specimen
+  shadowArea: number; // Projected area of the draped specimen (m²)
+  // Distance from the axis to the shadow's edge in each of PROFILE_BINS
+  // directions, counter-clockwise from +X (m)
+  profile: number[];
+  settled: boolean; // False when maxTime ran out first
+  time: number; // Simulated seconds
+}
+
+// The specimen hangs in free space with its disks at this height (m)
+const DISK_HEIGHT = 1;
+const ITERATIONS = 12;
+// Settled once the RMS particle speed stays below this (m/s)...
+const SETTLED_SPEED = 0.005;
+// ...checked this often (s), and not before the first check
+const SETTLE_CHECK = 0.5;
+
+export const PROFILE_BINS = 72;
+// Shadow raster cells across the specimen diameter
+const SHADOW_GRID = 400;
+// Profiles flatter than this (m) have no folds to count
+const MIN_FOLD_DEPTH = 0.002;
+
+// A flat, horizontal disc of cloth centred on the axis, and the vertices the
+// support disks clamp
+export const createDrapeSpecimen = (settings: DrapeTestSettings): { mesh: ClothMesh; clamped: number[] } => {
+  const radius = settings.specimenDiameter / 2;
+  const spacing = settings.specimenDiameter / settings.resolution;
+  const sides = Math.max(12, Math.round((2 * Math.PI * radius) / spacing));
+  const outline: Vec2[] = [];
+  for (let k = 0; k < sides; k++) {
+    const angle = (k / sides) * Math.PI * 2;
+    outline.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+  }
+
+  const { points, triangles } = triangulatePolygon(outline, spacing);
+  const count = points.length / 2;
+  const positions = new Float32Array(count * 3);
+  const uvs = new Float32Array(count * 2);
+  const clamped: number[] = [];
+  const diskRadius = settings.diskDiameter / 2;
+  for (let i = 0; i < count; i++) {
+    const x = points[i * 2], z = points[i * 2 + 1];
+    // Pattern y becomes world -z, so the counter-clockwise triangles face up
+    positions.set([x, DISK_HEIGHT, -z], i * 3);
+    uvs.set([x / settings.specimenDiameter + 0.5, z / settings.specimenDiameter + 0.5], i * 2);
+    if (Math.hypot(x, z) <= diskRadius) clamped.push(i);
+  }
+
+  const { vertexAreas, structural, bending } = linkFlatMesh(points, triangles);
+  return {
+    mesh: {
+      positions,
+      uvs,
+      indices: new Uint32Array(triangles),
+      vertexAreas,
+      constraints: [structural, bending],
+      handles: [0, 0]
+    },
+    clamped
+  };
+};
+
+export class DrapeTest {
+  readonly settings: DrapeTestSettings;
+  readonly solver: ClothSolver;
+  time = 0;
+  settled = false;
+  private totalMass = 0;
+  private nextCheck = SETTLE_CHECK;
+
+  constructor(material: FabricMaterial, settings: DrapeTestSettings = DEFAULT_DRAPE_TEST) {
+    this.settings = { ...settings };
+    const { mesh, clamped } = createDrapeSpecimen(this.settings);
+    this.solver = new ClothSolver(mesh.positions, {
+      vertexAreas: mesh.vertexAreas,
+      indices: mesh.indices,
+      method: settings.method,
+      material,
+      iterations: ITERATIONS,
+      pins: [{ id: 'disk', name: 'Support disk', vertices: clamped }]
+    });
+    mesh.constraints.forEach(group => this.solver.addConstraintGroup(group));
+    for (let i = 0; i < this.solver.count; i++) this.totalMass += this.solver.masses[i];
+  }
+
+  get done() {
+    return this.settled || this.time >= this.settings.maxTime;
+  }
+
+  // 0-1; jumps to 1 when the specimen settles early
+  get progress() {
+    return this.done ? 1 : this.time / this.settings.maxTime;
+  }
+
+  // Runs up to `seconds` more simulated time; returns whether the test is done
+  advance(seconds: number) {
+    const dt = 1 / 60 / this.settings.substeps;
+    const end = Math.min(this.time + seconds, this.settings.maxTime);
+    while (!this.done && this.time < end) {
+      this.solver.step(dt);
+      this.time += dt;
+      if (this.time >= this.nextCheck) {
+        this.nextCheck += SETTLE_CHECK;
+        const meanSquareSpeed = (2 * this.solver.kineticEnergy(dt)) / this.totalMass;
+        this.settled = meanSquareSpeed < SETTLED_SPEED * SETTLED_SPEED;
+      }
+    }
+    return this.done;
+  }
+
+  // Runs until settled or out of time
+  run() {
+    this.advance(Infinity);
+    return this.result();
+  }
+
+  result(): DrapeTestResult {
+    const measured = measureDrape(this.solver.positions, this.solver.indices, this.settings);
+    return { ...measured, settled: this.settled, time: this.time };
+  }
+}
+
+// Marks the cells of a `grid` x `grid` raster on the ground (x, z) that the
+// triangles' projection covers; cell (i, j) spans x from originX + i * cell
+// and z from originZ + j * cell. Overlapping folds count once.
+export const rasterizeShadow = (
+  positions: Float32Array,
+  indices: Uint32Array,
+  originX: number,
+  originZ: number,
+  cell: number,
+  grid: number
+) => {
+  const covered = new Uint8Array(grid * grid);
+  const toCellX = (v: number) => Math.floor((v - originX) / cell);
+  const toCellZ = (v: number) => Math.floor((v - originZ) / cell);
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const ax = positions[indices[t] * 3], az = positions[indices[t] * 3 + 2];
+    const bx = positions[indices[t + 1] * 3], bz = positions[indices[t + 1] * 3 + 2];
+    const cx = positions[indices[t + 2] * 3], cz = positions[indices[t + 2] * 3 + 2];
+    const area = (bx - ax) * (cz - az) - (cx - ax) * (bz - az);
+    if (Math.abs(area) < 1e-12) continue;
+
+    const i0 = Math.max(0, toCellX(Math.min(ax, bx, cx)));
+    const i1 = Math.min(grid - 1, toCellX(Math.max(ax, bx, cx)));
+    const j0 = Math.max(0, toCellZ(Math.min(az, bz, cz)));
+    const j1 = Math.min(grid - 1, toCellZ(Math.max(az, bz, cz)));
+    for (let j = j0; j <= j1; j++) {
+      const pz = originZ + (j + 0.5) * cell;
+      for (let i = i0; i <= i1; i++) {
+        const px = originX + (i + 0.5) * cell;
+        // Cell centre inside the projected triangle (either winding)
+        const w0 = ((bx - px) * (cz - pz) - (cx - px) * (bz - pz)) * area;
+        const w1 = ((cx - px) * (az - pz) - (ax - px) * (cz - pz)) * area;
+        const w2 = ((ax - px) * (bz - pz) - (bx - px) * (az - pz)) * area;
+        if (w0 >= 0 && w1 >= 0 && w2 >= 0) covered[j * grid + i] = 1;
+      }
+    }
+  }
+  return covered;
+};
+
+// Drape coefficient, fold count and shadow outline of a draped specimen
+// centred on the vertical axis. The shadow is the union of the triangles
+// projected onto the ground, rasterised so overlapping folds count once.
+export const measureDrape = (
+  positions: Float32Array,
+  indices: Uint32Array,
+  settings: DrapeTestSettings
+): Omit<DrapeTestResult, 'settled' | 'time'> => {
+  // Slightly larger than the specimen, in case it stretched
+  const half = (settings.specimenDiameter / 2) * 1.05;
+  const cell = (half * 2) / SHADOW_GRID;
+  const covered = rasterizeShadow(positions, indices, -half, -half, cell, SHADOW_GRID);
+
+  let cells = 0;
+  const profile = new Array<number>(PROFILE_BINS).fill(0);
+  for (let j = 0; j < SHADOW_GRID; j++) {
+    for (let i = 0; i < SHADOW_GRID; i++) {
+      if (!covered[j * SHADOW_GRID + i]) continue;
+      cells++;
+      // World -z is the pattern's +y, so angles run counter-clockwise seen from above
+      const x = (i + 0.5) * cell - half;
+      const y = -((j + 0.5) * cell - half);
+      const angle = Math.atan2(y, x);
+      const bin = Math.floor(((angle + Math.PI * 2) % (Math.PI * 2)) / (Math.PI * 2) * PROFILE_BINS) % PROFILE_BINS;
+      profile[bin] = Math.max(profile[bin], Math.hypot(x, y) + cell / 2);
+    }
+  }
+
+  const shadowArea = cells * cell * cell;
+  const diskArea = Math.PI * (settings.diskDiameter / 2) ** 2;
+  const specimenArea = Math.PI * (settings.specimenDiameter / 2) ** 2;
+  const drapeCoefficient = Math.min(1, Math.max(0, (shadowArea - diskArea) / (specimenArea - diskArea)));
+
+  return { drapeCoefficient, nodes: countNodes(profile), shadowArea, profile };
+};
+
+// Folds show as lobes in the shadow outline: count the times the smoothed
+// profile swings from below its mean to above it, with a dead band so
+// ripples along one lobe are not counted twice
+const countNodes = (profile: number[]) => {
+  const n = profile.length;
+  const smooth = profile.map((_, k) => (profile[(k + n - 1) % n] + profile[k] + profile[(k + 1) % n]) / 3);
+  const max = Math.max(...smooth);
+  const min = Math.min(...smooth);
+  if (max - min < MIN_FOLD_DEPTH) return 0;
+
+  const mean = smooth.reduce((sum, r) => sum + r, 0) / n;
+  const band = (max - min) * 0.1;
+  // Start from the deepest point so the first lobe is not split across the wrap
+  const start = smooth.indexOf(min);
+  let high = false;
+  let nodes = 0;
+  for (let k = 0; k < n; k++) {
+    const r = smooth[(start + k) % n];
+    if (!high && r > mean + band) {
+      high = true;
+      nodes++;
+    } else if (high && r < mean - band) {
+      high = false;
+    }
+  }
+  return nodes;
+};
+
+// --- Export ---
+
+export const drapeResultToJson = (result: DrapeTestResult, material: FabricMaterial, settings: DrapeTestSettings) =>
+  JSON.stringify({ test: 'cusick', settings, material, result }, null, 2);
+
+// One header row and one result row, for pasting next to lab measurements
+export const drapeResultToCsv = (result: DrapeTestResult, material: FabricMaterial, settings: DrapeTestSettings) => {
+  const materialKeys = Object.keys(material) as (keyof FabricMaterial)[];
+  const header = [
+    'specimen_mm',
+    'disk_mm',
+    'resolution',
+    'substeps',
+    'method',
+    ...materialKeys,
+    'drape_coefficient_pct',
+    'nodes',
+    'shadow_area_cm2',
+    'settled',
+    'time_s'
+  ];
+  const row = [
+    Math.round(settings.specimenDiameter * 1000),
+    Math.round(settings.diskDiameter * 1000),
+    settings.resolution,
+    settings.substeps,
+    settings.method,
+    ...materialKeys.map(key => material[key]),
+    (result.drapeCoefficient * 100).toFixed(2),
+    result.nodes,
+    (result.shadowArea * 1e4).toFixed(2),
+    result.settled,
+    result.time.toFixed(2)
+  ];
+  return `${header.join(',')}\n${row.join(',')}\n`;
+};
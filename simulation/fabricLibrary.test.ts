@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FABRIC } from './FabricMaterial';
+import { parseFabricCatalogue } from './fabricLibrary';
+
+const HEADER = 'sku,name,composition,gsm,static_friction,sheen';
+
+describe('CSV fabric catalogues', () => {
+  it('reads quoted cells holding commas, quotes and line breaks', () => {
+    const csv = [
+      HEADER,
+      'TW-01,"Twill, brushed","65% polyester, 35% cotton",210,0.5,0.2',
+      'SA-02,"Satin ""duchess""","100% silk',
+      'washed twice",90,,',
+      '',
+      'PO-03,Poplin,,120,0.6,0.1'
+    ].join('\r\n');
+    const fabrics = parseFabricCatalogue(csv, 'catalogue.csv');
+
+    expect(fabrics.map(fabric => fabric.id)).toEqual(['TW-01', 'SA-02', 'PO-03']);
+    expect(fabrics[0].name).toBe('Twill, brushed');
+    expect(fabrics[0].composition).toBe('65% polyester, 35% cotton');
+    expect(fabrics[1].name).toBe('Satin "duchess"');
+    expect(fabrics[1].composition).toBe('100% silk\nwashed twice');
+    expect(fabrics[1].material.gsm).toBe(90);
+    // Empty cells take the defaults
+    expect(fabrics[1].material.staticFriction).toBe(DEFAULT_FABRIC.staticFriction);
+    expect(fabrics[2].material.gsm).toBe(120);
+  });
+
+  it('rejects a quoted cell that is never closed', () => {
+    const csv = `${HEADER}\nTW-01,"Twill,210,0.5,0.2`;
+    expect(() => parseFabricCatalogue(csv, 'catalogue.csv')).toThrow('catalogue.csv: the quoted cell on line 2 is never closed');
+  });
+
+  it('rejects an SKU used twice, naming both lines', () => {
+    const csv = [HEADER, 'TW-01,Twill,,210,,', '"PO-03",Poplin,"cotton,\nwoven",120,,', 'TW-01,Twill again,,200,,'].join('\n');
+    expect(() => parseFabricCatalogue(csv, 'catalogue.csv')).toThrow(
+      'catalogue.csv line 5: SKU "TW-01" is already used by line 2'
+    );
+  });
+
+  it.each([
+    ['a zero GSM', 'TW-01,Twill,,0,0.5,0.2', /gsm must be a positive number/],
+    ['negative friction', 'TW-01,Twill,,210,-0.1,0.2', /static_friction/],
+    ['a sheen above 1', 'TW-01,Twill,,210,0.5,1.5', /sheen must be between 0 and 1/],
+    ['a number that is not one', 'TW-01,Twill,,heavy,0.5,0.2', /gsm must be a number, not "heavy"/]
+  ])('rejects %s, naming the line', (_, row, message) => {
+    const parse = () => parseFabricCatalogue(`${HEADER}\n${row}`, 'catalogue.csv');
+    expect(parse).toThrow(message);
+    expect(parse).toThrow(/catalogue\.csv line 2/);
+  });
+});
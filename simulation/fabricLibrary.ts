@@ -0,0 +1,328 @@
+// Fabric library: named fabrics (catalogue SKUs or generic qualities), each
+// bundling the solver material with how the fabric looks. A few common
+// qualities are built in; a catalogue exported as CSV or JSON adds more.
+
+import { DEFAULT_FABRIC, FabricMaterial } from './FabricMaterial';
+import type { ClothLayer } from './layers';
+import { parseMaterial } from './materialFile';
+
+export const FABRIC_LIBRARY_FORMAT = 'fabric-library';
+export const FABRIC_LIBRARY_VERSION = 1;
+export const FABRIC_LIBRARY_ACCEPT = '.csv,.json';
+
+export interface FabricAppearance {
+  color: string; // Base colour of the fabric texture (#rrggbb)
+  roughness: number; // 0-1; low for satin and silk, high for matt cottons
+  sheen: number; // 0-1; the soft rim glow of velvet and brushed fabrics
+}
+
+export interface FabricPreset {
+  id: string; // SKU, or a slug of the name
+  name: string;
+  category: string; // Woven, knit, pile...
+  composition: string; // Fibre content, e.g. "100% cotton"; may be empty
+  material: FabricMaterial;
+  appearance: FabricAppearance;
+}
+
+export const DEFAULT_APPEARANCE: FabricAppearance = {
+  color: '#c318a7',
+  roughness: 0.95,
+  sheen: 0
+};
+
+const preset = (
+  id: string,
+  name: string,
+  category: string,
+  composition: string,
+  material: Partial<FabricMaterial>,
+  appearance: Partial<FabricAppearance>
+): FabricPreset => ({
+  id,
+  name,
+  category,
+  composition,
+  material: { ...DEFAULT_FABRIC, ...material },
+  appearance: { ...DEFAULT_APPEARANCE, ...appearance }
+});
+
+// Typical values for each quality; real SKUs should come from a calibrated
+// catalogue (see `npm run fit-materials`)
+export const BUILT_IN_FABRICS: FabricPreset[] = [
+  preset('chiffon', 'Chiffon', 'Woven', '100% polyester',
+    { gsm: 60, bendingRigidity: 0.05, flexuralRigidity: 1, shearStiffness: 0.6, staticFriction: 0.35, kineticFriction: 0.25 },
+    { color: '#f4c2d7', roughness: 0.6, sheen: 0.3 }),
+  preset('georgette', 'Georgette', 'Woven', '100% polyester',
+    { gsm: 80, bendingRigidity: 0.08, flexuralRigidity: 2, shearStiffness: 0.6, staticFriction: 0.45, kineticFriction: 0.35 },
+    { color: '#9b87c9', roughness: 0.8, sheen: 0.2 }),
+  preset('silk-charmeuse', 'Silk Charmeuse', 'Woven', '100% silk',
+    { gsm: 90, bendingRigidity: 0.1, flexuralRigidity: 2, shearStiffness: 0.7, staticFriction: 0.3, kineticFriction: 0.2 },
+    { color: '#e8d3a9', roughness: 0.35, sheen: 0.6 }),
+  preset('cotton-voile', 'Cotton Voile', 'Woven', '100% cotton',
+    { gsm: 70, bendingRigidity: 0.15, flexuralRigidity: 3, staticFriction: 0.6, kineticFriction: 0.45 },
+    { color: '#f5f1e8', roughness: 0.9 }),
+  preset('jersey', 'Cotton Jersey', 'Knit', '95% cotton, 5% elastane',
+    { gsm: 180, bendingRigidity: 0.2, flexuralRigidity: 5, warpStiffness: 0.45, weftStiffness: 0.25, shearStiffness: 0.35, staticFriction: 0.7, kineticFriction: 0.55 },
+    { color: '#4b6584', roughness: 0.95, sheen: 0.1 }),
+  preset('poplin', 'Cotton Poplin', 'Woven', '100% cotton',
+    { gsm: 120, bendingRigidity: 0.4, flexuralRigidity: 12, staticFriction: 0.65, kineticFriction: 0.5 },
+    { color: '#ffffff', roughness: 0.85 }),
+  preset('oxford', 'Oxford Shirting', 'Woven', '100% cotton',
+    { gsm: 140, bendingRigidity: 0.45, flexuralRigidity: 18, staticFriction: 0.7, kineticFriction: 0.55 },
+    { color: '#a8c6e8', roughness: 0.9 }),
+  preset('linen', 'Linen', 'Woven', '100% linen',
+    { gsm: 180, bendingRigidity: 0.55, flexuralRigidity: 30, staticFriction: 0.75, kineticFriction: 0.6 },
+    { color: '#d8c8a8', roughness: 0.95 }),
+  preset('denim', 'Denim 12 oz', 'Woven', '100% cotton',
+    { gsm: 400, bendingRigidity: 0.75, flexuralRigidity: 200, shearStiffness: 0.9, staticFriction: 0.9, kineticFriction: 0.7 },
+    { color: '#2f4a7a', roughness: 0.95 }),
+  preset('canvas', 'Cotton Canvas', 'Woven', '100% cotton',
+    { gsm: 340, bendingRigidity: 0.8, flexuralRigidity: 250, staticFriction: 0.85, kineticFriction: 0.65 },
+    { color: '#c9b48a', roughness: 1 }),
+  preset('wool-coating', 'Wool Coating', 'Woven', '80% wool, 20% polyamide',
+    { gsm: 550, bendingRigidity: 0.7, flexuralRigidity: 300, shearStiffness: 0.8, staticFriction: 0.95, kineticFriction: 0.75 },
+    { color: '#5a4a42', roughness: 1, sheen: 0.3 }),
+  preset('fleece', 'Polar Fleece', 'Knit', '100% polyester',
+    { gsm: 280, bendingRigidity: 0.35, flexuralRigidity: 20, warpStiffness: 0.5, weftStiffness: 0.4, shearStiffness: 0.4, staticFriction: 1, kineticFriction: 0.8 },
+    { color: '#8a9a5b', roughness: 1, sheen: 0.6 }),
+  preset('velvet', 'Velvet', 'Pile', '100% polyester',
+    { gsm: 300, bendingRigidity: 0.4, flexuralRigidity: 40, shearStiffness: 0.8, staticFriction: 0.9, kineticFriction: 0.7 },
+    { color: '#7a1f3d', roughness: 0.9, sheen: 1 })
+];
+
+// What putting a library fabric on a layer changes
+export const fabricLayerFields = (fabric: FabricPreset): Pick<ClothLayer, 'material' | 'color' | 'roughness' | 'sheen' | 'fabricId'> => ({
+  material: fabric.material,
+  color: fabric.appearance.color,
+  roughness: fabric.appearance.roughness,
+  sheen: fabric.appearance.sheen,
+  fabricId: fabric.id
+});
+
+// Imported fabrics replace library entries with the same id
+export const mergeFabrics = (library: FabricPreset[], imported: FabricPreset[]) => {
+  const ids = new Set(imported.map(fabric => fabric.id));
+  return [...library.filter(fabric => !ids.has(fabric.id)), ...imported];
+};
+
+// Every whitespace-separated term has to appear in the name, id, category or composition
+export const searchFabrics = (library: FabricPreset[], query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return library.filter(fabric => {
+    const text = `${fabric.name} ${fabric.id} ${fabric.category} ${fabric.composition}`.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+// --- Catalogue import ---
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// CSV column for a camelCase material or appearance field: tearStrain → tear_strain
+const column = (key: string) => key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+// Material ranges are checked by parseMaterial
+const checkFabric = (fabric: FabricPreset, where: string) => {
+  const { appearance } = fabric;
+  if (!fabric.name) throw new Error(`${where}: every fabric needs a name`);
+  if (!/^#[0-9a-f]{6}$/i.test(appearance.color)) throw new Error(`${where}: color must be #rrggbb`);
+  if (!(appearance.roughness >= 0 && appearance.roughness <= 1)) throw new Error(`${where}: roughness must be between 0 and 1`);
+  if (!(appearance.sheen >= 0 && appearance.sheen <= 1)) throw new Error(`${where}: sheen must be between 0 and 1`);
+  return fabric;
+};
+
+// Splits CSV text into records of cells, honouring double-quoted cells,
+// which may hold commas ("65% polyester, 35% cotton"), doubled quotes and
+// line breaks (notes columns from spreadsheets). Blank lines are skipped;
+// `line` is where each record starts, for error messages.
+export const readCsvRecords = (text: string, name: string) => {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRecord = () => {
+    cells.push(cell.trim());
+    if (cells.some(value => value !== '')) records.push({ line: start, cells });
+    cells = [];
+    cell = '';
+    start = line;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\r' && text[i + 1] === '\n') continue;
+    if (char === '\n') line++;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new Error(`${name}: the quoted cell on line ${start} is never closed`);
+  endRecord();
+  return records;
+};
+
+// Two fabrics of one import with the same SKU would leave picking by id
+// ambiguous, so that is an error naming both
+const checkUniqueIds = (fabrics: FabricPreset[], name: string, label: (index: number) => string) => {
+  const seen = new Map<string, number>();
+  fabrics.forEach((fabric, i) => {
+    const first = seen.get(fabric.id);
+    if (first !== undefined) throw new Error(`${name} ${label(i)}: SKU "${fabric.id}" is already used by ${label(first)}`);
+    seen.set(fabric.id, i);
+  });
+  return fabrics;
+};
+
+// CSV: a header row naming the columns, in any order. `name` is required;
+// `sku`, `category` and `composition` are optional, as are the material
+// columns (gsm, bending_rigidity, flexural_rigidity in µN·m, warp_stiffness,
+// weft_stiffness, shear_stiffness, grain_angle, static_friction,
+// kinetic_friction, tear_strain) and the appearance ones (color, roughness,
+// sheen). Empty or missing cells take the defaults.
+const parseCatalogueCsv = (text: string, name: string): FabricPreset[] => {
+  const records = readCsvRecords(text, name);
+  if (records.length < 2) throw new Error(`${name} has no fabrics`);
+  const header = records[0].cells.map(cell => cell.toLowerCase());
+  if (!header.includes('name')) throw new Error(`${name} has no "name" column`);
+
+  const rows = records.slice(1);
+  const lineOf = (i: number) => `line ${rows[i].line}`;
+  const fabrics = rows.map(({ cells }, i) => {
+    const where = `${name} ${lineOf(i)}`;
+    const cell = (key: string) => cells[header.indexOf(key)] ?? '';
+    const number = <T>(key: string, fallback: T) => {
+      const value = cell(column(key));
+      if (value === '') return fallback;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) throw new Error(`${where}: ${column(key)} must be a number, not "${value}"`);
+      return parsed;
+    };
+
+    // Ranges are checked the way material files are, naming the CSV column
+    const fields: Partial<FabricMaterial> = {};
+    (Object.keys(DEFAULT_FABRIC) as (keyof FabricMaterial)[]).forEach(key => {
+      fields[key] = number(key, undefined);
+    });
+    const material = parseMaterial(fields, where, column);
+    const fabricName = cell('name');
+    return checkFabric(
+      {
+        id: cell('sku') || slug(fabricName),
+        name: fabricName,
+        category: cell('category'),
+        composition: cell('composition'),
+        material,
+        appearance: {
+          color: cell('color') || DEFAULT_APPEARANCE.color,
+          roughness: number('roughness', DEFAULT_APPEARANCE.roughness),
+          sheen: number('sheen', DEFAULT_APPEARANCE.sheen)
+        }
+      },
+      where
+    );
+  });
+  return checkUniqueIds(fabrics, name, lineOf);
+};
+
+// JSON: an array of fabrics, or a library file ({ format, version, fabrics }).
+// Each fabric has `name` and optionally `sku` (or `id`), `category`,
+// `composition`, a `material` object (FabricMaterial fields) and an
+// `appearance` object (color, roughness, sheen).
+const parseCatalogueJson = (text: string, name: string): FabricPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  const file = data as { format?: unknown; version?: unknown; fabrics?: unknown } | null;
+  let fabrics: unknown = data;
+  if (!Array.isArray(data)) {
+    if (!file || file.format !== FABRIC_LIBRARY_FORMAT || !Array.isArray(file.fabrics)) {
+      throw new Error(`${name} is not a fabric catalogue`);
+    }
+    if (typeof file.version !== 'number' || file.version > FABRIC_LIBRARY_VERSION) {
+      throw new Error(`${name} needs a newer version of the app (fabric library version ${String(file.version)})`);
+    }
+    fabrics = file.fabrics;
+  }
+
+  const fabricAt = (i: number) => `fabric ${i + 1}`;
+  const parsed = (fabrics as unknown[]).map((value, i) => {
+    const where = `${name} ${fabricAt(i)}`;
+    if (typeof value !== 'object' || value === null) throw new Error(`${where} must be an object`);
+    const entry = value as Record<string, unknown>;
+    const readText = (key: string): string => {
+      const field = entry[key];
+      if (field === undefined) return '';
+      if (typeof field !== 'string') throw new Error(`${where}: "${key}" must be a string`);
+      return field;
+    };
+    const appearance = (entry.appearance ?? {}) as Record<string, unknown>;
+    const shade = (key: keyof FabricAppearance) => {
+      const field = appearance[key];
+      if (field === undefined) return DEFAULT_APPEARANCE[key];
+      if (typeof field !== typeof DEFAULT_APPEARANCE[key]) throw new Error(`${where}: appearance "${key}" has the wrong type`);
+      return field;
+    };
+    const fabricName = readText('name');
+    return checkFabric(
+      {
+        id: readText('sku') || readText('id') || slug(fabricName),
+        name: fabricName,
+        category: readText('category'),
+        composition: readText('composition'),
+        material: typeof entry.material === 'object' && entry.material !== null
+          ? parseMaterial(entry.material, where)
+          : { ...DEFAULT_FABRIC },
+        appearance: {
+          color: shade('color') as string,
+          roughness: shade('roughness') as number,
+          sheen: shade('sheen') as number
+        }
+      },
+      where
+    );
+  });
+  return checkUniqueIds(parsed, name, fabricAt);
+};
+
+export const parseFabricCatalogue = (text: string, name: string): FabricPreset[] => {
+  const trimmed = text.trim();
+  const fabrics = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseCatalogueJson(trimmed, name)
+    : parseCatalogueCsv(trimmed, name);
+  if (fabrics.length === 0) throw new Error(`${name} has no fabrics`);
+  return fabrics;
+};
+
+export const loadFabricCatalogue = async (file: File) => parseFabricCatalogue(await file.text(), file.name);
+
+export const fabricLibraryToJson = (fabrics: FabricPreset[]) =>
+  JSON.stringify(
+    {
+      format: FABRIC_LIBRARY_FORMAT,
+      version: FABRIC_LIBRARY_VERSION,
+      fabrics: fabrics.map(({ id, ...fabric }) => ({ sku: id, ...fabric }))
+    },
+    null,
+    2
+  );
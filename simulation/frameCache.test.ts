@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createColliderPreset } from './colliders';
+import { CachedLayer, CachedMesh, FrameCache, frameCacheToBuffer, parseFrameCache } from './frameCache';
+
+const mesh: CachedMesh = { indices: new Uint32Array([0, 1, 2]), uvs: new Float32Array([0, 0, 1, 0, 0, 1]) };
+const colliders = [createColliderPreset('sphere', 'sphere')];
+
+// One triangle at height y: 36 bytes of positions
+const layer = (y: number, id = 'layer-1'): CachedLayer => ({
+  id,
+  color: '#ff8800',
+  positions: new Float32Array([0, y, 0, 1, y, 0, 0, y, 1]),
+  mesh
+});
+
+describe('FrameCache', () => {
+  it('groups layers recorded at one clock into a frame, timed from the first', () => {
+    const cache = new FrameCache();
+    cache.record(10, colliders, layer(1));
+    cache.record(10, colliders, layer(1, 'layer-2'));
+    cache.record(10.5, colliders, layer(0.5), { left: [0, 1, 0], right: null });
+
+    expect(cache.frames.map(frame => frame.time)).toEqual([0, 0.5]);
+    expect(cache.frames[0].layers.map(l => l.id)).toEqual(['layer-1', 'layer-2']);
+    expect(cache.frames[1].pinches.left).toEqual([0, 1, 0]);
+    expect(cache.duration).toBe(0.5);
+  });
+
+  it('finds the last frame at or before a time', () => {
+    const cache = new FrameCache();
+    [0, 0.1, 0.2, 0.3].forEach(clock => cache.record(clock, colliders, layer(clock)));
+    expect(cache.frameAt(-1)).toBe(0);
+    expect(cache.frameAt(0)).toBe(0);
+    expect(cache.frameAt(0.15)).toBe(1);
+    expect(cache.frameAt(0.2)).toBe(2);
+    expect(cache.frameAt(5)).toBe(3);
+  });
+
+  it('counts arrays shared between frames once', () => {
+    const cache = new FrameCache();
+    const resting = layer(0);
+    cache.record(0, colliders, resting);
+    cache.record(1, colliders, resting);
+    // Positions (36 bytes), indices (12) and uvs (24), each counted once
+    expect(cache.bytes).toBe(72);
+  });
+
+  it('drops every frame after the byte budget is spent', () => {
+    // The mesh (36 bytes) and the first two frames' positions (72) fill it
+    const cache = new FrameCache(100);
+    expect(cache.record(0, colliders, layer(0))).toBe(true);
+    expect(cache.record(1, colliders, layer(1))).toBe(true);
+    expect(cache.full).toBe(false);
+    expect(cache.record(2, colliders, layer(2))).toBe(false);
+    expect(cache.full).toBe(true);
+    // Full stays full, even for frames that would share arrays
+    expect(cache.record(3, colliders, cache.frames[0].layers[0])).toBe(false);
+    expect(cache.frames).toHaveLength(2);
+    expect(cache.frames[1].layers[0].positions[1]).toBe(1);
+  });
+
+  it('saves and loads frames, sharing the arrays frames shared', () => {
+    const cache = new FrameCache();
+    const resting = layer(0.25);
+    cache.record(0, colliders, resting);
+    cache.record(0.5, colliders, resting, { left: null, right: [1, 2, 3] });
+
+    const loaded = parseFrameCache(frameCacheToBuffer(cache), 'drape.clothcache');
+    expect(loaded.frames.map(frame => frame.time)).toEqual([0, 0.5]);
+    const [first, second] = loaded.frames;
+    expect(Array.from(first.layers[0].positions)).toEqual(Array.from(resting.positions));
+    expect(second.layers[0].positions).toBe(first.layers[0].positions);
+    expect(second.layers[0].mesh).toBe(first.layers[0].mesh);
+    expect(Array.from(first.layers[0].mesh.indices)).toEqual([0, 1, 2]);
+    expect(first.colliders).toEqual(colliders);
+    expect(second.pinches.right).toEqual([1, 2, 3]);
+  });
+
+  it('rejects files that are not frame caches or are cut short', () => {
+    expect(() => parseFrameCache(new ArrayBuffer(16), 'notes.txt')).toThrow('notes.txt is not a frame cache file');
+    const cache = new FrameCache();
+    cache.record(0, colliders, layer(0));
+    const buffer = frameCacheToBuffer(cache);
+    expect(() => parseFrameCache(buffer.slice(0, buffer.byteLength - 8), 'drape.clothcache')).toThrow('drape.clothcache is truncated');
+  });
+});
@@ -0,0 +1,263 @@
+// Frame cache: rendered cloth positions, collider states and hand pinches
+// recorded frame by frame, so a drape can be scrubbed and played back without
+// re-simulating, and saved to a file to view later.
+
+import type { Vec3 } from './ClothSolver';
+import type { Collider } from './colliders';
+import { colliderToJson, parseCollider } from './sceneFile';
+
+export const FRAME_CACHE_FORMAT = 'fabric-frame-cache';
+export const FRAME_CACHE_VERSION = 1;
+export const FRAME_CACHE_ACCEPT = '.clothcache';
+
+// Recording stops once the cache holds this much (bytes)
+export const DEFAULT_CACHE_BYTES = 256 * 1024 * 1024;
+
+// A layer's triangles and texture coordinates; replaced when the cloth tears,
+// shared by every frame in between
+export interface CachedMesh {
+  indices: Uint32Array;
+  uvs: Float32Array;
+}
+
+export interface CachedLayer {
+  id: string;
+  color: string;
+  positions: Float32Array; // xyz per particle, as rendered
+  mesh: CachedMesh;
+}
+
+// Smoothed pinch positions of the hands holding the selected cloth
+export interface PinchState {
+  left: Vec3 | null;
+  right: Vec3 | null;
+}
+
+export interface CachedFrame {
+  time: number; // Seconds since the first frame
+  layers: CachedLayer[];
+  colliders: Collider[];
+  pinches: PinchState;
+}
+
+// Timeline position shared by the playback view and the timeline controls
+export interface PlaybackState {
+  time: number;
+  playing: boolean;
+  loop: boolean;
+}
+
+export class FrameCache {
+  readonly frames: CachedFrame[] = [];
+  bytes = 0;
+  // Set once the byte budget is spent; later frames are dropped
+  full = false;
+  private start: number | null = null;
+  private clock: number | null = null;
+  private counted = new WeakSet<object>();
+
+  constructor(readonly maxBytes = DEFAULT_CACHE_BYTES) {}
+
+  get duration() {
+    return this.frames.length > 0 ? this.frames[this.frames.length - 1].time : 0;
+  }
+
+  // Adds a layer to the frame for render clock `clock` (seconds), opening
+  // the frame if this is the first layer recorded at that time. Arrays
+  // already in the cache (a sleeping cloth's positions, an unchanged mesh)
+  // are shared rather than counted again. Returns false once the cache is full.
+  record(clock: number, colliders: Collider[], layer: CachedLayer, pinches?: PinchState) {
+    if (this.full) return false;
+    if (clock !== this.clock) {
+      if (this.bytes >= this.maxBytes) {
+        this.full = true;
+        return false;
+      }
+      this.start ??= clock;
+      this.clock = clock;
+      this.frames.push({ time: clock - this.start, layers: [], colliders, pinches: { left: null, right: null } });
+    }
+    const frame = this.frames[this.frames.length - 1];
+    frame.layers.push(layer);
+    if (pinches) frame.pinches = pinches;
+    this.count(layer.positions);
+    this.count(layer.mesh.indices);
+    this.count(layer.mesh.uvs);
+    return true;
+  }
+
+  // Index of the last frame at or before `time`
+  frameAt(time: number) {
+    let lo = 0;
+    let hi = this.frames.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.frames[mid].time <= time) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  private count(array: Float32Array | Uint32Array) {
+    if (this.counted.has(array)) return;
+    this.counted.add(array);
+    this.bytes += array.byteLength;
+  }
+}
+
+// --- Files ---
+
+// Layout: 'FCCH', then the byte length of a JSON index (space padded to a
+// multiple of 4), the index, and one binary blob. The index lists frames
+// and points into the blob as [byteOffset, length]; arrays and colliders
+// shared between frames are stored once.
+const MAGIC = 0x48434346; // 'FCCH'
+
+type Span = [number, number];
+
+interface CacheIndex {
+  format: typeof FRAME_CACHE_FORMAT;
+  version: number;
+  meshes: { indices: Span; uvs: Span }[];
+  colliders: unknown[];
+  colliderSets: number[][];
+  frames: {
+    time: number;
+    colliders: number;
+    pinches: PinchState;
+    layers: { id: string; color: string; mesh: number; positions: Span }[];
+  }[];
+}
+
+export const frameCacheToBuffer = (cache: FrameCache): ArrayBuffer => {
+  const arrays: (Float32Array | Uint32Array)[] = [];
+  const spans = new Map<Float32Array | Uint32Array, Span>();
+  let byteLength = 0;
+  const store = (array: Float32Array | Uint32Array) => {
+    let span = spans.get(array);
+    if (!span) {
+      span = [byteLength, array.length];
+      spans.set(array, span);
+      arrays.push(array);
+      byteLength += array.byteLength;
+    }
+    return span;
+  };
+
+  const meshes = new Map<CachedMesh, number>();
+  const colliders = new Map<Collider, number>();
+  const colliderSets = new Map<Collider[], number>();
+  const index: CacheIndex = {
+    format: FRAME_CACHE_FORMAT,
+    version: FRAME_CACHE_VERSION,
+    meshes: [],
+    colliders: [],
+    colliderSets: [],
+    frames: []
+  };
+
+  cache.frames.forEach(frame => {
+    let set = colliderSets.get(frame.colliders);
+    if (set === undefined) {
+      set = index.colliderSets.length;
+      colliderSets.set(frame.colliders, set);
+      index.colliderSets.push(
+        frame.colliders.map(collider => {
+          let c = colliders.get(collider);
+          if (c === undefined) {
+            c = index.colliders.length;
+            colliders.set(collider, c);
+            index.colliders.push(colliderToJson(collider));
+          }
+          return c;
+        })
+      );
+    }
+
+    index.frames.push({
+      time: frame.time,
+      colliders: set,
+      pinches: frame.pinches,
+      layers: frame.layers.map(layer => {
+        let mesh = meshes.get(layer.mesh);
+        if (mesh === undefined) {
+          mesh = index.meshes.length;
+          meshes.set(layer.mesh, mesh);
+          index.meshes.push({ indices: store(layer.mesh.indices), uvs: store(layer.mesh.uvs) });
+        }
+        return { id: layer.id, color: layer.color, mesh, positions: store(layer.positions) };
+      })
+    });
+  });
+
+  const json = new TextEncoder().encode(JSON.stringify(index));
+  const jsonLength = Math.ceil(json.length / 4) * 4;
+  const buffer = new ArrayBuffer(8 + jsonLength + byteLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, jsonLength, true);
+  bytes.set(json, 8);
+  bytes.fill(0x20, 8 + json.length, 8 + jsonLength);
+  // Every array holds 4-byte values, so offsets stay aligned
+  let at = 8 + jsonLength;
+  arrays.forEach(array => {
+    bytes.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), at);
+    at += array.byteLength;
+  });
+  return buffer;
+};
+
+export const parseFrameCache = (buffer: ArrayBuffer, name: string): FrameCache => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 8 || view.getUint32(0, true) !== MAGIC) throw new Error(`${name} is not a frame cache file`);
+  const jsonLength = view.getUint32(4, true);
+  const blobStart = 8 + jsonLength;
+  if (blobStart > buffer.byteLength) throw new Error(`${name} is truncated`);
+
+  let index: CacheIndex;
+  try {
+    index = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, jsonLength)));
+  } catch {
+    throw new Error(`${name} has a damaged index`);
+  }
+  if (index.format !== FRAME_CACHE_FORMAT) throw new Error(`${name} is not a frame cache file`);
+  if (typeof index.version !== 'number' || index.version > FRAME_CACHE_VERSION) {
+    throw new Error(`${name} needs a newer version of the app (frame cache version ${index.version})`);
+  }
+
+  const read = <T extends Float32Array | Uint32Array>(Type: { new (b: ArrayBuffer, o: number, l: number): T }, [offset, length]: Span) => {
+    if (blobStart + offset + length * 4 > buffer.byteLength) throw new Error(`${name} is truncated`);
+    return new Type(buffer, blobStart + offset, length);
+  };
+  const floats = new Map<number, Float32Array>();
+  const readFloats = (span: Span) => {
+    let array = floats.get(span[0]);
+    if (!array) floats.set(span[0], (array = read(Float32Array, span)));
+    return array;
+  };
+
+  const meshes = index.meshes.map(mesh => ({ indices: read(Uint32Array, mesh.indices), uvs: readFloats(mesh.uvs) }));
+  const colliders = index.colliders.map((collider, i) => parseCollider(collider, i));
+  const colliderSets = index.colliderSets.map(set => set.map(i => colliders[i]));
+
+  const cache = new FrameCache(Infinity);
+  index.frames.forEach(frame => {
+    cache.frames.push({
+      time: frame.time,
+      colliders: colliderSets[frame.colliders] ?? [],
+      pinches: frame.pinches,
+      layers: frame.layers.map(layer => ({
+        id: layer.id,
+        color: layer.color,
+        mesh: meshes[layer.mesh],
+        positions: readFloats(layer.positions)
+      }))
+    });
+  });
+  cache.bytes = buffer.byteLength;
+  cache.full = true;
+  return cache;
+};
+
+export const loadFrameCache = async (file: File) => parseFrameCache(await file.arrayBuffer(), file.name);
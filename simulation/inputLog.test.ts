@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TIMESTEP } from './FixedTimestep';
+import { InputPlayer, InputRecorder, LayerInput, inputLogToJson, parseInputLog } from './inputLog';
+import { createDefaultScene } from './sceneFile';
+
+const idle: LayerInput = { drag: null, left: null, right: null };
+const dragging: LayerInput = { drag: { vertex: 12, target: [0.1, 1.25, -0.3] }, left: null, right: null };
+const pinching: LayerInput = {
+  drag: null,
+  left: null,
+  right: { landmarks: null, handedness: 'Right', pinch: [0.5, 1, 0.25] }
+};
+
+// Six steps on one layer: idle, dragging for two, idle, pinching for two
+const INPUTS = [idle, dragging, dragging, idle, pinching, pinching];
+
+const recordLog = () => {
+  const recorder = new InputRecorder(createDefaultScene(), DEFAULT_TIMESTEP.stepSize);
+  INPUTS.forEach(input => recorder.capture('layer-1', input));
+  return recorder.finish({ 'layer-1': new Float32Array([0, 1, 0, 0.5, 1, 0]) });
+};
+
+// The recorded log as JSON, with one field replaced
+const withField = (change: (data: Record<string, unknown>) => void) => {
+  const data = JSON.parse(inputLogToJson(recordLog()));
+  change(data);
+  return JSON.stringify(data);
+};
+
+describe('input logs', () => {
+  it('stores only changes and replays every step after a round trip through JSON', () => {
+    const log = recordLog();
+    expect(log.steps).toBe(INPUTS.length);
+    expect(log.events.map(event => event.step)).toEqual([1, 3, 4]);
+
+    const player = new InputPlayer(parseInputLog(inputLogToJson(log), 'log.json'));
+    const replayed = INPUTS.map(() => player.next('layer-1'));
+    expect(replayed).toEqual(INPUTS);
+    expect(player.finished).toBe(true);
+    expect(player.next('layer-1')).toBeNull();
+  });
+
+  it('keeps the scene and final positions', () => {
+    const parsed = parseInputLog(inputLogToJson(recordLog()), 'log.json');
+    expect(parsed.scene.layers.map(layer => layer.id)).toEqual(createDefaultScene().layers.map(layer => layer.id));
+    expect(parsed.final['layer-1']).toEqual([0, 1, 0, 0.5, 1, 0]);
+  });
+
+  it.each<[string, (data: Record<string, unknown>) => void, RegExp]>([
+    ['another format', data => { data.format = 'fabric-scene'; }, /not an input log/],
+    ['a newer version', data => { data.version = 99; }, /newer version/],
+    ['another step size', data => { data.stepSize = 1 / 30; }, /recorded with/],
+    ['a fractional step count', data => { data.steps = 2.5; }, /"steps" must be a non-negative integer/],
+    ['a negative step count', data => { data.steps = -1; }, /"steps" must be a non-negative integer/],
+    ['a null event', data => { (data.events as unknown[])[0] = null; }, /event 1 must be an object/],
+    ['a null input', data => { (data.events as { input: unknown }[])[1].input = null; }, /event 2: "input" must be an object/],
+    ['a drag without a target', data => { (data.events as { input: LayerInput }[])[0].input.drag = { vertex: 3 } as never; }, /"drag"/],
+    ['a negative drag vertex', data => { (data.events as { input: LayerInput }[])[0].input.drag!.vertex = -1; }, /"drag"/],
+    ['an unknown hand', data => { (data.events as { input: LayerInput }[])[2].input.right!.handedness = 'Middle' as never; }, /"handedness"/],
+    ['a missing hand', data => { delete (data.events as { input: Partial<LayerInput> }[])[2].input.left; }, /"left" must be an object or null/],
+    ['a short pinch', data => { (data.events as { input: LayerInput }[])[2].input.right!.pinch = [1, 2] as never; }, /"pinch"/],
+    ['non-numeric final positions', data => { data.final = { 'layer-1': ['a'] }; }, /final positions/]
+  ])('rejects a log with %s', (_, change, message) => {
+    expect(() => parseInputLog(withField(change), 'log.json')).toThrow(message);
+  });
+});
@@ -0,0 +1,252 @@
+// Input logs: the pointer drags and hand pinches that reached each cloth,
+// one entry per fixed step, together with the scene they started from.
+// Recording and replay both run exactly one fixed step per rendered frame on
+// the main thread, so replaying a log repeats the same solver calls and ends
+// in the same drape; the final positions are stored to check that it does.
+
+import type { Vec3 } from './ClothSolver';
+import { DEFAULT_TIMESTEP } from './FixedTimestep';
+import { Scene, parseScene, sceneToData } from './sceneFile';
+
+export const INPUT_LOG_FORMAT = 'fabric-input-log';
+export const INPUT_LOG_VERSION = 1;
+export const INPUT_LOG_ACCEPT = '.json';
+
+export interface HandLandmarkInput {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface HandInput {
+  // Mirrored MediaPipe landmarks, for drawing the hand during replay
+  landmarks: HandLandmarkInput[] | null;
+  handedness: 'Left' | 'Right' | null;
+  // Where the pinch pulls the cloth's corner; null when not pinching
+  pinch: Vec3 | null;
+}
+
+// Everything one cloth takes from the user in one fixed step
+export interface LayerInput {
+  drag: { vertex: number; target: Vec3 } | null;
+  // Null on layers that hands do not grab
+  left: HandInput | null;
+  right: HandInput | null;
+}
+
+// A layer's input from `step` on, until its next event
+export interface InputEvent {
+  step: number;
+  layer: string;
+  input: LayerInput;
+}
+
+export interface InputLog {
+  scene: Scene; // As it was when recording started
+  stepSize: number; // Seconds per fixed step
+  steps: number; // Fixed steps every layer ran
+  events: InputEvent[];
+  // Each layer's particle positions (xyz) after the last step
+  final: Record<string, number[]>;
+}
+
+const NO_INPUT: LayerInput = { drag: null, left: null, right: null };
+
+// Landmarks only draw the hand, so they are stored at 0.1 mm precision;
+// pinch and drag targets drive the solver and are kept exact
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+const roundHand = (hand: HandInput | null): HandInput | null =>
+  hand && {
+    ...hand,
+    landmarks: hand.landmarks?.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) })) ?? null
+  };
+
+export class InputRecorder {
+  readonly events: InputEvent[] = [];
+  private channels = new Map<string, { step: number; last: string }>();
+
+  constructor(readonly scene: Scene, readonly stepSize: number) {}
+
+  // Records a layer's input for its next fixed step. Only changes are kept.
+  capture(layer: string, input: LayerInput) {
+    let channel = this.channels.get(layer);
+    if (!channel) this.channels.set(layer, (channel = { step: 0, last: JSON.stringify(NO_INPUT) }));
+    const stored = { ...input, left: roundHand(input.left), right: roundHand(input.right) };
+    const key = JSON.stringify(stored);
+    if (key !== channel.last) {
+      this.events.push({ step: channel.step, layer, input: stored });
+      channel.last = key;
+    }
+    channel.step++;
+  }
+
+  // Steps every layer has run
+  get steps() {
+    return this.channels.size > 0 ? Math.min(...Array.from(this.channels.values(), channel => channel.step)) : 0;
+  }
+
+  finish(final: Record<string, Float32Array>): InputLog {
+    const steps = this.steps;
+    const finalPositions: Record<string, number[]> = {};
+    Object.entries(final).forEach(([layer, positions]) => {
+      finalPositions[layer] = Array.from(positions);
+    });
+    return {
+      scene: this.scene,
+      stepSize: this.stepSize,
+      steps,
+      events: this.events.filter(event => event.step < steps),
+      final: finalPositions
+    };
+  }
+}
+
+export class InputPlayer {
+  private channels = new Map<string, { step: number; next: number; input: LayerInput; events: InputEvent[] }>();
+
+  constructor(readonly log: InputLog) {}
+
+  // Input for the layer's next fixed step, or null once the log has run out
+  next(layer: string): LayerInput | null {
+    let channel = this.channels.get(layer);
+    if (!channel) {
+      const events = this.log.events.filter(event => event.layer === layer).sort((a, b) => a.step - b.step);
+      this.channels.set(layer, (channel = { step: 0, next: 0, input: NO_INPUT, events }));
+    }
+    if (channel.step >= this.log.steps) return null;
+    while (channel.next < channel.events.length && channel.events[channel.next].step <= channel.step) {
+      channel.input = channel.events[channel.next++].input;
+    }
+    channel.step++;
+    return channel.input;
+  }
+
+  // Every recorded layer has run all its steps
+  get finished() {
+    return Object.keys(this.log.final).every(layer => (this.channels.get(layer)?.step ?? 0) >= this.log.steps);
+  }
+
+  get step() {
+    return this.channels.size > 0 ? Math.min(...Array.from(this.channels.values(), channel => channel.step)) : 0;
+  }
+}
+
+export interface ReplayComparison {
+  // Largest distance between a replayed and a recorded particle (m);
+  // Infinity when a layer is missing or has a different particle count
+  maxDeviation: number;
+  layer: string | null; // Where it occurred
+}
+
+export const compareFinalPositions = (log: InputLog, final: Record<string, Float32Array>): ReplayComparison => {
+  const comparison: ReplayComparison = { maxDeviation: 0, layer: null };
+  Object.entries(log.final).forEach(([layer, recorded]) => {
+    const replayed = final[layer];
+    let deviation = 0;
+    if (!replayed || replayed.length !== recorded.length) {
+      deviation = Infinity;
+    } else {
+      for (let i = 0; i < recorded.length; i += 3) {
+        deviation = Math.max(
+          deviation,
+          Math.hypot(replayed[i] - recorded[i], replayed[i + 1] - recorded[i + 1], replayed[i + 2] - recorded[i + 2])
+        );
+      }
+    }
+    if (comparison.layer === null || deviation > comparison.maxDeviation) {
+      comparison.maxDeviation = deviation;
+      comparison.layer = layer;
+    }
+  });
+  return comparison;
+};
+
+// --- Files ---
+
+export const inputLogToJson = (log: InputLog) =>
+  JSON.stringify({
+    format: INPUT_LOG_FORMAT,
+    version: INPUT_LOG_VERSION,
+    ...log,
+    scene: sceneToData(log.scene)
+  });
+
+// Replayed input goes straight into the solver, so every field is checked:
+// a null or half-written event would otherwise fail deep inside a step
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+const isStep = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const checkHand = (value: unknown, where: string) => {
+  if (value === null) return;
+  if (!isObject(value)) throw new Error(`${where} must be an object or null`);
+  const { landmarks, handedness, pinch } = value;
+  if (
+    landmarks !== null &&
+    !(Array.isArray(landmarks) && landmarks.every(l => isObject(l) && isFiniteNumber(l.x) && isFiniteNumber(l.y) && isFiniteNumber(l.z)))
+  ) {
+    throw new Error(`${where}: "landmarks" must be a list of { x, y, z } points or null`);
+  }
+  if (handedness !== null && handedness !== 'Left' && handedness !== 'Right') {
+    throw new Error(`${where}: "handedness" must be "Left", "Right" or null`);
+  }
+  if (pinch !== null && !isVec3(pinch)) throw new Error(`${where}: "pinch" must be [x, y, z] or null`);
+};
+
+const checkLayerInput = (value: unknown, where: string): LayerInput => {
+  if (!isObject(value)) throw new Error(`${where}: "input" must be an object`);
+  const { drag, left, right } = value;
+  if (drag !== null && !(isObject(drag) && isStep(drag.vertex) && isVec3(drag.target))) {
+    throw new Error(`${where}: "drag" must be { vertex, target: [x, y, z] } or null`);
+  }
+  checkHand(left, `${where}: "left"`);
+  checkHand(right, `${where}: "right"`);
+  return value as unknown as LayerInput;
+};
+
+const checkEvent = (value: unknown, index: number, name: string): InputEvent => {
+  const where = `${name} event ${index + 1}`;
+  if (!isObject(value)) throw new Error(`${where} must be an object`);
+  if (!isStep(value.step)) throw new Error(`${where}: "step" must be a non-negative integer`);
+  if (typeof value.layer !== 'string') throw new Error(`${where}: "layer" must be a string`);
+  return { step: value.step, layer: value.layer, input: checkLayerInput(value.input, where) };
+};
+
+export const parseInputLog = (text: string, name: string): InputLog => {
+  let data: Partial<Record<keyof InputLog | 'format' | 'version', unknown>>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  if (!data || data.format !== INPUT_LOG_FORMAT) throw new Error(`${name} is not an input log`);
+  if (typeof data.version !== 'number' || data.version > INPUT_LOG_VERSION) {
+    throw new Error(`${name} needs a newer version of the app (input log version ${String(data.version)})`);
+  }
+  if (typeof data.stepSize !== 'number' || typeof data.steps !== 'number' || !Array.isArray(data.events)) {
+    throw new Error(`${name} is missing its steps or events`);
+  }
+  // Another step size would replay a different simulation than was recorded
+  if (data.stepSize !== DEFAULT_TIMESTEP.stepSize) {
+    throw new Error(`${name} was recorded with ${data.stepSize} s steps; this app replays ${DEFAULT_TIMESTEP.stepSize} s steps`);
+  }
+  if (!isStep(data.steps)) throw new Error(`${name}: "steps" must be a non-negative integer`);
+  const events = data.events.map((event, i) => checkEvent(event, i, name));
+  const final = data.final ?? {};
+  if (!isObject(final) || !Object.values(final).every(positions => Array.isArray(positions) && positions.every(isFiniteNumber))) {
+    throw new Error(`${name} has malformed final positions`);
+  }
+
+  return {
+    scene: parseScene(data.scene, `${name} (scene)`),
+    stepSize: data.stepSize,
+    steps: data.steps,
+    events,
+    final: final as Record<string, number[]>
+  };
+};
+
+export const loadInputLog = async (file: File) => parseInputLog(await file.text(), file.name);
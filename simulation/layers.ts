@@ -0,0 +1,65 @@
+// Cloth layers: several cloths in one scene, each with its own material,
+// shape and pins (a scarf over a shirt, a lining under a coat). Layers are
+// ordered from the inside out, and each one keeps a thickness away from the
+// surfaces of the layers beneath it.
+
+import { DEFAULT_FABRIC, FabricMaterial } from './FabricMaterial';
+import type { Garment } from './pattern';
+import type { PinSet } from './pins';
+
+export interface ClothLayer {
+  id: string;
+  name: string;
+  material: FabricMaterial;
+  // Sewn pattern pieces instead of the square swatch
+  garment: Garment | null;
+  pins: PinSet[];
+  // Swatches start this far above the default drop height (m), so a new
+  // layer settles on top of the ones already there
+  lift: number;
+  // Base colour of the fabric texture
+  color: string;
+  // Surface finish, 0-1 (see FabricAppearance)
+  roughness: number;
+  sheen: number;
+  // Library fabric (SKU) the layer was last set to; null when never set
+  fabricId: string | null;
+}
+
+// The surface of a layer underneath, as a solver collides against it.
+// Positions are read every step and may be a view on a buffer another
+// solver keeps writing (a SharedArrayBuffer between workers); indices only
+// change when that layer tears, and are resent when they do.
+export interface ClothSurface {
+  positions: Float32Array;
+  indices: Uint32Array;
+  // The lower fabric's Coulomb coefficients, averaged with this one's
+  staticFriction: number;
+  kineticFriction: number;
+}
+
+const LAYER_COLORS = ['#c318a7', '#1f7a8c', '#d98e04', '#3f8f3a', '#5b4bb7'];
+
+// Each further layer drops from a little higher
+const LAYER_LIFT = 0.5;
+
+// Where a layer's swatch starts: centred over the origin, `dropHeight` up
+// (null: in proportion to the cloth size) plus the layer's lift
+export const layerPosition = (layer: ClothLayer, clothSize: number, dropHeight: number | null): [number, number, number] => [
+  0,
+  (dropHeight ?? clothSize * 0.8) + layer.lift,
+  0
+];
+
+export const createClothLayer = (id: string, index: number, material: FabricMaterial = DEFAULT_FABRIC): ClothLayer => ({
+  id,
+  name: `Layer ${index + 1}`,
+  material,
+  garment: null,
+  pins: [],
+  lift: index * LAYER_LIFT,
+  color: LAYER_COLORS[index % LAYER_COLORS.length],
+  roughness: 0.95,
+  sheen: 0,
+  fabricId: null
+});
@@ -0,0 +1,111 @@
+// Fabric material files: one FabricMaterial as JSON, optionally with the lab
+// measurements it was calibrated against and what the simulation gives with
+// it. Written by the fitting script (scripts/fitMaterials.ts) and by the UI,
+// and loaded back into a layer from the UI.
+
+import { DEFAULT_FABRIC, FabricMaterial } from './FabricMaterial';
+
+export const MATERIAL_FILE_FORMAT = 'fabric-material';
+export const MATERIAL_FILE_VERSION = 1;
+export const MATERIAL_FILE_ACCEPT = '.json';
+
+export interface MaterialCalibration {
+  // Lab values the material was fitted to; absent ones were not measured
+  measured: { gsm: number; drapeCoefficient?: number; bendingLength?: number };
+  // The same tests run on the fitted material
+  simulated: { drapeCoefficient?: number; bendingLength?: number };
+  method: string; // Solver method the tests ran with
+  date: string; // ISO 8601
+}
+
+export interface MaterialFile {
+  format: typeof MATERIAL_FILE_FORMAT;
+  version: number;
+  name: string;
+  material: FabricMaterial;
+  calibration?: MaterialCalibration;
+}
+
+export const materialToJson = (name: string, material: FabricMaterial, calibration?: MaterialCalibration) => {
+  const file: MaterialFile = { format: MATERIAL_FILE_FORMAT, version: MATERIAL_FILE_VERSION, name, material, calibration };
+  return JSON.stringify(file, null, 2);
+};
+
+// Physical limits of the fields that have them. Wider than the sliders, so
+// fitted materials beyond their ends still load.
+type Limit = [valid: (value: number) => boolean, rule: string];
+const POSITIVE: Limit = [value => value > 0, 'must be a positive number'];
+const NOT_NEGATIVE: Limit = [value => value >= 0, 'must not be negative'];
+const UNIT: Limit = [value => value >= 0 && value <= 1, 'must be between 0 and 1'];
+const MATERIAL_LIMITS: Partial<Record<keyof FabricMaterial, Limit>> = {
+  gsm: POSITIVE, // A weightless cloth never falls
+  bendingRigidity: UNIT,
+  flexuralRigidity: NOT_NEGATIVE,
+  warpStiffness: UNIT,
+  weftStiffness: UNIT,
+  shearStiffness: UNIT,
+  staticFriction: NOT_NEGATIVE,
+  kineticFriction: NOT_NEGATIVE,
+  tearStrain: NOT_NEGATIVE
+};
+
+// Missing fields (files from before a field existed) take the defaults;
+// fields of the wrong type or out of range are an error. `where` prefixes
+// error messages and `field` names a field in them (CSV columns differ).
+export const parseMaterial = (
+  value: object,
+  where: string,
+  field: (key: keyof FabricMaterial) => string = key => `"${key}"`
+): FabricMaterial => {
+  const material = { ...DEFAULT_FABRIC };
+  for (const key of Object.keys(DEFAULT_FABRIC) as (keyof FabricMaterial)[]) {
+    const entry = (value as Partial<Record<keyof FabricMaterial, unknown>>)[key];
+    if (entry === undefined) continue;
+    if (typeof entry !== 'number' || !Number.isFinite(entry)) throw new Error(`${where}: ${field(key)} must be a number`);
+    const limit = MATERIAL_LIMITS[key];
+    if (limit && !limit[0](entry)) throw new Error(`${where}: ${field(key)} ${limit[1]}`);
+    material[key] = entry;
+  }
+  return material;
+};
+
+export const parseMaterialFile = (text: string, name: string): MaterialFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  const file = data as Partial<MaterialFile> | null;
+  if (!file || file.format !== MATERIAL_FILE_FORMAT || typeof file.material !== 'object' || !file.material) {
+    throw new Error(`${name} is not a fabric material file`);
+  }
+  if (typeof file.version !== 'number' || file.version > MATERIAL_FILE_VERSION) {
+    throw new Error(`${name} needs a newer version of the app (material file version ${file.version})`);
+  }
+
+  return {
+    format: MATERIAL_FILE_FORMAT,
+    version: file.version,
+    name: typeof file.name === 'string' ? file.name : name.replace(/\.[^.]*$/, ''),
+    material: parseMaterial(file.material, name),
+    calibration: isCalibration(file.calibration) ? file.calibration : undefined
+  };
+};
+
+// Calibration is informational, so a malformed one is dropped rather than an error
+const isCalibration = (value: unknown): value is MaterialCalibration => {
+  const calibration = value as Partial<MaterialCalibration> | null;
+  return (
+    typeof calibration === 'object' &&
+    calibration !== null &&
+    typeof calibration.measured === 'object' &&
+    calibration.measured !== null &&
+    typeof calibration.simulated === 'object' &&
+    calibration.simulated !== null &&
+    typeof calibration.method === 'string' &&
+    typeof calibration.date === 'string'
+  );
+};
+
+export const loadMaterial = async (file: File) => parseMaterialFile(await file.text(), file.name);
@@ -0,0 +1,257 @@
+// Offline calibration: fits a fabric's simulation parameters to lab
+// measurements by running the headless drape and cantilever tests over and
+// over. GSM is copied straight across; the bending length sets the flexural
+// rigidity (see BendingFit); when the drape coefficient was measured too,
+// the normalised bending rigidity is searched so the drape test matches it
+// with the flexural rigidity refitted at each trial. A drape coefficient on
+// its own is matched with the flexural rigidity instead.
+// Each trial is a full simulation, so a fabric takes from seconds to a
+// minute or so; scripts/fitMaterials.ts runs a whole catalogue from Node.
+
+import type { SolverMethod } from './ClothSolver';
+import { DEFAULT_FABRIC, FabricMaterial } from './FabricMaterial';
+import { BendingFit, CantileverTest, DEFAULT_CANTILEVER, FIT_TOLERANCE } from './cantilever';
+import { DEFAULT_DRAPE_TEST, DrapeTest } from './drapeTest';
+import { readCsvRecords } from './fabricLibrary';
+import type { MaterialCalibration } from './materialFile';
+
+export interface LabMeasurement {
+  name: string;
+  gsm: number;
+  drapeCoefficient?: number; // 0-1
+  specimenDiameter?: number; // m, of the drape test (the default test's if absent)
+  bendingLength?: number; // m
+}
+
+export interface MaterialFitOptions {
+  method: SolverMethod;
+  // Called after every simulated test, for progress output
+  onTrial?: (message: string) => void;
+}
+
+export interface MaterialFitResult {
+  material: FabricMaterial;
+  calibration: MaterialCalibration;
+  // Every measured value reproduced within its tolerance
+  matched: boolean;
+}
+
+// Drape coefficients within this of the measured one count as a match
+const DRAPE_TOLERANCE = 0.01;
+const DRAPE_MAX_TRIALS = 8;
+// Flexural rigidities (µN·m) searched when only the drape was measured
+const MIN_RIGIDITY = 0.1;
+const MAX_RIGIDITY = 5000;
+
+interface Probe {
+  x: number;
+  y: number;
+}
+
+interface SearchRange {
+  lo: number;
+  hi: number;
+  start: number;
+  step: number; // Of x, or of ln x on a log scale
+  log: boolean;
+  tolerance: number;
+  maxTrials: number;
+}
+
+// Searches [lo, hi] for where the increasing function f comes within the
+// tolerance of `target`: steps out from `start` until the target is
+// bracketed, then interpolates between the brackets. Returns the closest
+// probe, which is an end of the range when the target lies beyond it.
+const solveIncreasing = (f: (x: number) => number, target: number, range: SearchRange): Probe => {
+  const map = (x: number) => (range.log ? Math.log(x) : x);
+  const unmap = (u: number) => (range.log ? Math.exp(u) : u);
+  let below: Probe | null = null;
+  let above: Probe | null = null;
+  let best: Probe | null = null;
+  let x = range.start;
+
+  for (let trial = 0; trial < range.maxTrials; trial++) {
+    const probe = { x, y: f(x) };
+    const error = Math.abs(probe.y - target);
+    if (!best || error < Math.abs(best.y - target)) best = probe;
+    if (error <= range.tolerance) break;
+
+    if (probe.y < target) {
+      if (!below || x > below.x) below = probe;
+    } else if (!above || x < above.x) {
+      above = probe;
+    }
+
+    if (below && above) {
+      const t = (target - below.y) / (above.y - below.y);
+      // Keep clear of the brackets, as BendingFit does
+      const fraction = Math.min(0.9, Math.max(0.1, Number.isFinite(t) ? t : 0.5));
+      x = unmap(map(below.x) + (map(above.x) - map(below.x)) * fraction);
+    } else if (below) {
+      if (x >= range.hi) break;
+      x = Math.min(range.hi, unmap(map(x) + range.step));
+    } else {
+      if (x <= range.lo) break;
+      x = Math.max(range.lo, unmap(map(x) - range.step));
+    }
+  }
+  return best!;
+};
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+export const fitMaterial = (
+  measurement: LabMeasurement,
+  base: FabricMaterial = DEFAULT_FABRIC,
+  { method, onTrial = () => {} }: MaterialFitOptions
+): MaterialFitResult => {
+  const { drapeCoefficient, bendingLength } = measurement;
+  const drapeSettings = {
+    ...DEFAULT_DRAPE_TEST,
+    method,
+    specimenDiameter: measurement.specimenDiameter ?? DEFAULT_DRAPE_TEST.specimenDiameter
+  };
+  const cantileverSettings = { ...DEFAULT_CANTILEVER, method };
+
+  const drape = (material: FabricMaterial) => {
+    const { drapeCoefficient: simulated } = new DrapeTest(material, drapeSettings).run();
+    onTrial(
+      `drape test: bending ${material.bendingRigidity.toFixed(2)}, flexural ${material.flexuralRigidity.toFixed(1)} µN·m → ${(simulated * 100).toFixed(1)}%`
+    );
+    return simulated;
+  };
+  const fitBending = (material: FabricMaterial, target: number) => {
+    const fit = new BendingFit(material, target, cantileverSettings).run();
+    onTrial(
+      `bending fit: bending ${material.bendingRigidity.toFixed(2)} → ${fit.flexuralRigidity.toFixed(1)} µN·m (${(fit.bendingLength * 100).toFixed(2)} cm)`
+    );
+    return { ...material, flexuralRigidity: round(fit.flexuralRigidity, 0.1) };
+  };
+
+  let material: FabricMaterial = { ...base, gsm: measurement.gsm };
+  if (bendingLength !== undefined && drapeCoefficient !== undefined) {
+    const fitted = new Map<number, FabricMaterial>();
+    const best = solveIncreasing(
+      bendingRigidity => {
+        const candidate = fitBending({ ...material, bendingRigidity: round(bendingRigidity, 0.01) }, bendingLength);
+        fitted.set(bendingRigidity, candidate);
+        return drape(candidate);
+      },
+      drapeCoefficient,
+      { lo: 0, hi: 1, start: material.bendingRigidity, step: 0.5, log: false, tolerance: DRAPE_TOLERANCE, maxTrials: DRAPE_MAX_TRIALS }
+    );
+    material = fitted.get(best.x)!;
+  } else if (bendingLength !== undefined) {
+    material = fitBending(material, bendingLength);
+  } else if (drapeCoefficient !== undefined) {
+    const best = solveIncreasing(
+      flexuralRigidity => drape({ ...material, flexuralRigidity: round(flexuralRigidity, 0.1) }),
+      drapeCoefficient,
+      {
+        lo: MIN_RIGIDITY,
+        hi: MAX_RIGIDITY,
+        start: Math.min(MAX_RIGIDITY, Math.max(MIN_RIGIDITY, material.flexuralRigidity)),
+        step: Math.log(4),
+        log: true,
+        tolerance: DRAPE_TOLERANCE,
+        maxTrials: DRAPE_MAX_TRIALS
+      }
+    );
+    material = { ...material, flexuralRigidity: round(best.x, 0.1) };
+  }
+
+  // Measure the saved material once more, so the file reports what it gives
+  const simulated: MaterialCalibration['simulated'] = {};
+  let matched = true;
+  if (drapeCoefficient !== undefined) {
+    simulated.drapeCoefficient = new DrapeTest(material, drapeSettings).run().drapeCoefficient;
+    matched &&= Math.abs(simulated.drapeCoefficient - drapeCoefficient) <= DRAPE_TOLERANCE;
+  }
+  if (bendingLength !== undefined) {
+    simulated.bendingLength = new CantileverTest(material, cantileverSettings).run().bendingLength;
+    matched &&= Math.abs(simulated.bendingLength - bendingLength) <= FIT_TOLERANCE;
+  }
+
+  return {
+    material,
+    calibration: {
+      measured: { gsm: measurement.gsm, drapeCoefficient, bendingLength },
+      simulated,
+      method,
+      date: new Date().toISOString()
+    },
+    matched
+  };
+};
+
+// --- Lab data ---
+
+// CSV columns (any order, header names as below, empty cells not measured):
+// name, gsm, drape_coefficient_pct, specimen_mm, bending_length_cm. JSON is
+// an array of LabMeasurement objects in SI units.
+export const parseLabData = (text: string, name: string): LabMeasurement[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${name} is not valid JSON`);
+    }
+    if (!Array.isArray(rows)) throw new Error(`${name} must hold an array of measurements`);
+    return rows.map((value: unknown, i) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`${name} entry ${i + 1} must be an object`);
+      }
+      const row = value as Record<string, unknown>;
+      // Anything but a number (or nothing) fails the range checks below
+      const number = (key: string) => (row[key] == null ? undefined : typeof row[key] === 'number' ? row[key] : NaN);
+      return checkMeasurement(
+        {
+          name: typeof row.name === 'string' ? row.name : `Fabric ${i + 1}`,
+          gsm: number('gsm') as number,
+          drapeCoefficient: number('drapeCoefficient'),
+          specimenDiameter: number('specimenDiameter'),
+          bendingLength: number('bendingLength')
+        },
+        `${name} entry ${i + 1}`
+      );
+    });
+  }
+
+  // Quoted cells may hold commas, so names like "Twill, brushed" survive
+  const records = readCsvRecords(text, name);
+  if (records.length < 2) throw new Error(`${name} has no measurements`);
+  const header = records[0].cells.map(cell => cell.toLowerCase());
+  if (!header.includes('gsm')) throw new Error(`${name} has no "gsm" column`);
+
+  return records.slice(1).map(({ line, cells }, i) => {
+    const cell = (column: string) => cells[header.indexOf(column)] ?? '';
+    const number = (column: string, scale: number) => (cell(column) === '' ? undefined : Number(cell(column)) * scale);
+    return checkMeasurement(
+      {
+        name: cell('name') || `Fabric ${i + 1}`,
+        gsm: number('gsm', 1) as number,
+        drapeCoefficient: number('drape_coefficient_pct', 0.01),
+        specimenDiameter: number('specimen_mm', 0.001),
+        bendingLength: number('bending_length_cm', 0.01)
+      },
+      `${name} line ${line}`
+    );
+  });
+};
+
+const checkMeasurement = (measurement: LabMeasurement, where: string) => {
+  const { gsm, drapeCoefficient, specimenDiameter, bendingLength } = measurement;
+  if (typeof gsm !== 'number' || !(gsm > 0)) throw new Error(`${where}: GSM must be a positive number`);
+  if (drapeCoefficient !== undefined && !(drapeCoefficient >= 0 && drapeCoefficient <= 1)) {
+    throw new Error(`${where}: drape coefficient must be between 0 and 100%`);
+  }
+  if (specimenDiameter !== undefined && !(specimenDiameter > DEFAULT_DRAPE_TEST.diskDiameter)) {
+    throw new Error(`${where}: specimen must be wider than the ${DEFAULT_DRAPE_TEST.diskDiameter * 1000} mm disk`);
+  }
+  if (bendingLength !== undefined && !(bendingLength > 0 && bendingLength < DEFAULT_CANTILEVER.stripLength / 2)) {
+    throw new Error(`${where}: bending length must be between 0 and ${DEFAULT_CANTILEVER.stripLength * 50} cm`);
+  }
+  return measurement;
+};
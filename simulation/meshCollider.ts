@@ -0,0 +1,396 @@
+// Bounding volume hierarchy over a triangle mesh, and the signed distance
+// query the cloth solver uses to collide against it. The tree is stored in
+// flat typed arrays so it can be built once when a model is loaded and then
+// posted to a worker together with the mesh.
+
+export interface TriangleBVH {
+  // Per node: min x, y, z, max x, y, z
+  bounds: Float32Array;
+  // Per node: [first triangle, count] for leaves, [right child, 0] for inner
+  // nodes (the left child always directly follows its parent)
+  nodes: Uint32Array;
+  // Triangle indices in leaf order
+  triangles: Uint32Array;
+}
+
+const LEAF_SIZE = 4;
+
+export const buildTriangleBVH = (vertices: Float32Array, indices: Uint32Array): TriangleBVH => {
+  const triCount = indices.length / 3;
+  const triangles = new Uint32Array(triCount);
+  const centroids = new Float32Array(triCount * 3);
+  for (let t = 0; t < triCount; t++) {
+    triangles[t] = t;
+    for (let axis = 0; axis < 3; axis++) {
+      centroids[t * 3 + axis] =
+        (vertices[indices[t * 3] * 3 + axis] +
+          vertices[indices[t * 3 + 1] * 3 + axis] +
+          vertices[indices[t * 3 + 2] * 3 + axis]) / 3;
+    }
+  }
+
+  // A binary tree with leaves of at least one triangle has < 2n nodes
+  const maxNodes = Math.max(1, 2 * triCount);
+  const bounds = new Float32Array(maxNodes * 6);
+  const nodes = new Uint32Array(maxNodes * 2);
+  let nodeCount = 0;
+
+  const build = (start: number, end: number): number => {
+    const node = nodeCount++;
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    let cMinX = Infinity, cMinY = Infinity, cMinZ = Infinity;
+    let cMaxX = -Infinity, cMaxY = -Infinity, cMaxZ = -Infinity;
+
+    for (let k = start; k < end; k++) {
+      const t = triangles[k];
+      for (let c = 0; c < 3; c++) {
+        const v = indices[t * 3 + c] * 3;
+        minX = Math.min(minX, vertices[v]); maxX = Math.max(maxX, vertices[v]);
+        minY = Math.min(minY, vertices[v + 1]); maxY = Math.max(maxY, vertices[v + 1]);
+        minZ = Math.min(minZ, vertices[v + 2]); maxZ = Math.max(maxZ, vertices[v + 2]);
+      }
+      cMinX = Math.min(cMinX, centroids[t * 3]); cMaxX = Math.max(cMaxX, centroids[t * 3]);
+      cMinY = Math.min(cMinY, centroids[t * 3 + 1]); cMaxY = Math.max(cMaxY, centroids[t * 3 + 1]);
+      cMinZ = Math.min(cMinZ, centroids[t * 3 + 2]); cMaxZ = Math.max(cMaxZ, centroids[t * 3 + 2]);
+    }
+    bounds.set([minX, minY, minZ, maxX, maxY, maxZ], node * 6);
+
+    if (end - start <= LEAF_SIZE) {
+      nodes[node * 2] = start;
+      nodes[node * 2 + 1] = end - start;
+      return node;
+    }
+
+    // Split at the midpoint of the widest centroid axis
+    const ex = cMaxX - cMinX, ey = cMaxY - cMinY, ez = cMaxZ - cMinZ;
+    const axis = ex >= ey && ex >= ez ? 0 : ey >= ez ? 1 : 2;
+    const split = axis === 0 ? (cMinX + cMaxX) / 2 : axis === 1 ? (cMinY + cMaxY) / 2 : (cMinZ + cMaxZ) / 2;
+
+    let mid = start;
+    for (let k = start; k < end; k++) {
+      const t = triangles[k];
+      if (centroids[t * 3 + axis] < split) {
+        triangles[k] = triangles[mid];
+        triangles[mid++] = t;
+      }
+    }
+    // All centroids on one side (coincident triangles): split by count
+    if (mid === start || mid === end) mid = (start + end) >> 1;
+
+    build(start, mid);
+    nodes[node * 2] = build(mid, end);
+    nodes[node * 2 + 1] = 0;
+    return node;
+  };
+
+  if (triCount > 0) build(0, triCount);
+
+  return {
+    bounds: bounds.slice(0, nodeCount * 6),
+    nodes: nodes.slice(0, nodeCount * 2),
+    triangles
+  };
+};
+
+// Squared distance from a point to a node's box (0 inside)
+const boxDistanceSq = (bounds: Float32Array, node: number, x: number, y: number, z: number) => {
+  const o = node * 6;
+  const dx = Math.max(bounds[o] - x, 0, x - bounds[o + 3]);
+  const dy = Math.max(bounds[o + 1] - y, 0, y - bounds[o + 4]);
+  const dz = Math.max(bounds[o + 2] - z, 0, z - bounds[o + 5]);
+  return dx * dx + dy * dy + dz * dz;
+};
+
+// Closest point on triangle (a, b, c) to p, written into `out`; a, b and c
+// are offsets into `vertices` (Ericson, Real-Time Collision Detection, 5.1.5)
+export const closestPointOnTriangle = (
+  vertices: Float32Array,
+  ia: number, ib: number, ic: number,
+  px: number, py: number, pz: number,
+  out: Float64Array
+) => {
+  const ax = vertices[ia], ay = vertices[ia + 1], az = vertices[ia + 2];
+  const abx = vertices[ib] - ax, aby = vertices[ib + 1] - ay, abz = vertices[ib + 2] - az;
+  const acx = vertices[ic] - ax, acy = vertices[ic + 1] - ay, acz = vertices[ic + 2] - az;
+  const apx = px - ax, apy = py - ay, apz = pz - az;
+
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  let v = 0, w = 0;
+
+  if (d1 <= 0 && d2 <= 0) {
+    // Vertex A
+  } else {
+    const bpx = px - vertices[ib], bpy = py - vertices[ib + 1], bpz = pz - vertices[ib + 2];
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    const cpx = px - vertices[ic], cpy = py - vertices[ic + 1], cpz = pz - vertices[ic + 2];
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    const vc = d1 * d4 - d3 * d2;
+    const vb = d5 * d2 - d1 * d6;
+    const va = d3 * d6 - d5 * d4;
+
+    if (d3 >= 0 && d4 <= d3) {
+      v = 1; // Vertex B
+    } else if (d6 >= 0 && d5 <= d6) {
+      w = 1; // Vertex C
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      v = d1 / (d1 - d3); // Edge AB
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      w = d2 / (d2 - d6); // Edge AC
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      w = (d4 - d3) / (d4 - d3 + (d5 - d6)); // Edge BC
+      v = 1 - w;
+    } else {
+      const denom = 1 / (va + vb + vc);
+      v = vb * denom;
+      w = vc * denom;
+    }
+  }
+
+  out[0] = ax + abx * v + acx * w;
+  out[1] = ay + aby * v + acy * w;
+  out[2] = az + abz * v + acz * w;
+};
+
+// Recomputes node bounds for moved vertices, keeping the tree's layout.
+// Children always follow their parent, so one backward pass suffices. The
+// tree gets looser as the mesh deforms, but queries stay exact.
+export const refitTriangleBVH = (bvh: TriangleBVH, vertices: Float32Array, indices: Uint32Array) => {
+  const { bounds, nodes, triangles } = bvh;
+  for (let node = nodes.length / 2 - 1; node >= 0; node--) {
+    const o = node * 6;
+    const count = nodes[node * 2 + 1];
+    if (count === 0) {
+      const l = (node + 1) * 6;
+      const r = nodes[node * 2] * 6;
+      for (let axis = 0; axis < 3; axis++) {
+        bounds[o + axis] = Math.min(bounds[l + axis], bounds[r + axis]);
+        bounds[o + 3 + axis] = Math.max(bounds[l + 3 + axis], bounds[r + 3 + axis]);
+      }
+      continue;
+    }
+    bounds.fill(Infinity, o, o + 3);
+    bounds.fill(-Infinity, o + 3, o + 6);
+    const first = nodes[node * 2];
+    for (let k = first; k < first + count; k++) {
+      for (let c = 0; c < 3; c++) {
+        const v = indices[triangles[k] * 3 + c] * 3;
+        for (let axis = 0; axis < 3; axis++) {
+          bounds[o + axis] = Math.min(bounds[o + axis], vertices[v + axis]);
+          bounds[o + 3 + axis] = Math.max(bounds[o + 3 + axis], vertices[v + axis]);
+        }
+      }
+    }
+  }
+};
+
+const scratchPoint = new Float64Array(3);
+const scratchClosest = new Float64Array(3);
+const scratchNormal = new Float64Array(3);
+
+// Traversal stack shared by the queries; doubled whenever a deep tree needs more
+let stack = new Uint32Array(64);
+const pushNode = (top: number, node: number) => {
+  if (top === stack.length) {
+    const grown = new Uint32Array(stack.length * 2);
+    grown.set(stack);
+    stack = grown;
+  }
+  stack[top] = node;
+  return top + 1;
+};
+
+// Signed distance from a point to a closed triangle mesh (negative inside),
+// with the outward direction written into `normal`. Near the surface the side
+// comes from the face normal of the closest triangle, so the mesh should be
+// watertight with consistent counter-clockwise winding.
+// The search for the closest triangle stops at `maxDistance`: points further
+// than that outside report `maxDistance`, which keeps queries for the bulk of
+// a cloth cheap. Points further than that inside (a fast particle that ended
+// its step deep in the mesh) are found by a parity test and still get their
+// true negative distance, so they are pushed out rather than left inside.
+export const meshDistance = (
+  vertices: Float32Array,
+  indices: Uint32Array,
+  bvh: TriangleBVH,
+  x: number,
+  y: number,
+  z: number,
+  normal: Float64Array,
+  maxDistance = Infinity
+): number => {
+  let bestTri = closestTriangle(vertices, indices, bvh, x, y, z, scratchClosest, maxDistance);
+  const deep = bestTri < 0;
+  if (deep) {
+    if (!isInsideMesh(vertices, indices, bvh, x, y, z)) {
+      normal[0] = 0; normal[1] = 1; normal[2] = 0;
+      return maxDistance;
+    }
+    bestTri = closestTriangle(vertices, indices, bvh, x, y, z, scratchClosest);
+  }
+
+  // Face normal of the closest triangle decides the side, unless the parity
+  // test already has
+  triangleNormal(vertices, indices, bestTri, scratchNormal);
+  const [fx, fy, fz] = scratchNormal;
+  const dx = x - scratchClosest[0], dy = y - scratchClosest[1], dz = z - scratchClosest[2];
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const sign = deep || dx * fx + dy * fy + dz * fz < 0 ? -1 : 1;
+
+  if (dist < 1e-9) {
+    normal[0] = fx; normal[1] = fy; normal[2] = fz;
+  } else {
+    normal[0] = (sign * dx) / dist;
+    normal[1] = (sign * dy) / dist;
+    normal[2] = (sign * dz) / dist;
+  }
+  return sign * dist;
+};
+
+// Unit face normal of triangle `t` (counter-clockwise winding), into `out`
+export const triangleNormal = (vertices: Float32Array, indices: Uint32Array, t: number, out: Float64Array) => {
+  const ia = indices[t * 3] * 3, ib = indices[t * 3 + 1] * 3, ic = indices[t * 3 + 2] * 3;
+  const e1x = vertices[ib] - vertices[ia], e1y = vertices[ib + 1] - vertices[ia + 1], e1z = vertices[ib + 2] - vertices[ia + 2];
+  const e2x = vertices[ic] - vertices[ia], e2y = vertices[ic + 1] - vertices[ia + 1], e2z = vertices[ic + 2] - vertices[ia + 2];
+  const fx = e1y * e2z - e1z * e2y;
+  const fy = e1z * e2x - e1x * e2z;
+  const fz = e1x * e2y - e1y * e2x;
+  const fLen = Math.sqrt(fx * fx + fy * fy + fz * fz) || 1;
+  out[0] = fx / fLen;
+  out[1] = fy / fLen;
+  out[2] = fz / fLen;
+};
+
+// Closest point on the mesh to (x, y, z), written into `closest`. Returns the
+// triangle it lies on, or -1 when nothing is within `maxDistance`.
+export const closestTriangle = (
+  vertices: Float32Array,
+  indices: Uint32Array,
+  bvh: TriangleBVH,
+  x: number,
+  y: number,
+  z: number,
+  closest: Float64Array,
+  maxDistance = Infinity
+): number => {
+  const { bounds, nodes, triangles } = bvh;
+  let bestSq = maxDistance * maxDistance;
+  let bestTri = -1;
+
+  let top = 0;
+  if (nodes.length > 0) top = pushNode(top, 0);
+
+  while (top > 0) {
+    const node = stack[--top];
+    if (boxDistanceSq(bounds, node, x, y, z) >= bestSq) continue;
+
+    const count = nodes[node * 2 + 1];
+    if (count > 0) {
+      const first = nodes[node * 2];
+      for (let k = first; k < first + count; k++) {
+        const t = triangles[k];
+        closestPointOnTriangle(vertices, indices[t * 3] * 3, indices[t * 3 + 1] * 3, indices[t * 3 + 2] * 3, x, y, z, scratchPoint);
+        const dx = x - scratchPoint[0];
+        const dy = y - scratchPoint[1];
+        const dz = z - scratchPoint[2];
+        const dSq = dx * dx + dy * dy + dz * dz;
+        if (dSq < bestSq) {
+          bestSq = dSq;
+          bestTri = t;
+          closest[0] = scratchPoint[0]; closest[1] = scratchPoint[1]; closest[2] = scratchPoint[2];
+        }
+      }
+      continue;
+    }
+
+    // Visit the nearer child first so the far one is more likely to be culled
+    const left = node + 1;
+    const right = nodes[node * 2];
+    if (boxDistanceSq(bounds, left, x, y, z) < boxDistanceSq(bounds, right, x, y, z)) {
+      top = pushNode(pushNode(top, right), left);
+    } else {
+      top = pushNode(pushNode(top, left), right);
+    }
+  }
+
+  return bestTri;
+};
+
+// Ray for the parity test. Skewed off the axes so it rarely runs exactly
+// along an edge or through a vertex of an axis-aligned model.
+const RAY_X = 1, RAY_Y = 0.0013, RAY_Z = 0.0017;
+
+// Whether the point lies inside the closed mesh: a ray from it crosses the
+// surface an odd number of times. Independent of winding.
+export const isInsideMesh = (
+  vertices: Float32Array,
+  indices: Uint32Array,
+  bvh: TriangleBVH,
+  x: number,
+  y: number,
+  z: number
+): boolean => {
+  const { bounds, nodes, triangles } = bvh;
+  if (nodes.length === 0 || boxDistanceSq(bounds, 0, x, y, z) > 0) return false;
+
+  let crossings = 0;
+  let top = pushNode(0, 0);
+  while (top > 0) {
+    const node = stack[--top];
+    if (!rayHitsBox(bounds, node, x, y, z)) continue;
+
+    const count = nodes[node * 2 + 1];
+    if (count > 0) {
+      const first = nodes[node * 2];
+      for (let k = first; k < first + count; k++) {
+        const t = triangles[k];
+        if (rayHitsTriangle(vertices, indices[t * 3] * 3, indices[t * 3 + 1] * 3, indices[t * 3 + 2] * 3, x, y, z)) crossings++;
+      }
+      continue;
+    }
+    top = pushNode(pushNode(top, node + 1), nodes[node * 2]);
+  }
+  return crossings % 2 === 1;
+};
+
+// Slab test of the parity ray against a node's box
+const rayHitsBox = (bounds: Float32Array, node: number, x: number, y: number, z: number) => {
+  const o = node * 6;
+  let near = 0, far = Infinity;
+  const slab = (origin: number, dir: number, min: number, max: number) => {
+    const t1 = (min - origin) / dir;
+    const t2 = (max - origin) / dir;
+    near = Math.max(near, Math.min(t1, t2));
+    far = Math.min(far, Math.max(t1, t2));
+  };
+  slab(x, RAY_X, bounds[o], bounds[o + 3]);
+  slab(y, RAY_Y, bounds[o + 1], bounds[o + 4]);
+  slab(z, RAY_Z, bounds[o + 2], bounds[o + 5]);
+  return near <= far;
+};
+
+// Parity ray against triangle (a, b, c), offsets into `vertices`
+// (Möller and Trumbore, Fast, Minimum Storage Ray/Triangle Intersection)
+const rayHitsTriangle = (vertices: Float32Array, ia: number, ib: number, ic: number, x: number, y: number, z: number) => {
+  const ax = vertices[ia], ay = vertices[ia + 1], az = vertices[ia + 2];
+  const e1x = vertices[ib] - ax, e1y = vertices[ib + 1] - ay, e1z = vertices[ib + 2] - az;
+  const e2x = vertices[ic] - ax, e2y = vertices[ic + 1] - ay, e2z = vertices[ic + 2] - az;
+  const px = RAY_Y * e2z - RAY_Z * e2y;
+  const py = RAY_Z * e2x - RAY_X * e2z;
+  const pz = RAY_X * e2y - RAY_Y * e2x;
+  const det = e1x * px + e1y * py + e1z * pz;
+  if (Math.abs(det) < 1e-12) return false;
+  const inv = 1 / det;
+  const tx = x - ax, ty = y - ay, tz = z - az;
+  const u = (tx * px + ty * py + tz * pz) * inv;
+  if (u < 0 || u > 1) return false;
+  const qx = ty * e1z - tz * e1y;
+  const qy = tz * e1x - tx * e1z;
+  const qz = tx * e1y - ty * e1x;
+  const v = (RAY_X * qx + RAY_Y * qy + RAY_Z * qz) * inv;
+  if (v < 0 || u + v > 1) return false;
+  return (e2x * qx + e2y * qy + e2z * qz) * inv > 0;
+};
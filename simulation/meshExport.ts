@@ -0,0 +1,348 @@
+// Writes the draped cloth (and optionally the colliders) to files other 3D
+// tools open: glTF 2.0 (binary .glb or embedded .gltf), Wavefront OBJ and
+// binary PLY. Meshes are plain world-space arrays in metres, y up, so the
+// writers run in a browser or in Node alike.
+
+import * as THREE from 'three';
+import type { ClothSimulation } from './ClothSimulation';
+import type { Collider } from './colliders';
+
+export type ExportFormat = 'glb' | 'gltf' | 'obj' | 'ply';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  glb: 'glTF Binary (.glb)',
+  gltf: 'glTF (.gltf)',
+  obj: 'Wavefront OBJ (.obj)',
+  ply: 'PLY (.ply)'
+};
+
+export interface ExportMesh {
+  name: string;
+  positions: Float32Array; // xyz per vertex
+  normals: Float32Array; // Unit xyz per vertex
+  uvs: Float32Array | null; // uv per vertex, v up (as in three.js)
+  indices: Uint32Array; // Counter-clockwise triangles
+  color: string; // '#rrggbb'
+  doubleSided: boolean;
+}
+
+export interface ExportedFile {
+  data: string | ArrayBuffer;
+  extension: ExportFormat;
+  mimeType: string;
+}
+
+// A cloth as the renderer holds it: its simulation (or a headless run's
+// solver state), plus the texture coordinates of the mesh it was built from
+// (particles split off by tearing take their origin's)
+export interface ClothExportSource {
+  simulation: Pick<ClothSimulation, 'count' | 'origins' | 'positions' | 'normals' | 'indices'>;
+  uvs: Float32Array;
+}
+
+export const clothExportMesh = (name: string, color: string, { simulation, uvs }: ClothExportSource): ExportMesh => {
+  const count = simulation.count;
+  const meshUvs = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    const origin = simulation.origins[i];
+    meshUvs[i * 2] = uvs[origin * 2];
+    meshUvs[i * 2 + 1] = uvs[origin * 2 + 1];
+  }
+  return {
+    name,
+    positions: simulation.positions.slice(0, count * 3),
+    normals: simulation.normals.slice(0, count * 3),
+    uvs: meshUvs,
+    indices: simulation.indices.slice(),
+    color,
+    doubleSided: true
+  };
+};
+
+const COLLIDER_COLOR = '#4f46e5';
+
+// Colliders tessellated as the scene draws them; planes become a square of
+// `planeSize` metres around the point nearest the origin
+export const colliderExportMesh = (collider: Collider, planeSize = 10): ExportMesh => {
+  let geometry: THREE.BufferGeometry;
+  switch (collider.kind) {
+    case 'sphere':
+      geometry = new THREE.SphereGeometry(collider.radius, 32, 16).translate(...collider.center);
+      break;
+    case 'capsule': {
+      const start = new THREE.Vector3(...collider.start);
+      const end = new THREE.Vector3(...collider.end);
+      const axis = end.clone().sub(start);
+      const length = axis.length();
+      const up = new THREE.Vector3(0, 1, 0);
+      geometry = new THREE.CapsuleGeometry(collider.radius, length, 8, 24)
+        .applyQuaternion(new THREE.Quaternion().setFromUnitVectors(up, length > 0 ? axis.normalize() : up))
+        .translate(...start.add(end).multiplyScalar(0.5).toArray());
+      break;
+    }
+    case 'box': {
+      const [hx, hy, hz] = collider.halfExtents;
+      geometry = new THREE.BoxGeometry(hx * 2, hy * 2, hz * 2)
+        .applyMatrix4(new THREE.Matrix4().makeRotationFromEuler(new THREE.Euler(...collider.rotation)))
+        .translate(...collider.center);
+      break;
+    }
+    case 'plane': {
+      const normal = new THREE.Vector3(...collider.normal).normalize();
+      geometry = new THREE.PlaneGeometry(planeSize, planeSize)
+        .applyQuaternion(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal))
+        .translate(...normal.multiplyScalar(collider.offset).toArray());
+      break;
+    }
+    case 'mesh':
+      geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(collider.vertices, 3));
+      geometry.setIndex(new THREE.BufferAttribute(collider.indices, 1));
+      geometry.computeVertexNormals();
+      break;
+  }
+
+  const uv = geometry.getAttribute('uv');
+  const mesh: ExportMesh = {
+    name: collider.kind === 'mesh' ? collider.name : `${collider.kind}-${collider.id ?? 'collider'}`,
+    positions: new Float32Array(geometry.getAttribute('position').array),
+    normals: new Float32Array(geometry.getAttribute('normal').array),
+    uvs: uv ? new Float32Array(uv.array) : null,
+    indices: new Uint32Array(geometry.getIndex()!.array),
+    color: COLLIDER_COLOR,
+    doubleSided: collider.kind === 'plane'
+  };
+  geometry.dispose();
+  return mesh;
+};
+
+export const exportMeshes = (meshes: ExportMesh[], format: ExportFormat): ExportedFile => {
+  switch (format) {
+    case 'glb':
+      return { data: meshesToGlb(meshes), extension: format, mimeType: 'model/gltf-binary' };
+    case 'gltf':
+      return { data: meshesToGltf(meshes), extension: format, mimeType: 'model/gltf+json' };
+    case 'obj':
+      return { data: meshesToObj(meshes), extension: format, mimeType: 'model/obj' };
+    case 'ply':
+      return { data: meshesToPly(meshes), extension: format, mimeType: 'application/octet-stream' };
+  }
+};
+
+const GENERATOR = 'Fabric Drape Simulation';
+
+// --- OBJ ---
+
+// One object per mesh; indices are global across the file and 1-based
+export const meshesToObj = (meshes: ExportMesh[]) => {
+  const lines = [`# ${GENERATOR}`, '# Units: metres, y up'];
+  let offset = 1;
+  meshes.forEach(mesh => {
+    const count = mesh.positions.length / 3;
+    lines.push(`o ${mesh.name.replace(/\s+/g, '_')}`);
+    for (let i = 0; i < count; i++) {
+      lines.push(`v ${mesh.positions[i * 3]} ${mesh.positions[i * 3 + 1]} ${mesh.positions[i * 3 + 2]}`);
+    }
+    if (mesh.uvs) {
+      for (let i = 0; i < count; i++) lines.push(`vt ${mesh.uvs[i * 2]} ${mesh.uvs[i * 2 + 1]}`);
+    }
+    for (let i = 0; i < count; i++) {
+      lines.push(`vn ${mesh.normals[i * 3]} ${mesh.normals[i * 3 + 1]} ${mesh.normals[i * 3 + 2]}`);
+    }
+    const corner = (i: number) => {
+      const v = mesh.indices[i] + offset;
+      return mesh.uvs ? `${v}/${v}/${v}` : `${v}//${v}`;
+    };
+    for (let t = 0; t < mesh.indices.length; t += 3) {
+      lines.push(`f ${corner(t)} ${corner(t + 1)} ${corner(t + 2)}`);
+    }
+    offset += count;
+  });
+  return lines.join('\n') + '\n';
+};
+
+// --- PLY ---
+
+// PLY holds a single mesh, so everything is merged; vertex colours tell the
+// cloth and colliders apart
+export const meshesToPly = (meshes: ExportMesh[]): ArrayBuffer => {
+  const vertexCount = meshes.reduce((sum, mesh) => sum + mesh.positions.length / 3, 0);
+  const faceCount = meshes.reduce((sum, mesh) => sum + mesh.indices.length / 3, 0);
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    `comment ${GENERATOR}`,
+    `comment ${meshes.map(mesh => mesh.name.replace(/\s+/g, '_')).join(' ')}`,
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property float nx',
+    'property float ny',
+    'property float nz',
+    'property float s',
+    'property float t',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    `element face ${faceCount}`,
+    'property list uchar uint vertex_indices',
+    'end_header',
+    ''
+  ].join('\n');
+  const headerBytes = new TextEncoder().encode(header);
+
+  const VERTEX_BYTES = 8 * 4 + 3;
+  const FACE_BYTES = 1 + 3 * 4;
+  const buffer = new ArrayBuffer(headerBytes.length + vertexCount * VERTEX_BYTES + faceCount * FACE_BYTES);
+  new Uint8Array(buffer).set(headerBytes);
+  const view = new DataView(buffer);
+  let at = headerBytes.length;
+
+  meshes.forEach(mesh => {
+    const rgb = srgbBytes(mesh.color);
+    for (let i = 0; i < mesh.positions.length / 3; i++) {
+      for (let k = 0; k < 3; k++, at += 4) view.setFloat32(at, mesh.positions[i * 3 + k], true);
+      for (let k = 0; k < 3; k++, at += 4) view.setFloat32(at, mesh.normals[i * 3 + k], true);
+      for (let k = 0; k < 2; k++, at += 4) view.setFloat32(at, mesh.uvs ? mesh.uvs[i * 2 + k] : 0, true);
+      for (let k = 0; k < 3; k++, at++) view.setUint8(at, rgb[k]);
+    }
+  });
+  let offset = 0;
+  meshes.forEach(mesh => {
+    for (let t = 0; t < mesh.indices.length; t += 3) {
+      view.setUint8(at++, 3);
+      for (let k = 0; k < 3; k++, at += 4) view.setUint32(at, mesh.indices[t + k] + offset, true);
+    }
+    offset += mesh.positions.length / 3;
+  });
+  return buffer;
+};
+
+const srgbBytes = (color: string) => {
+  const hex = new THREE.Color(color).getHex();
+  return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255];
+};
+
+// --- glTF ---
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+
+// Document plus the one binary buffer it refers to. Each mesh is a node with
+// its own material; glTF texture coordinates run top-down, so v is flipped.
+const buildGltf = (meshes: ExportMesh[]) => {
+  const chunks: (Float32Array | Uint32Array)[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let byteLength = 0;
+
+  const addAccessor = (array: Float32Array | Uint32Array, type: string, target: number, extra: object = {}) => {
+    chunks.push(array);
+    bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: array.byteLength, target });
+    byteLength += array.byteLength;
+    const components = type === 'VEC3' ? 3 : type === 'VEC2' ? 2 : 1;
+    accessors.push({
+      bufferView: bufferViews.length - 1,
+      componentType: array instanceof Float32Array ? FLOAT : UNSIGNED_INT,
+      count: array.length / components,
+      type,
+      ...extra
+    });
+    return accessors.length - 1;
+  };
+
+  const gltfMeshes = meshes.map(mesh => {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < mesh.positions.length; i++) {
+      min[i % 3] = Math.min(min[i % 3], mesh.positions[i]);
+      max[i % 3] = Math.max(max[i % 3], mesh.positions[i]);
+    }
+    const attributes: Record<string, number> = {
+      POSITION: addAccessor(mesh.positions, 'VEC3', ARRAY_BUFFER, { min, max }),
+      NORMAL: addAccessor(mesh.normals, 'VEC3', ARRAY_BUFFER)
+    };
+    if (mesh.uvs) {
+      const uvs = mesh.uvs.slice();
+      for (let i = 1; i < uvs.length; i += 2) uvs[i] = 1 - uvs[i];
+      attributes.TEXCOORD_0 = addAccessor(uvs, 'VEC2', ARRAY_BUFFER);
+    }
+    const indices = addAccessor(mesh.indices, 'SCALAR', ELEMENT_ARRAY_BUFFER);
+    return { attributes, indices };
+  });
+
+  const document = {
+    asset: { version: '2.0', generator: GENERATOR },
+    scene: 0,
+    scenes: [{ nodes: meshes.map((_, i) => i) }],
+    nodes: meshes.map((mesh, i) => ({ name: mesh.name, mesh: i })),
+    meshes: meshes.map((mesh, i) => ({
+      name: mesh.name,
+      primitives: [{ attributes: gltfMeshes[i].attributes, indices: gltfMeshes[i].indices, material: i }]
+    })),
+    materials: meshes.map(mesh => ({
+      name: mesh.name,
+      pbrMetallicRoughness: {
+        // Linear RGB, as glTF expects
+        baseColorFactor: [...new THREE.Color(mesh.color).toArray(), 1],
+        metallicFactor: 0,
+        roughnessFactor: 0.9
+      },
+      doubleSided: mesh.doubleSided
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength } as { byteLength: number; uri?: string }]
+  };
+
+  // Every array holds 4-byte values, so the views stay aligned
+  const binary = new Uint8Array(byteLength);
+  let at = 0;
+  chunks.forEach(array => {
+    binary.set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength), at);
+    at += array.byteLength;
+  });
+  return { document, binary };
+};
+
+// Self-contained .gltf with the buffer embedded as a data URI
+export const meshesToGltf = (meshes: ExportMesh[]) => {
+  const { document, binary } = buildGltf(meshes);
+  let text = '';
+  for (let i = 0; i < binary.length; i += 0x8000) {
+    text += String.fromCharCode(...binary.subarray(i, i + 0x8000));
+  }
+  document.buffers[0].uri = `data:application/octet-stream;base64,${btoa(text)}`;
+  return JSON.stringify(document);
+};
+
+// GLB container: 12-byte header, then a JSON chunk (space padded) and a BIN
+// chunk (zero padded), each a multiple of 4 bytes long
+export const meshesToGlb = (meshes: ExportMesh[]): ArrayBuffer => {
+  const { document, binary } = buildGltf(meshes);
+  const json = new TextEncoder().encode(JSON.stringify(document));
+  const jsonLength = Math.ceil(json.length / 4) * 4;
+  const binLength = Math.ceil(binary.length / 4) * 4;
+  const total = 12 + 8 + jsonLength + 8 + binLength;
+
+  const buffer = new ArrayBuffer(total);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint32(0, 0x46546c67, true); // 'glTF'
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // 'JSON'
+  bytes.set(json, 20);
+  bytes.fill(0x20, 20 + json.length, 20 + jsonLength);
+
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, binLength, true);
+  view.setUint32(binStart + 4, 0x004e4942, true); // 'BIN'
+  bytes.set(binary, binStart + 8);
+  return buffer;
+};
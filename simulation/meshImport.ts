@@ -0,0 +1,75 @@
+// Loads a mannequin or product model from a local glTF/GLB/OBJ file and turns
+// it into a mesh collider standing on the floor.
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { FLOOR_HEIGHT, MeshCollider, createMeshCollider } from './colliders';
+
+// Models are rescaled to this height (m) so any unit system drapes sensibly
+export const MESH_COLLIDER_HEIGHT = 3.5;
+
+export const MESH_FILE_ACCEPT = '.glb,.gltf,.obj';
+
+const loadObject = async (file: File): Promise<THREE.Object3D> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'glb' || extension === 'gltf') {
+    // External .bin/texture files cannot be resolved from a single local file,
+    // so .gltf must have its buffers embedded
+    const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+    return gltf.scene;
+  }
+  if (extension === 'obj') {
+    return new OBJLoader().parse(await file.text());
+  }
+  throw new Error(`Unsupported model format: ${file.name}`);
+};
+
+export const loadMeshCollider = async (file: File, id: string): Promise<MeshCollider> => {
+  const root = await loadObject(file);
+  root.updateMatrixWorld(true);
+
+  // Bake every mesh into one world-space triangle soup
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const point = new THREE.Vector3();
+  root.traverse(object => {
+    const mesh = object as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const position = mesh.geometry.getAttribute('position');
+    if (!position) return;
+
+    const base = positions.length / 3;
+    for (let i = 0; i < position.count; i++) {
+      point.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      positions.push(point.x, point.y, point.z);
+    }
+    const index = mesh.geometry.getIndex();
+    const triangleVertices = index ? index.count : position.count;
+    // Mirrored transforms flip the winding, which would turn the mesh inside out
+    const flip = mesh.matrixWorld.determinant() < 0;
+    for (let i = 0; i + 2 < triangleVertices; i += 3) {
+      const a = index ? index.getX(i) : i;
+      const b = index ? index.getX(i + 1) : i + 1;
+      const c = index ? index.getX(i + 2) : i + 2;
+      if (flip) indices.push(base + a, base + c, base + b);
+      else indices.push(base + a, base + b, base + c);
+    }
+  });
+
+  if (indices.length === 0) throw new Error(`No triangles found in ${file.name}`);
+
+  // Fit to the standard height, centred over the origin, feet on the floor
+  const vertices = new Float32Array(positions);
+  const box = new THREE.Box3().setFromArray(vertices);
+  const size = box.getSize(new THREE.Vector3());
+  const scale = size.y > 0 ? MESH_COLLIDER_HEIGHT / size.y : 1;
+  const center = box.getCenter(new THREE.Vector3());
+  for (let i = 0; i < vertices.length; i += 3) {
+    vertices[i] = (vertices[i] - center.x) * scale;
+    vertices[i + 1] = (vertices[i + 1] - box.min.y) * scale + FLOOR_HEIGHT;
+    vertices[i + 2] = (vertices[i + 2] - center.z) * scale;
+  }
+
+  return createMeshCollider(id, file.name, vertices, new Uint32Array(indices));
+};
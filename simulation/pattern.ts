@@ -0,0 +1,242 @@
+// Garments built from flat pattern pieces: each piece is triangulated, stood
+// upright around the body, and joined to the others by seam links that
+// draw the matching edges together.
+
+import type { ConstraintGroup } from './ClothSolver';
+import type { ClothMesh } from './clothGrid';
+import { Vec2, triangulatePolygon } from './triangulate';
+
+export interface PatternPiece {
+  name: string;
+  // Counter-clockwise outline in metres, y up, as drawn on the pattern; the
+  // x axis is the grain (warp) direction
+  outline: Vec2[];
+}
+
+// Outline edge `edge` runs from outline[edge] to outline[edge + 1]
+export interface SeamEdge {
+  piece: number;
+  edge: number;
+}
+
+export interface Seam {
+  a: SeamEdge;
+  b: SeamEdge;
+  // Two counter-clockwise pieces facing each other meet start-to-end; set
+  // this to join the edges start-to-start instead
+  flip: boolean;
+}
+
+export interface Garment {
+  name: string;
+  pieces: PatternPiece[];
+  seams: Seam[];
+  // Pieces stand evenly spaced around the vertical axis, facing out, this far
+  // from it (m); two pieces become a front and a back
+  radius: number;
+  // Height of the pieces' top edges (m)
+  top: number;
+}
+
+// Metres of fabric covered by one copy of the texture (matches the default swatch)
+const PATTERN_UV_SIZE = 6;
+
+export const edgeLength = (piece: PatternPiece, edge: number) => {
+  const [ax, ay] = piece.outline[edge];
+  const [bx, by] = piece.outline[(edge + 1) % piece.outline.length];
+  return Math.hypot(bx - ax, by - ay);
+};
+
+const isValidEdge = (garment: Garment, { piece, edge }: SeamEdge) =>
+  piece >= 0 && piece < garment.pieces.length && edge >= 0 && edge < garment.pieces[piece].outline.length;
+
+// Structural links on every triangle edge, bending links across every
+// interior edge (between the two vertices opposite it), and each vertex's
+// share of the area, all measured on the flat pattern (xy per vertex)
+export const linkFlatMesh = (flat: ArrayLike<number>, indices: ArrayLike<number>) => {
+  const vertexAreas = new Float32Array(flat.length / 2);
+  const structural: ConstraintGroup = { name: 'structural', kind: 'stretch', data: [], angles: [], strength: 1 };
+  const bending: ConstraintGroup = { name: 'bending', kind: 'bending', data: [], angles: [], strength: 1 };
+
+  const addLink = (group: ConstraintGroup, a: number, b: number) => {
+    const du = flat[b * 2] - flat[a * 2];
+    const dv = flat[b * 2 + 1] - flat[a * 2 + 1];
+    group.data.push(a, b, Math.hypot(du, dv));
+    group.angles.push(Math.atan2(dv, du));
+  };
+
+  const opposite = new Map<string, number>();
+  for (let t = 0; t < indices.length; t += 3) {
+    const tri = [indices[t], indices[t + 1], indices[t + 2]];
+    const ax = flat[tri[0] * 2], ay = flat[tri[0] * 2 + 1];
+    const area = Math.abs(
+      (flat[tri[1] * 2] - ax) * (flat[tri[2] * 2 + 1] - ay) - (flat[tri[2] * 2] - ax) * (flat[tri[1] * 2 + 1] - ay)
+    ) / 2;
+    for (let e = 0; e < 3; e++) {
+      vertexAreas[tri[e]] += area / 3;
+      const a = tri[e], b = tri[(e + 1) % 3], c = tri[(e + 2) % 3];
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      const other = opposite.get(key);
+      if (other === undefined) {
+        opposite.set(key, c);
+        addLink(structural, a, b);
+      } else {
+        addLink(bending, other, c);
+      }
+    }
+  }
+
+  return { vertexAreas, structural, bending };
+};
+
+// `spacing` is the target triangle edge length (m)
+export const buildGarmentMesh = (garment: Garment, spacing: number): ClothMesh => {
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const flat: number[] = []; // Pattern coordinates, for rest lengths and grain
+  const indices: number[] = [];
+  // Per piece, per outline edge: global particle indices along it
+  const pieceEdges: number[][][] = [];
+  let handles: [number, number] = [0, 0];
+
+  garment.pieces.forEach((piece, p) => {
+    const mesh = triangulatePolygon(piece.outline, spacing);
+    const base = positions.length / 3;
+
+    let minU = Infinity, maxU = -Infinity, maxV = -Infinity;
+    for (const [u, v] of piece.outline) {
+      minU = Math.min(minU, u); maxU = Math.max(maxU, u); maxV = Math.max(maxV, v);
+    }
+    const centreU = (minU + maxU) / 2;
+
+    // Outward normal (sin θ, 0, cos θ); the pattern's x axis runs along
+    // (cos θ, 0, -sin θ), so a counter-clockwise piece faces outwards
+    const angle = (p / garment.pieces.length) * Math.PI * 2;
+    const nx = Math.sin(angle), nz = Math.cos(angle);
+    const rx = Math.cos(angle), rz = -Math.sin(angle);
+
+    for (let i = 0; i < mesh.points.length; i += 2) {
+      const u = mesh.points[i] - centreU;
+      const v = mesh.points[i + 1] - maxV;
+      positions.push(nx * garment.radius + rx * u, garment.top + v, nz * garment.radius + rz * u);
+      uvs.push(mesh.points[i] / PATTERN_UV_SIZE, mesh.points[i + 1] / PATTERN_UV_SIZE);
+      flat.push(mesh.points[i], mesh.points[i + 1]);
+    }
+    for (const t of mesh.triangles) indices.push(base + t);
+    pieceEdges.push(mesh.edgePoints.map(along => along.map(k => base + k)));
+
+    // The first piece's top corners go to the hands
+    if (p === 0) {
+      let left = 0, right = 0;
+      for (let k = 1; k < mesh.points.length / 2; k++) {
+        const u = mesh.points[k * 2], v = mesh.points[k * 2 + 1];
+        if (v - u > mesh.points[left * 2 + 1] - mesh.points[left * 2]) left = k;
+        if (v + u > mesh.points[right * 2 + 1] + mesh.points[right * 2]) right = k;
+      }
+      handles = [base + left, base + right];
+    }
+  });
+
+  const { vertexAreas, structural, bending } = linkFlatMesh(flat, indices);
+  const seams: ConstraintGroup = { name: 'seams', kind: 'seam', data: [], angles: [], strength: 1 };
+
+  // Seams pair points by their share of the way along each edge. Rest
+  // lengths start at the gap between the panels; the solver sews them shut.
+  const sewn = new Set<string>();
+  for (const seam of garment.seams) {
+    if (!isValidEdge(garment, seam.a) || !isValidEdge(garment, seam.b)) continue;
+    if (seam.a.piece === seam.b.piece && seam.a.edge === seam.b.edge) continue;
+    const alongA = pieceEdges[seam.a.piece][seam.a.edge];
+    const alongB = seam.flip ? pieceEdges[seam.b.piece][seam.b.edge] : [...pieceEdges[seam.b.piece][seam.b.edge]].reverse();
+    const steps = Math.max(alongA.length, alongB.length) - 1;
+    for (let s = 0; s <= steps; s++) {
+      const a = alongA[Math.round((s * (alongA.length - 1)) / steps)];
+      const b = alongB[Math.round((s * (alongB.length - 1)) / steps)];
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      if (a === b || sewn.has(key)) continue;
+      sewn.add(key);
+      const gap = Math.hypot(
+        positions[b * 3] - positions[a * 3],
+        positions[b * 3 + 1] - positions[a * 3 + 1],
+        positions[b * 3 + 2] - positions[a * 3 + 2]
+      );
+      seams.data.push(a, b, gap);
+      seams.angles.push(0);
+    }
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    uvs: new Float32Array(uvs),
+    indices: new Uint32Array(indices),
+    vertexAreas,
+    constraints: [structural, bending, seams],
+    handles
+  };
+};
+
+// Target triangle size for a garment at the given "polygon count", chosen so
+// the largest piece is about `resolution` triangles across
+export const garmentSpacing = (garment: Garment, resolution: number) => {
+  let extent = 0;
+  for (const piece of garment.pieces) {
+    const us = piece.outline.map(([u]) => u);
+    const vs = piece.outline.map(([, v]) => v);
+    extent = Math.max(extent, Math.max(...us) - Math.min(...us), Math.max(...vs) - Math.min(...vs));
+  }
+  return Math.max(extent, 0.01) / resolution;
+};
+
+// --- Sample patterns ---
+
+export type GarmentSample = 'tube' | 'poncho';
+
+export const GARMENT_SAMPLE_LABELS: Record<GarmentSample, string> = {
+  tube: 'Tube',
+  poncho: 'Poncho'
+};
+
+const rectangle = (width: number, height: number): Vec2[] => [[0, 0], [width, 0], [width, height], [0, height]];
+
+export const createSampleGarment = (sample: GarmentSample): Garment => {
+  switch (sample) {
+    case 'tube': {
+      // Slightly narrower than the sphere's girth, so it catches on it.
+      // Edges: 0 hem, 1 right side, 2 top, 3 left side
+      return {
+        name: 'Tube',
+        pieces: [
+          { name: 'Front', outline: rectangle(3, 2.6) },
+          { name: 'Back', outline: rectangle(3, 2.6) }
+        ],
+        seams: [
+          { a: { piece: 0, edge: 1 }, b: { piece: 1, edge: 3 }, flip: false },
+          { a: { piece: 0, edge: 3 }, b: { piece: 1, edge: 1 }, flip: false }
+        ],
+        radius: 1.2,
+        top: 2.2
+      };
+    }
+    case 'poncho': {
+      // Open sides, joined only at the shoulders either side of the neck.
+      // Edges: 0 hem, 1 right side, 2 right shoulder, 3 neck, 4 left shoulder, 5 left side
+      const width = 3;
+      const height = 3;
+      const shoulder = 1;
+      const outline: Vec2[] = [[0, 0], [width, 0], [width, height], [width - shoulder, height], [shoulder, height], [0, height]];
+      return {
+        name: 'Poncho',
+        pieces: [
+          { name: 'Front', outline },
+          { name: 'Back', outline: outline.map(([u, v]) => [u, v] as Vec2) }
+        ],
+        seams: [
+          { a: { piece: 0, edge: 2 }, b: { piece: 1, edge: 4 }, flip: false },
+          { a: { piece: 0, edge: 4 }, b: { piece: 1, edge: 2 }, flip: false }
+        ],
+        radius: 1.2,
+        top: 1.8
+      };
+    }
+  }
+};
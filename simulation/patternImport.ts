@@ -0,0 +1,461 @@
+// Reads pattern pieces from SVG or DXF files: every closed outline becomes a
+// piece, converted to metres, made counter-clockwise and moved to its own
+// origin. Open lines (grainlines, notches, seam allowances) are skipped and
+// listed. Seams are not stored in these formats, so imported garments start
+// without any.
+
+import type { Garment, PatternPiece } from './pattern';
+import { Vec2, signedArea } from './triangulate';
+
+export const PATTERN_FILE_ACCEPT = '.svg,.dxf';
+
+export interface PatternImport {
+  garment: Garment;
+  // Open outlines left out, by name (or kind and position in the file)
+  skipped: string[];
+}
+
+interface Outline {
+  name: string;
+  points: Vec2[];
+  closed: boolean;
+}
+
+// Metres per unit
+const LENGTH_UNITS: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  pt: 0.0254 / 72,
+  pc: 0.0254 / 6,
+  px: 0.0254 / 96
+};
+
+const CURVE_SEGMENTS = 8;
+// Points closer than this are merged, and corners straighter than this are dropped
+const MIN_EDGE = 0.002;
+const MIN_TURN = (2 * Math.PI) / 180;
+
+// --- Outline cleanup ---
+
+const cleanOutline = (points: Vec2[]): Vec2[] | null => {
+  let outline: Vec2[] = [];
+  for (const p of points) {
+    const last = outline[outline.length - 1];
+    if (!last || Math.hypot(p[0] - last[0], p[1] - last[1]) >= MIN_EDGE) outline.push(p);
+  }
+  // A closing point that repeats the first is implied
+  while (outline.length > 1) {
+    const [first, last] = [outline[0], outline[outline.length - 1]];
+    if (Math.hypot(first[0] - last[0], first[1] - last[1]) >= MIN_EDGE) break;
+    outline.pop();
+  }
+
+  // Drop points in the middle of straight runs
+  let changed = true;
+  while (changed && outline.length > 3) {
+    changed = false;
+    for (let i = 0; i < outline.length && outline.length > 3; i++) {
+      const [ax, ay] = outline[(i + outline.length - 1) % outline.length];
+      const [bx, by] = outline[i];
+      const [cx, cy] = outline[(i + 1) % outline.length];
+      const turn = Math.abs(Math.atan2((bx - ax) * (cy - by) - (by - ay) * (cx - bx), (bx - ax) * (cx - bx) + (by - ay) * (cy - by)));
+      if (turn < MIN_TURN) {
+        outline.splice(i, 1);
+        changed = true;
+      }
+    }
+  }
+
+  if (outline.length < 3 || Math.abs(signedArea(outline)) < MIN_EDGE * MIN_EDGE) return null;
+  if (signedArea(outline) < 0) outline = outline.reverse();
+
+  let minX = Infinity, minY = Infinity;
+  for (const [x, y] of outline) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+  }
+  return outline.map(([x, y]) => [x - minX, y - minY]);
+};
+
+const toGarment = (name: string, outlines: Outline[]): PatternImport => {
+  const pieces: PatternPiece[] = [];
+  const skipped: string[] = [];
+  for (const { name: pieceName, points, closed } of outlines) {
+    if (!closed) {
+      skipped.push(pieceName);
+      continue;
+    }
+    const outline = cleanOutline(points);
+    if (outline) pieces.push({ name: pieceName || `Piece ${pieces.length + 1}`, outline });
+  }
+  if (pieces.length === 0) throw new Error(`No closed pattern outlines found in ${name}`);
+  return { garment: { name, pieces, seams: [], radius: 1.2, top: 2.2 }, skipped };
+};
+
+// First and last points the same (within a rounding error): closed without a Z
+const endsMeet = (points: Vec2[]) => {
+  const [first, last] = [points[0], points[points.length - 1]];
+  return points.length > 3 && Math.hypot(first[0] - last[0], first[1] - last[1]) < 1e-6;
+};
+
+// --- SVG ---
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const parseTransform = (value: string | null): Matrix => {
+  let m = IDENTITY;
+  if (!value) return m;
+  for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const v = (args.match(/-?[\d.]+(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    switch (name) {
+      case 'matrix':
+        if (v.length === 6) m = multiply(m, v as Matrix);
+        break;
+      case 'translate':
+        m = multiply(m, [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0]);
+        break;
+      case 'scale':
+        m = multiply(m, [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0]);
+        break;
+      case 'rotate': {
+        const a = ((v[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [v[1] ?? 0, v[2] ?? 0];
+        m = multiply(m, [1, 0, 0, 1, cx, cy]);
+        m = multiply(m, [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]);
+        m = multiply(m, [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+    }
+  }
+  return m;
+};
+
+// Subpaths of an SVG path as point lists, closed when they end in Z or
+// return to their start; curves and arcs are flattened
+const parsePathData = (d: string): { points: Vec2[]; closed: boolean }[] => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const subpaths: { points: Vec2[]; closed: boolean }[] = [];
+  let current: Vec2[] = [];
+  const endSubpath = (closed: boolean) => {
+    if (current.length > 0) subpaths.push({ points: current, closed: closed || endsMeet(current) });
+    current = [];
+  };
+  let x = 0, y = 0, startX = 0, startY = 0;
+  let controlX = 0, controlY = 0; // Last control point, for smooth curves
+  let command = '';
+  let i = 0;
+  const next = () => Number(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/[a-zA-Z]/.test(tokens[i]);
+
+  const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS, u = 1 - t;
+      current.push([
+        u * u * u * x + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * ex,
+        u * u * u * y + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * ey
+      ]);
+    }
+    controlX = x2; controlY = y2; x = ex; y = ey;
+  };
+  const quadratic = (x1: number, y1: number, ex: number, ey: number) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS, u = 1 - t;
+      current.push([u * u * x + 2 * u * t * x1 + t * t * ex, u * u * y + 2 * u * t * y1 + t * t * ey]);
+    }
+    controlX = x1; controlY = y1; x = ex; y = ey;
+  };
+  // Endpoint arc, through its centre form (SVG 1.1 appendix F.6.5)
+  const arc = (rx: number, ry: number, rotation: number, large: boolean, sweep: boolean, ex: number, ey: number) => {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0 || (ex === x && ey === y)) {
+      current.push([ex, ey]);
+      x = ex; y = ey;
+      return;
+    }
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const hx = (x - ex) / 2, hy = (y - ey) / 2;
+    const x1 = cos * hx + sin * hy;
+    const y1 = -sin * hx + cos * hy;
+    // Radii too small to reach the end point grow until they just do
+    const fit = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (fit > 1) {
+      rx *= Math.sqrt(fit);
+      ry *= Math.sqrt(fit);
+    }
+    const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cx1 = (coef * rx * y1) / ry;
+    const cy1 = (-coef * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (x + ex) / 2;
+    const cy = sin * cx1 + cos * cy1 + (y + ey) / 2;
+    const start = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+    let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - start;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+
+    const segments = Math.max(2, Math.ceil((Math.abs(delta) / (Math.PI / 2)) * CURVE_SEGMENTS));
+    for (let s = 1; s < segments; s++) {
+      const angle = start + (delta * s) / segments;
+      const px = rx * Math.cos(angle), py = ry * Math.sin(angle);
+      current.push([cx + cos * px - sin * py, cy + sin * px + cos * py]);
+    }
+    current.push([ex, ey]);
+    x = ex; y = ey;
+  };
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+    else if (!command) break;
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    // Drawing on after a Z starts a new subpath at the closed one's start
+    if (current.length === 0 && !'MZ'.includes(command.toUpperCase())) current.push([x, y]);
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        endSubpath(false);
+        x = ox + next(); y = oy + next();
+        startX = x; startY = y;
+        current = [[x, y]];
+        // Further pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        x = ox + next(); y = oy + next();
+        current.push([x, y]);
+        break;
+      case 'H':
+        x = ox + next();
+        current.push([x, y]);
+        break;
+      case 'V':
+        y = oy + next();
+        current.push([x, y]);
+        break;
+      case 'C': {
+        const x1 = ox + next(), y1 = oy + next(), x2 = ox + next(), y2 = oy + next();
+        cubic(x1, y1, x2, y2, ox + next(), oy + next());
+        break;
+      }
+      case 'S': {
+        const x1 = 2 * x - controlX, y1 = 2 * y - controlY;
+        const x2 = ox + next(), y2 = oy + next();
+        cubic(x1, y1, x2, y2, ox + next(), oy + next());
+        break;
+      }
+      case 'Q': {
+        const x1 = ox + next(), y1 = oy + next();
+        quadratic(x1, y1, ox + next(), oy + next());
+        break;
+      }
+      case 'T':
+        quadratic(2 * x - controlX, 2 * y - controlY, ox + next(), oy + next());
+        break;
+      case 'A': {
+        const rx = next(), ry = next(), rotation = next(), large = next() !== 0, sweep = next() !== 0;
+        arc(rx, ry, rotation, large, sweep, ox + next(), oy + next());
+        break;
+      }
+      case 'Z':
+        x = startX; y = startY;
+        endSubpath(true);
+        break;
+      default:
+        i++;
+    }
+    if (!'CSQT'.includes(command.toUpperCase())) {
+      controlX = x; controlY = y;
+    }
+    // Z takes no arguments; anything after it needs a new command
+    if (command.toUpperCase() === 'Z' && hasNumber()) command = '';
+  }
+  endSubpath(false);
+  return subpaths;
+};
+
+const parseLength = (value: string | null) => {
+  const match = value?.trim().match(/^(-?[\d.]+(?:e[-+]?\d+)?)\s*([a-z%]*)$/i);
+  if (!match) return null;
+  const unit = match[2].toLowerCase() || 'px';
+  return LENGTH_UNITS[unit] !== undefined ? Number(match[1]) * LENGTH_UNITS[unit] : null;
+};
+
+export const parseSvgPattern = (text: string, name: string): PatternImport => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (svg.nodeName !== 'svg') throw new Error(`${name} is not a valid SVG file`);
+
+  // Metres per user unit: from the document size over the viewBox when both
+  // are given, otherwise CSS pixels
+  const width = parseLength(svg.getAttribute('width'));
+  const viewBox = (svg.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  const scale = width !== null && viewBox.length === 4 && viewBox[2] > 0 ? width / viewBox[2] : LENGTH_UNITS.px;
+
+  const outlines: Outline[] = [];
+  const counts: Record<string, number> = {};
+  const visit = (element: Element, parent: Matrix) => {
+    const m = multiply(parent, parseTransform(element.getAttribute('transform')));
+    const num = (attr: string) => Number(element.getAttribute(attr) ?? 0);
+    let shapes: { points: Vec2[]; closed: boolean }[] = [];
+
+    switch (element.nodeName) {
+      case 'path':
+        shapes = parsePathData(element.getAttribute('d') ?? '');
+        break;
+      case 'polygon':
+      case 'polyline': {
+        const v = (element.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(Number);
+        const points: Vec2[] = [];
+        for (let k = 0; k + 1 < v.length; k += 2) points.push([v[k], v[k + 1]]);
+        shapes = [{ points, closed: element.nodeName === 'polygon' || endsMeet(points) }];
+        break;
+      }
+      case 'rect': {
+        const [x, y, w, h] = [num('x'), num('y'), num('width'), num('height')];
+        shapes = [{ points: [[x, y], [x + w, y], [x + w, y + h], [x, y + h]], closed: true }];
+        break;
+      }
+      case 'circle':
+      case 'ellipse': {
+        const r = num('r');
+        const [cx, cy] = [num('cx'), num('cy')];
+        const [rx, ry] = element.nodeName === 'circle' ? [r, r] : [num('rx'), num('ry')];
+        const segments = 4 * CURVE_SEGMENTS;
+        const points: Vec2[] = [];
+        for (let k = 0; k < segments; k++) {
+          const angle = (2 * Math.PI * k) / segments;
+          points.push([cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)]);
+        }
+        shapes = [{ points, closed: true }];
+        break;
+      }
+    }
+
+    if (shapes.length > 0) counts[element.nodeName] = (counts[element.nodeName] ?? 0) + 1;
+    shapes.forEach(({ points, closed }, k) => {
+      const id = element.getAttribute('id') ?? '';
+      // Pieces get numbered later; skipped lines need a name to be reported by
+      const label = closed ? id : id || `${element.nodeName} ${counts[element.nodeName]}${shapes.length > 1 ? `.${k + 1}` : ''}`;
+      // Into metres, y up
+      outlines.push({
+        name: label,
+        closed,
+        points: points.map(([x, y]) => [
+          (m[0] * x + m[2] * y + m[4]) * scale,
+          -(m[1] * x + m[3] * y + m[5]) * scale
+        ])
+      });
+    });
+    for (const child of Array.from(element.children)) visit(child, m);
+  };
+  visit(svg, IDENTITY);
+
+  return toGarment(name, outlines);
+};
+
+// --- DXF ---
+
+// $INSUNITS codes
+const DXF_UNITS: Record<number, number> = { 1: 0.0254, 2: 0.3048, 4: 0.001, 5: 0.01, 6: 1 };
+
+// Closed LWPOLYLINE and POLYLINE entities, from blocks as well as the
+// entities section. AAMA/ASTM pattern files keep each piece in a block with
+// its cut line on layer 1; when that layer is present only it is used.
+export const parseDxfPattern = (text: string, name: string): PatternImport => {
+  const lines = text.split(/\r?\n/);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) pairs.push([Number(lines[i].trim()), lines[i + 1].trim()]);
+
+  let unit = DXF_UNITS[4];
+  let entity = '';
+  let block = '';
+  interface Polyline { name: string; layer: string; closed: boolean; points: Vec2[] }
+  const polylines: Polyline[] = [];
+  let current: Polyline | null = null;
+  let inPolyline = false; // Between POLYLINE and SEQEND, where VERTEX entities carry the points
+  let pendingX: number | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+
+    if (code === 9 && value === '$INSUNITS') {
+      const units = Number(pairs[i + 1]?.[1]);
+      if (DXF_UNITS[units] !== undefined) unit = DXF_UNITS[units];
+      continue;
+    }
+
+    if (code === 0) {
+      entity = value;
+      pendingX = null;
+      if (value === 'LWPOLYLINE' || value === 'POLYLINE') {
+        current = { name: block, layer: '', closed: false, points: [] };
+        polylines.push(current);
+        inPolyline = value === 'POLYLINE';
+      } else if (value === 'SEQEND') {
+        inPolyline = false;
+        current = null;
+      } else if (value !== 'VERTEX' || !inPolyline) {
+        current = null;
+      }
+      continue;
+    }
+
+    if (entity === 'BLOCK' && code === 2) block = value;
+    if (!current) continue;
+
+    if (entity === 'LWPOLYLINE' || entity === 'POLYLINE') {
+      if (code === 8) current.layer = value;
+      if (code === 70) current.closed = (Number(value) & 1) === 1;
+    }
+    // A POLYLINE's own 10/20 codes are an elevation point, not a vertex
+    if (entity === 'LWPOLYLINE' || entity === 'VERTEX') {
+      if (code === 10) pendingX = Number(value);
+      if (code === 20 && pendingX !== null) {
+        current.points.push([pendingX, Number(value)]);
+        pendingX = null;
+      }
+    }
+  }
+
+  let candidates = polylines;
+  if (candidates.some(p => p.layer === '1' && (p.closed || endsMeet(p.points)))) {
+    candidates = candidates.filter(p => p.layer === '1');
+  }
+
+  return toGarment(
+    name,
+    candidates.map((p, k) => {
+      const closed = p.closed || endsMeet(p.points);
+      return {
+        name: closed ? p.name : p.name || `polyline ${k + 1}`,
+        closed,
+        points: p.points.map(([x, y]) => [x * unit, y * unit] as Vec2)
+      };
+    })
+  );
+};
+
+export const loadPattern = async (file: File): Promise<PatternImport> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const text = await file.text();
+  if (extension === 'svg') return parseSvgPattern(text, file.name);
+  if (extension === 'dxf') return parseDxfPattern(text, file.name);
+  throw new Error(`Unsupported pattern format: ${file.name}`);
+};
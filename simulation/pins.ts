@@ -0,0 +1,104 @@
+// Pin sets: named groups of cloth vertices held in place, either fixed in the
+// world or riding on a collider. Plain data like colliders, so they can be
+// posted to a worker or saved with a scene.
+
+import { Collider, colliderOrigin } from './colliders';
+import { getGridIndex } from './clothGrid';
+
+export interface PinSet {
+  id: string;
+  name: string;
+  // Particle indices (grid order)
+  vertices: number[];
+  // Targets, xyz per vertex: relative to the collider's origin when attached,
+  // world space otherwise. Unset: hold the vertices wherever they are when
+  // the set is first applied.
+  targets?: number[];
+  // Collider the pins move with; unset (or a removed collider) pins them in the world
+  colliderId?: string;
+}
+
+export const isSamePinSet = (a: PinSet, b: PinSet) =>
+  a.id === b.id &&
+  a.colliderId === b.colliderId &&
+  a.vertices.length === b.vertices.length &&
+  a.vertices.every((v, i) => v === b.vertices[i]) &&
+  (a.targets ?? []).length === (b.targets ?? []).length &&
+  (a.targets ?? []).every((t, i) => t === b.targets![i]);
+
+// --- Presets for the pin editor ---
+
+export type PinPreset = 'top-edge' | 'top-corners' | 'centre' | 'rail';
+
+export const PIN_PRESET_LABELS: Record<PinPreset, string> = {
+  'top-edge': 'Top Edge',
+  'top-corners': 'Top Corners',
+  centre: 'Centre Point',
+  rail: 'Rail'
+};
+
+// The first capsule is the rail a 'rail' preset hangs from
+export const findRail = (colliders: Collider[]) => colliders.find(c => c.kind === 'capsule');
+
+// `cols` is the number of vertices along each side of the grid. Returns null
+// when the preset needs a collider that is not in the scene.
+export const createPinPreset = (
+  preset: PinPreset,
+  id: string,
+  cols: number,
+  colliders: Collider[]
+): PinSet | null => {
+  const topEdge = Array.from({ length: cols }, (_, x) => getGridIndex(x, 0, cols));
+  const name = PIN_PRESET_LABELS[preset];
+
+  switch (preset) {
+    case 'top-edge':
+      return { id, name, vertices: topEdge };
+    case 'top-corners':
+      return { id, name, vertices: [getGridIndex(0, 0, cols), getGridIndex(cols - 1, 0, cols)] };
+    case 'centre': {
+      const mid = Math.floor(cols / 2);
+      return { id, name, vertices: [getGridIndex(mid, mid, cols)] };
+    }
+    case 'rail': {
+      // Thread the top edge along the rail, resting on its upper surface
+      const rail = findRail(colliders);
+      if (!rail || rail.kind !== 'capsule') return null;
+      const origin = colliderOrigin(rail);
+      const lift = rail.radius + (rail.margin ?? 0);
+      const targets: number[] = [];
+      for (let x = 0; x < cols; x++) {
+        const t = cols > 1 ? x / (cols - 1) : 0.5;
+        targets.push(
+          rail.start[0] + (rail.end[0] - rail.start[0]) * t - origin[0],
+          rail.start[1] + (rail.end[1] - rail.start[1]) * t + lift - origin[1],
+          rail.start[2] + (rail.end[2] - rail.start[2]) * t - origin[2]
+        );
+      }
+      return { id, name, vertices: topEdge, targets, colliderId: rail.id };
+    }
+  }
+};
+
+// Adds the vertex to a set, or removes it from every set already holding it.
+// Added vertices go into (or create) the set with `customId`.
+export const togglePinnedVertex = (pinSets: PinSet[], vertex: number, customId: string): PinSet[] => {
+  if (pinSets.some(set => set.vertices.includes(vertex))) {
+    return pinSets
+      .map(set => {
+        const index = set.vertices.indexOf(vertex);
+        if (index < 0) return set;
+        return {
+          ...set,
+          vertices: set.vertices.filter((_, i) => i !== index),
+          targets: set.targets?.filter((_, i) => Math.floor(i / 3) !== index)
+        };
+      })
+      .filter(set => set.vertices.length > 0);
+  }
+
+  const custom = pinSets.find(set => set.id === customId);
+  if (!custom) return [...pinSets, { id: customId, name: 'Custom', vertices: [vertex] }];
+  // Custom sets have no explicit targets: the new vertex is held where it is
+  return pinSets.map(set => (set === custom ? { ...set, vertices: [...set.vertices, vertex] } : set));
+};
@@ -0,0 +1,466 @@
+// Scene files: everything needed to rebuild a drape setup (cloth layers with
+// their materials, garments and pins, colliders, solver settings, lights and
+// camera) as versioned JSON, so setups can be shared without code changes.
+// Loaded from a file or a URL (`?scene=<url>` on startup) and saved from the UI.
+
+import type { SolverMethod, Vec3 } from './ClothSolver';
+import { Collider, PlaneCollider, createColliderPreset, createMeshCollider, planeNormal } from './colliders';
+import { ClothLayer, createClothLayer } from './layers';
+import type { Garment, PatternPiece, Seam } from './pattern';
+import type { PinSet } from './pins';
+import { DEFAULT_WIND, WindSettings } from './wind';
+import { parseMaterial } from './materialFile';
+
+export const SCENE_FILE_FORMAT = 'fabric-scene';
+export const SCENE_FILE_VERSION = 1;
+export const SCENE_FILE_ACCEPT = '.json';
+
+export interface CameraSettings {
+  position: Vec3;
+  target: Vec3; // Point the orbit controls turn around
+  fov: number; // Vertical, degrees
+}
+
+export interface AmbientLight {
+  kind: 'ambient';
+  color: string;
+  intensity: number;
+}
+
+export interface DirectionalLight {
+  kind: 'directional';
+  color: string;
+  intensity: number;
+  position: Vec3; // Shines from here towards the origin
+  castShadow: boolean;
+  shadowMapSize?: number;
+  // Half-width of the square the shadow camera covers (m)
+  shadowExtent?: number;
+}
+
+export type SceneLight = AmbientLight | DirectionalLight;
+
+// Solver and geometry settings shared by every layer
+export interface SceneSettings {
+  solverMethod: SolverMethod;
+  resolution: number;
+  clothSize: number;
+  // Height the swatches drop from; null follows the cloth size
+  dropHeight: number | null;
+  substeps: number;
+  selfCollision: boolean;
+  thickness: number;
+  sleep: boolean;
+  wind: WindSettings;
+}
+
+export interface Scene {
+  name: string;
+  camera: CameraSettings;
+  background: string;
+  lights: SceneLight[];
+  settings: SceneSettings;
+  colliders: Collider[];
+  layers: ClothLayer[]; // Innermost first
+}
+
+// The setup the app starts with
+export const createDefaultScene = (): Scene => ({
+  name: 'Untitled scene',
+  camera: { position: [0, 4, 10], target: [0, 0, 0], fov: 50 },
+  background: '#202025',
+  lights: [
+    { kind: 'ambient', color: '#ffffff', intensity: 0.4 },
+    { kind: 'directional', color: '#ffffff', intensity: 1, position: [5, 10, 5], castShadow: true, shadowMapSize: 2048, shadowExtent: 10 },
+    // Side light to create stronger directional shadows
+    { kind: 'directional', color: '#ffffff', intensity: 0.6, position: [-8, 6, 2], castShadow: true }
+  ],
+  settings: {
+    solverMethod: 'pbd',
+    resolution: 40,
+    clothSize: 6,
+    dropHeight: null,
+    substeps: 1,
+    selfCollision: false,
+    thickness: 0.08,
+    sleep: true,
+    wind: DEFAULT_WIND
+  },
+  colliders: [createColliderPreset('sphere', 'sphere'), createColliderPreset('floor', 'floor')],
+  layers: [createClothLayer('layer-1', 0)]
+});
+
+// Mesh colliders are written as plain vertex and index arrays; their BVH is
+// rebuilt on load
+export const colliderToJson = (collider: Collider) => {
+  if (collider.kind !== 'mesh') return collider;
+  const { bvh: _bvh, vertices, indices, ...rest } = collider;
+  return { ...rest, vertices: Array.from(vertices), indices: Array.from(indices) };
+};
+
+// The scene file's contents as a plain object, for embedding in other files
+export const sceneToData = (scene: Scene) => ({
+  format: SCENE_FILE_FORMAT,
+  version: SCENE_FILE_VERSION,
+  ...scene,
+  colliders: scene.colliders.map(colliderToJson)
+});
+
+export const sceneToJson = (scene: Scene) => JSON.stringify(sceneToData(scene), null, 2);
+
+// --- Parsing ---
+
+type Range = [min: number, max: number];
+
+// The controls' slider ranges; scene files, share links and input logs are
+// held to the same
+export const SETTING_RANGES = {
+  resolution: [10, 60],
+  clothSize: [0.5, 8],
+  dropHeight: [0, 20],
+  substeps: [1, 4],
+  thickness: [0.02, 0.3],
+  windSpeed: [0, 20],
+  windDirection: [0, 360], // Degrees
+  turbulence: [0, 1],
+  lift: [0, 3],
+  unit: [0, 1] // Roughness and sheen
+} satisfies Record<string, Range>;
+const NOT_NEGATIVE: Range = [0, Infinity];
+
+// Camera and lights have no controls; these keep them to what renders (and
+// a shadow map to what fits in GPU memory)
+const VIEW_RANGES = {
+  fov: [1, 179], // Degrees
+  intensity: [0, 100],
+  shadowMapSize: [64, 8192], // Pixels a side, a power of two
+  shadowExtent: [0.1, 1000] // Metres from the light's axis
+} satisfies Record<string, Range>;
+
+// Field readers: a missing field takes the fallback, a field of the wrong
+// type is an error naming where it was found
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, where: string): Fields => {
+  if (!isObject(value)) throw new Error(`${where} must be an object`);
+  return value;
+};
+
+const readArray = (value: unknown, where: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`${where} must be an array`);
+  return value;
+};
+
+const readNumber = (fields: Fields, key: string, where: string, fallback?: number): number => {
+  const value = fields[key];
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${where}: "${key}" must be a number`);
+  return value;
+};
+
+// Numbers outside what the solver can run (a zero thickness or resolution
+// hangs or fills the cloth with NaNs) are an error too
+const readInRange = (fields: Fields, key: string, where: string, [min, max]: Range, fallback?: number): number => {
+  const value = readNumber(fields, key, where, fallback);
+  if (value < min || value > max) {
+    throw new Error(`${where}: "${key}" must be ${max === Infinity ? `at least ${min}` : `between ${min} and ${max}`}`);
+  }
+  return value;
+};
+
+const readPositive = (fields: Fields, key: string, where: string, fallback?: number): number => {
+  const value = readNumber(fields, key, where, fallback);
+  if (value <= 0) throw new Error(`${where}: "${key}" must be greater than 0`);
+  return value;
+};
+
+const readString = (fields: Fields, key: string, where: string, fallback?: string): string => {
+  const value = fields[key];
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== 'string') throw new Error(`${where}: "${key}" must be a string`);
+  return value;
+};
+
+const readBoolean = (fields: Fields, key: string, where: string, fallback: boolean): boolean => {
+  const value = fields[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') throw new Error(`${where}: "${key}" must be true or false`);
+  return value;
+};
+
+const readNumbers = (value: unknown, where: string, integers = false): number[] => {
+  const list = readArray(value, where);
+  if (!list.every(n => typeof n === 'number' && Number.isFinite(n) && (!integers || (Number.isInteger(n) && n >= 0)))) {
+    throw new Error(`${where} must only hold ${integers ? 'non-negative integers' : 'numbers'}`);
+  }
+  return list as number[];
+};
+
+const readVec3 = (fields: Fields, key: string, where: string, fallback?: Vec3): Vec3 => {
+  if (fields[key] === undefined && fallback) return [...fallback];
+  const list = readNumbers(fields[key], `${where}: "${key}"`);
+  if (list.length !== 3) throw new Error(`${where}: "${key}" must be [x, y, z]`);
+  return [list[0], list[1], list[2]];
+};
+
+const parseCamera = (value: unknown, fallback: CameraSettings): CameraSettings => {
+  if (value === undefined) return fallback;
+  const fields = readObject(value, 'camera');
+  return {
+    position: readVec3(fields, 'position', 'camera', fallback.position),
+    target: readVec3(fields, 'target', 'camera', fallback.target),
+    fov: readInRange(fields, 'fov', 'camera', VIEW_RANGES.fov, fallback.fov)
+  };
+};
+
+const readShadowMapSize = (fields: Fields, where: string): number => {
+  const value = readInRange(fields, 'shadowMapSize', where, VIEW_RANGES.shadowMapSize);
+  if (!Number.isInteger(Math.log2(value))) throw new Error(`${where}: "shadowMapSize" must be a power of two`);
+  return value;
+};
+
+const parseLight = (value: unknown, index: number): SceneLight => {
+  const where = `lights[${index}]`;
+  const fields = readObject(value, where);
+  const color = readString(fields, 'color', where, '#ffffff');
+  const intensity = readInRange(fields, 'intensity', where, VIEW_RANGES.intensity, 1);
+  switch (fields.kind) {
+    case 'ambient':
+      return { kind: 'ambient', color, intensity };
+    case 'directional':
+      return {
+        kind: 'directional',
+        color,
+        intensity,
+        position: readVec3(fields, 'position', where),
+        castShadow: readBoolean(fields, 'castShadow', where, false),
+        shadowMapSize: fields.shadowMapSize === undefined ? undefined : readShadowMapSize(fields, where),
+        shadowExtent: fields.shadowExtent === undefined ? undefined : readInRange(fields, 'shadowExtent', where, VIEW_RANGES.shadowExtent)
+      };
+    default:
+      throw new Error(`${where}: unknown light kind "${String(fields.kind)}"`);
+  }
+};
+
+const SOLVER_METHODS: SolverMethod[] = ['pbd', 'xpbd'];
+
+const parseSettings = (value: unknown, fallback: SceneSettings): SceneSettings => {
+  if (value === undefined) return fallback;
+  const fields = readObject(value, 'settings');
+  const solverMethod = fields.solverMethod ?? fallback.solverMethod;
+  if (!SOLVER_METHODS.includes(solverMethod as SolverMethod)) {
+    throw new Error(`settings: "solverMethod" must be one of ${SOLVER_METHODS.join(', ')}`);
+  }
+  const wind = fields.wind === undefined ? {} : readObject(fields.wind, 'settings.wind');
+  return {
+    solverMethod: solverMethod as SolverMethod,
+    resolution: Math.round(readInRange(fields, 'resolution', 'settings', SETTING_RANGES.resolution, fallback.resolution)),
+    clothSize: readInRange(fields, 'clothSize', 'settings', SETTING_RANGES.clothSize, fallback.clothSize),
+    dropHeight: fields.dropHeight === undefined || fields.dropHeight === null
+      ? null
+      : readInRange(fields, 'dropHeight', 'settings', SETTING_RANGES.dropHeight),
+    substeps: Math.round(readInRange(fields, 'substeps', 'settings', SETTING_RANGES.substeps, fallback.substeps)),
+    selfCollision: readBoolean(fields, 'selfCollision', 'settings', fallback.selfCollision),
+    thickness: readInRange(fields, 'thickness', 'settings', SETTING_RANGES.thickness, fallback.thickness),
+    sleep: readBoolean(fields, 'sleep', 'settings', fallback.sleep),
+    wind: {
+      enabled: readBoolean(wind, 'enabled', 'settings.wind', fallback.wind.enabled),
+      speed: readInRange(wind, 'speed', 'settings.wind', SETTING_RANGES.windSpeed, fallback.wind.speed),
+      direction: readInRange(wind, 'direction', 'settings.wind', SETTING_RANGES.windDirection, fallback.wind.direction),
+      turbulence: readInRange(wind, 'turbulence', 'settings.wind', SETTING_RANGES.turbulence, fallback.wind.turbulence)
+    }
+  };
+};
+
+export const parseCollider = (value: unknown, index: number): Collider => {
+  const where = `colliders[${index}]`;
+  const fields = readObject(value, where);
+  const base = {
+    id: readString(fields, 'id', where, `collider-${index + 1}`),
+    staticFriction: readInRange(fields, 'staticFriction', where, NOT_NEGATIVE, 0.5),
+    kineticFriction: readInRange(fields, 'kineticFriction', where, NOT_NEGATIVE, 0.4),
+    margin: fields.margin === undefined ? undefined : readInRange(fields, 'margin', where, NOT_NEGATIVE)
+  };
+  switch (fields.kind) {
+    case 'sphere':
+      return { ...base, kind: 'sphere', center: readVec3(fields, 'center', where), radius: readPositive(fields, 'radius', where) };
+    case 'capsule':
+      return {
+        ...base,
+        kind: 'capsule',
+        start: readVec3(fields, 'start', where),
+        end: readVec3(fields, 'end', where),
+        radius: readPositive(fields, 'radius', where)
+      };
+    case 'box': {
+      const halfExtents = readVec3(fields, 'halfExtents', where);
+      if (halfExtents.some(extent => extent <= 0)) throw new Error(`${where}: "halfExtents" must be greater than 0`);
+      return {
+        ...base,
+        kind: 'box',
+        center: readVec3(fields, 'center', where),
+        halfExtents,
+        rotation: readVec3(fields, 'rotation', where, [0, 0, 0])
+      };
+    }
+    case 'plane': {
+      const normal = readVec3(fields, 'normal', where);
+      if (normal.every(n => n === 0)) throw new Error(`${where}: "normal" must not be zero`);
+      // Stored at unit length, so the file's offset keeps its meaning
+      const plane: PlaneCollider = { ...base, kind: 'plane', normal, offset: readNumber(fields, 'offset', where) };
+      return { ...plane, normal: planeNormal(plane) };
+    }
+    case 'mesh': {
+      const vertices = readNumbers(fields.vertices, `${where}: "vertices"`);
+      const indices = readNumbers(fields.indices, `${where}: "indices"`, true);
+      if (vertices.length % 3 !== 0 || indices.length % 3 !== 0 || indices.length === 0) {
+        throw new Error(`${where}: a mesh needs xyz vertices and whole triangles`);
+      }
+      if (indices.some(i => i >= vertices.length / 3)) throw new Error(`${where}: triangle index out of range`);
+      const mesh = createMeshCollider(
+        base.id,
+        readString(fields, 'name', where, 'mesh'),
+        new Float32Array(vertices),
+        new Uint32Array(indices)
+      );
+      return { ...mesh, ...base };
+    }
+    default:
+      throw new Error(`${where}: unknown collider kind "${String(fields.kind)}"`);
+  }
+};
+
+const parseGarment = (value: unknown, where: string): Garment | null => {
+  if (value === undefined || value === null) return null;
+  const fields = readObject(value, where);
+  const pieces = readArray(fields.pieces, `${where}.pieces`).map((item, p): PatternPiece => {
+    const piece = readObject(item, `${where}.pieces[${p}]`);
+    const outline = readArray(piece.outline, `${where}.pieces[${p}].outline`).map((point, i) => {
+      const xy = readNumbers(point, `${where}.pieces[${p}].outline[${i}]`);
+      if (xy.length !== 2) throw new Error(`${where}.pieces[${p}].outline[${i}] must be [x, y]`);
+      return [xy[0], xy[1]] as [number, number];
+    });
+    if (outline.length < 3) throw new Error(`${where}.pieces[${p}] needs at least three outline points`);
+    return { name: readString(piece, 'name', `${where}.pieces[${p}]`, `Piece ${p + 1}`), outline };
+  });
+  if (pieces.length === 0) throw new Error(`${where} has no pattern pieces`);
+
+  const readEdge = (edge: unknown, at: string) => {
+    const e = readObject(edge, at);
+    const piece = readNumber(e, 'piece', at);
+    const index = readNumber(e, 'edge', at);
+    if (!pieces[piece] || !Number.isInteger(index) || index < 0 || index >= pieces[piece].outline.length) {
+      throw new Error(`${at} refers to an edge that does not exist`);
+    }
+    return { piece, edge: index };
+  };
+  const seams = readArray(fields.seams ?? [], `${where}.seams`).map((item, s): Seam => {
+    const seam = readObject(item, `${where}.seams[${s}]`);
+    return {
+      a: readEdge(seam.a, `${where}.seams[${s}].a`),
+      b: readEdge(seam.b, `${where}.seams[${s}].b`),
+      flip: readBoolean(seam, 'flip', `${where}.seams[${s}]`, false)
+    };
+  });
+
+  return {
+    name: readString(fields, 'name', where, 'Garment'),
+    pieces,
+    seams,
+    radius: readPositive(fields, 'radius', where),
+    top: readNumber(fields, 'top', where)
+  };
+};
+
+const parsePinSet = (value: unknown, where: string, index: number): PinSet => {
+  const fields = readObject(value, where);
+  const vertices = readNumbers(fields.vertices, `${where}: "vertices"`, true);
+  const targets = fields.targets === undefined ? undefined : readNumbers(fields.targets, `${where}: "targets"`);
+  if (targets && targets.length !== vertices.length * 3) throw new Error(`${where}: "targets" needs xyz for every vertex`);
+  return {
+    id: readString(fields, 'id', where, `pins-${index + 1}`),
+    name: readString(fields, 'name', where, `Pins ${index + 1}`),
+    vertices,
+    targets,
+    colliderId: fields.colliderId === undefined ? undefined : readString(fields, 'colliderId', where)
+  };
+};
+
+const parseLayer = (value: unknown, index: number): ClothLayer => {
+  const where = `layers[${index}]`;
+  const fields = readObject(value, where);
+  const defaults = createClothLayer(`layer-${index + 1}`, index);
+  return {
+    id: readString(fields, 'id', where, defaults.id),
+    name: readString(fields, 'name', where, defaults.name),
+    material: fields.material === undefined ? defaults.material : parseMaterial(readObject(fields.material, `${where}.material`), `${where}.material`),
+    garment: parseGarment(fields.garment, `${where}.garment`),
+    pins: readArray(fields.pins ?? [], `${where}.pins`).map((pins, p) => parsePinSet(pins, `${where}.pins[${p}]`, p)),
+    lift: readInRange(fields, 'lift', where, SETTING_RANGES.lift, defaults.lift),
+    color: readString(fields, 'color', where, defaults.color),
+    roughness: readInRange(fields, 'roughness', where, SETTING_RANGES.unit, defaults.roughness),
+    sheen: readInRange(fields, 'sheen', where, SETTING_RANGES.unit, defaults.sheen),
+    fabricId: fields.fabricId === null || fields.fabricId === undefined ? null : readString(fields, 'fabricId', where)
+  };
+};
+
+const uniqueIds = (items: { id?: string }[], what: string) => {
+  const seen = new Set<string | undefined>();
+  items.forEach(item => {
+    if (seen.has(item.id)) throw new Error(`Two ${what} share the id "${item.id}"`);
+    seen.add(item.id);
+  });
+};
+
+// Missing sections (files from before a section existed, or hand-written
+// ones) take the defaults; malformed fields are an error naming the field
+export const parseSceneFile = (text: string, name: string): Scene => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  return parseScene(data, name);
+};
+
+// Scene from already parsed JSON (a scene file, or one embedded in another file)
+export const parseScene = (data: unknown, name: string): Scene => {
+  if (!isObject(data) || data.format !== SCENE_FILE_FORMAT) throw new Error(`${name} is not a fabric scene file`);
+  if (typeof data.version !== 'number' || data.version > SCENE_FILE_VERSION) {
+    throw new Error(`${name} needs a newer version of the app (scene file version ${String(data.version)})`);
+  }
+
+  const defaults = createDefaultScene();
+  try {
+    const colliders = data.colliders === undefined ? defaults.colliders : readArray(data.colliders, 'colliders').map(parseCollider);
+    const layers = data.layers === undefined ? defaults.layers : readArray(data.layers, 'layers').map(parseLayer);
+    if (layers.length === 0) throw new Error('a scene needs at least one cloth layer');
+    uniqueIds(colliders, 'colliders');
+    uniqueIds(layers, 'layers');
+
+    return {
+      name: readString(data, 'name', 'scene', name.replace(/\.[^.]*$/, '')),
+      camera: parseCamera(data.camera, defaults.camera),
+      background: readString(data, 'background', 'scene', defaults.background),
+      lights: data.lights === undefined ? defaults.lights : readArray(data.lights, 'lights').map(parseLight),
+      settings: parseSettings(data.settings, defaults.settings),
+      colliders,
+      layers
+    };
+  } catch (err) {
+    throw new Error(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+export const loadScene = async (file: File) => parseSceneFile(await file.text(), file.name);
+
+export const fetchScene = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not fetch ${url} (${response.status} ${response.statusText})`);
+  const name = decodeURIComponent(new URL(url, window.location.href).pathname.split('/').pop() || url);
+  return parseSceneFile(await response.text(), name);
+};
@@ -0,0 +1,244 @@
+// Headless scene runs: every layer of a scene simulated the way the app's
+// cloths do it (same meshes, solver settings and layer order), one fixed step
+// at a time without rendering, for batch runs and benchmarks from Node.
+
+import { ClothSolver, SolverStats, solverIterations } from './ClothSolver';
+import { createGridCloth } from './clothGrid';
+import { computeVertexNormals } from './clothNormals';
+import { rasterizeShadow } from './drapeTest';
+import { DEFAULT_TIMESTEP } from './FixedTimestep';
+import { ClothLayer, ClothSurface, layerPosition } from './layers';
+import type { ClothExportSource } from './meshExport';
+import { buildGarmentMesh, garmentSpacing } from './pattern';
+import type { Scene } from './sceneFile';
+
+export interface SceneRunOptions {
+  // Fixed 1/60 s steps to run; null: until every layer has settled
+  steps: number | null;
+  // Simulated seconds after which an unsettled run gives up (steps: null only)
+  maxTime: number;
+  // Called every simulated second with the time reached
+  onProgress?: (time: number) => void;
+}
+
+export const DEFAULT_SCENE_RUN: SceneRunOptions = {
+  steps: null,
+  maxTime: 30
+};
+
+// Wall-clock milliseconds per fixed step, averaged over the run
+export interface PhaseTimings {
+  step: number;
+  constraints: number;
+  collisions: number;
+  selfCollision: number;
+}
+
+export interface DrapeMetrics {
+  flatArea: number; // Rest area of the cloth (m²)
+  shadowArea: number; // Projected onto the ground (m²)
+  // Shadow over flat area: 1 for cloth lying flat, smaller the more it hangs
+  coverage: number;
+  minHeight: number; // m
+  maxHeight: number; // m
+  meanHeight: number; // m
+  width: number; // Extent along x (m)
+  depth: number; // Extent along z (m)
+}
+
+export interface LayerRunResult {
+  id: string;
+  name: string;
+  color: string;
+  particles: number;
+  triangles: number;
+  settledAt: number | null; // Simulated seconds; null if it never came to rest
+  metrics: DrapeMetrics;
+  timings: PhaseTimings;
+  // Final mesh, for writing with exportMeshes
+  source: ClothExportSource;
+}
+
+export interface SceneRunResult {
+  steps: number;
+  time: number; // Simulated seconds
+  setupMs: number; // Building meshes and solvers
+  runMs: number; // Stepping
+  // When the last layer came to rest; null if one never did
+  settledAt: number | null;
+  layers: LayerRunResult[];
+}
+
+// Shadow raster cells across the drape's larger extent
+const SHADOW_GRID = 400;
+
+interface RunLayer {
+  layer: ClothLayer;
+  solver: ClothSolver;
+  uvs: Float32Array;
+  flatArea: number;
+  totals: PhaseTimings;
+  // Lower layers' topology last sent as surfaces
+  appliedBelow: number[];
+}
+
+// Starts from the scene's rest state, with its own settings
+export const runScene = (scene: Scene, options: SceneRunOptions = DEFAULT_SCENE_RUN): SceneRunResult => {
+  const { settings } = scene;
+  const setupStart = performance.now();
+  const iterations = solverIterations(settings.resolution);
+
+  const run: RunLayer[] = scene.layers.map(layer => {
+    const mesh = layer.garment
+      ? buildGarmentMesh(layer.garment, garmentSpacing(layer.garment, settings.resolution))
+      : createGridCloth(
+          settings.resolution,
+          settings.clothSize,
+          settings.clothSize,
+          layerPosition(layer, settings.clothSize, settings.dropHeight)
+        );
+    const solver = new ClothSolver(mesh.positions, {
+      vertexAreas: mesh.vertexAreas,
+      indices: mesh.indices,
+      capacity: (mesh.positions.length / 3) * 2
+    });
+    mesh.constraints.forEach(group => solver.addConstraintGroup(group));
+    solver.configure({
+      method: settings.solverMethod,
+      material: layer.material,
+      iterations,
+      selfCollision: settings.selfCollision,
+      thickness: settings.thickness,
+      wind: settings.wind,
+      sleep: settings.sleep,
+      colliders: scene.colliders
+    });
+    // After the colliders, so pins attached to one resolve against it
+    solver.configure({ pins: layer.pins });
+    return {
+      layer,
+      solver,
+      uvs: mesh.uvs,
+      flatArea: mesh.vertexAreas.reduce((sum, area) => sum + area, 0),
+      totals: { step: 0, constraints: 0, collisions: 0, selfCollision: 0 },
+      appliedBelow: []
+    };
+  });
+  const setupMs = performance.now() - setupStart;
+
+  const { stepSize } = DEFAULT_TIMESTEP;
+  const dt = stepSize / settings.substeps;
+  const settled = () => run.every(({ solver }) => solver.stats.settledAt !== null);
+  const runStart = performance.now();
+  let steps = 0;
+  let nextProgress = 1;
+  while (options.steps !== null ? steps < options.steps : !settled() && steps * stepSize < options.maxTime) {
+    run.forEach((entry, k) => {
+      const { solver, totals } = entry;
+      // Lower layers' surfaces are resent when one tears
+      const below = run.slice(0, k);
+      if (below.some((lower, b) => lower.solver.topologyVersion !== entry.appliedBelow[b])) {
+        solver.configure({
+          layersBelow: below.map(({ layer, solver: lower }): ClothSurface => ({
+            positions: lower.positions,
+            indices: lower.indices,
+            staticFriction: layer.material.staticFriction,
+            kineticFriction: layer.material.kineticFriction
+          }))
+        });
+        entry.appliedBelow = below.map(lower => lower.solver.topologyVersion);
+      }
+      for (let sub = 0; sub < settings.substeps; sub++) {
+        solver.step(dt);
+        addTimings(totals, solver.stats);
+      }
+    });
+    steps++;
+    if (options.onProgress && steps * stepSize >= nextProgress) {
+      options.onProgress(steps * stepSize);
+      nextProgress++;
+    }
+  }
+  const runMs = performance.now() - runStart;
+
+  const layers = run.map(({ layer, solver, uvs, flatArea, totals }): LayerRunResult => {
+    const normals = new Float32Array(solver.positions.length);
+    computeVertexNormals(solver.positions, solver.indices, normals);
+    const perStep = (ms: number) => (steps > 0 ? ms / steps : 0);
+    return {
+      id: layer.id,
+      name: layer.name,
+      color: layer.color,
+      particles: solver.count,
+      triangles: solver.indices.length / 3,
+      settledAt: solver.stats.settledAt,
+      metrics: measureSceneDrape(solver.positions, solver.indices, solver.count, flatArea),
+      timings: {
+        step: perStep(totals.step),
+        constraints: perStep(totals.constraints),
+        collisions: perStep(totals.collisions),
+        selfCollision: perStep(totals.selfCollision)
+      },
+      source: {
+        simulation: { count: solver.count, origins: solver.origins, positions: solver.positions, normals, indices: solver.indices },
+        uvs
+      }
+    };
+  });
+
+  return {
+    steps,
+    time: steps * stepSize,
+    setupMs,
+    runMs,
+    settledAt: settled() ? Math.max(...layers.map(layer => layer.settledAt!)) : null,
+    layers
+  };
+};
+
+const addTimings = (totals: PhaseTimings, stats: SolverStats) => {
+  totals.step += stats.stepMs;
+  totals.constraints += stats.constraintsMs;
+  totals.collisions += stats.collisionsMs;
+  totals.selfCollision += stats.selfCollisionMs;
+};
+
+// Where a draped cloth ended up: its shadow on the ground and its height range
+export const measureSceneDrape = (
+  positions: Float32Array,
+  indices: Uint32Array,
+  count: number,
+  flatArea: number
+): DrapeMetrics => {
+  let minX = Infinity, maxX = -Infinity, minZ = Infinity, maxZ = -Infinity;
+  let minHeight = Infinity, maxHeight = -Infinity, sumHeight = 0;
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minZ = Math.min(minZ, z);
+    maxZ = Math.max(maxZ, z);
+    minHeight = Math.min(minHeight, y);
+    maxHeight = Math.max(maxHeight, y);
+    sumHeight += y;
+  }
+
+  const width = maxX - minX;
+  const depth = maxZ - minZ;
+  const cell = Math.max(width, depth, 1e-6) / SHADOW_GRID;
+  const covered = rasterizeShadow(positions, indices, minX, minZ, cell, SHADOW_GRID + 1);
+  let cells = 0;
+  for (let c = 0; c < covered.length; c++) cells += covered[c];
+  const shadowArea = cells * cell * cell;
+
+  return {
+    flatArea,
+    shadowArea,
+    coverage: flatArea > 0 ? shadowArea / flatArea : 0,
+    minHeight,
+    maxHeight,
+    meanHeight: count > 0 ? sumHeight / count : 0,
+    width,
+    depth
+  };
+};
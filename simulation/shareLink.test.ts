@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SHARE_LINK_VERSION, SharedState, decodeShareHash, encodeShareHash } from './shareLink';
+import { createDefaultScene, sceneToData } from './sceneFile';
+
+const sharedState = (): SharedState => {
+  const scene = createDefaultScene();
+  return { scene, showSkeletonHands: false, activeLayerId: scene.layers[0].id };
+};
+
+describe('share links', () => {
+  it('opens to the state it was made from', async () => {
+    const state = sharedState();
+    const hash = await encodeShareHash(state);
+    expect(hash).toMatch(new RegExp(`^#share=${SHARE_LINK_VERSION}\\.z\\.[\\w-]+$`));
+
+    const decoded = await decodeShareHash(hash);
+    expect(decoded).not.toBeNull();
+    expect(sceneToData(decoded!.scene)).toEqual(sceneToData(state.scene));
+    expect(decoded!.showSkeletonHands).toBe(false);
+    expect(decoded!.activeLayerId).toBe(state.activeLayerId);
+  });
+
+  it('rounds the camera pose', async () => {
+    const state = sharedState();
+    state.scene.camera = { ...state.scene.camera, position: [1.234567891, 4, 10] };
+    const decoded = await decodeShareHash(await encodeShareHash(state));
+    expect(decoded!.scene.camera.position).toEqual([1.2346, 4, 10]);
+  });
+
+  it('ignores hashes without a share link', async () => {
+    expect(await decodeShareHash('')).toBeNull();
+    expect(await decodeShareHash('#section-2')).toBeNull();
+  });
+
+  it('rejects links from a newer version', async () => {
+    const [, rest] = (await encodeShareHash(sharedState())).split(`=${SHARE_LINK_VERSION}.`);
+    await expect(decodeShareHash(`#share=${SHARE_LINK_VERSION + 1}.${rest}`)).rejects.toThrow(/needs a newer version/);
+  });
+
+  it('rejects unknown encodings, cut-short data and incomplete links', async () => {
+    const hash = await encodeShareHash(sharedState());
+    await expect(decodeShareHash(hash.replace('.z.', '.q.'))).rejects.toThrow(/unknown encoding "q"/);
+    await expect(decodeShareHash(hash.slice(0, hash.length / 2))).rejects.toThrow(/damaged/);
+    await expect(decodeShareHash(`#share=${SHARE_LINK_VERSION}.z`)).rejects.toThrow(/incomplete/);
+  });
+
+  it('holds the scene inside to the controls\' ranges', async () => {
+    const state = sharedState();
+    state.scene.settings = { ...state.scene.settings, resolution: 500 };
+    await expect(decodeShareHash(await encodeShareHash(state))).rejects.toThrow(/"resolution" must be between 10 and 60/);
+  });
+});
@@ -0,0 +1,107 @@
+// Share links: the whole setup (the scene file's contents plus a few view
+// options) packed into the URL hash, so a link or a reload shows exactly
+// what was on screen. The hash is `#share=<version>.<encoding>.<data>`:
+// the link version says how to unpack it, and the scene inside carries its
+// own version, so links made by older builds keep opening.
+
+import { Scene, parseScene, sceneToData } from './sceneFile';
+
+export const SHARE_LINK_VERSION = 1;
+const HASH_KEY = 'share';
+
+// Links longer than this (characters) get truncated by some chat and mail
+// clients; mesh colliders are the usual cause
+export const LONG_SHARE_LINK = 8000;
+
+export interface SharedState {
+  scene: Scene;
+  // View options that are not part of a scene file
+  showSkeletonHands: boolean;
+  activeLayerId: string | null; // Layer the controls were editing
+}
+
+// 'z': deflate-raw compressed JSON; 'j': plain JSON, for browsers without
+// CompressionStream
+type Encoding = 'z' | 'j';
+
+// Camera poses come from orbiting, with far more digits than a view needs
+const roundPose = (values: [number, number, number]): [number, number, number] =>
+  values.map(value => Math.round(value * 1e4) / 1e4) as [number, number, number];
+
+// --- Bytes ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Runs bytes through a CompressionStream or DecompressionStream
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// --- Links ---
+
+export const encodeShareHash = async (state: SharedState): Promise<string> => {
+  const { scene } = state;
+  const json = JSON.stringify({
+    scene: sceneToData({
+      ...scene,
+      camera: { ...scene.camera, position: roundPose(scene.camera.position), target: roundPose(scene.camera.target) }
+    }),
+    showSkeletonHands: state.showSkeletonHands,
+    activeLayerId: state.activeLayerId
+  });
+  const bytes = new TextEncoder().encode(json);
+  const encoding: Encoding = typeof CompressionStream !== 'undefined' ? 'z' : 'j';
+  const data = encoding === 'z' ? await pipe(bytes, new CompressionStream('deflate-raw')) : bytes;
+  return `#${HASH_KEY}=${SHARE_LINK_VERSION}.${encoding}.${toBase64Url(data)}`;
+};
+
+// Null when the hash holds no share link; malformed links are an error. Links
+// come from anywhere, so the scene inside is held to everything a scene file
+// is, settings out of the controls' ranges included.
+export const decodeShareHash = async (hash: string): Promise<SharedState | null> => {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (value === null) return null;
+
+  const [version, encoding, data] = value.split('.');
+  if (!/^\d+$/.test(version ?? '') || data === undefined) throw new Error('The shared link is incomplete');
+  if (Number(version) > SHARE_LINK_VERSION) {
+    throw new Error(`The shared link needs a newer version of the app (link version ${version})`);
+  }
+  if (encoding !== 'z' && encoding !== 'j') throw new Error(`The shared link has an unknown encoding "${encoding}"`);
+  if (encoding === 'z' && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open compressed shared links');
+  }
+
+  let state: Record<string, unknown>;
+  try {
+    const bytes = fromBase64Url(data);
+    const json = new TextDecoder().decode(encoding === 'z' ? await pipe(bytes, new DecompressionStream('deflate-raw')) : bytes);
+    state = JSON.parse(json);
+  } catch {
+    throw new Error('The shared link is damaged (was it cut short?)');
+  }
+  if (typeof state !== 'object' || state === null) throw new Error('The shared link is damaged');
+
+  const scene = parseScene(state.scene, 'The shared link');
+  const activeLayerId = typeof state.activeLayerId === 'string' && scene.layers.some(layer => layer.id === state.activeLayerId)
+    ? state.activeLayerId
+    : null;
+  return {
+    scene,
+    showSkeletonHands: typeof state.showSkeletonHands === 'boolean' ? state.showSkeletonHands : true,
+    activeLayerId
+  };
+};
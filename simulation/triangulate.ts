@@ -0,0 +1,159 @@
+// Fills a flat polygon with evenly sized triangles for simulation: the
+// outline is resampled at the target edge length, the inside is seeded with
+// a triangular lattice, and the points are joined by a Delaunay triangulation
+// (Bowyer-Watson) trimmed back to the outline.
+
+export type Vec2 = [number, number];
+
+export interface PolygonMesh {
+  // Flat coordinates, xy per point
+  points: number[];
+  // Counter-clockwise triangles
+  triangles: number[];
+  // Per outline edge, the point indices along it from its start to its end
+  edgePoints: number[][];
+}
+
+export const signedArea = (outline: Vec2[]) => {
+  let area = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const [x1, y1] = outline[i];
+    const [x2, y2] = outline[(i + 1) % outline.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+};
+
+export const pointInPolygon = (outline: Vec2[], x: number, y: number) => {
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const [xi, yi] = outline[i];
+    const [xj, yj] = outline[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToSegmentSq = (px: number, py: number, [ax, ay]: Vec2, [bx, by]: Vec2) => {
+  const abx = bx - ax;
+  const aby = by - ay;
+  const lenSq = abx * abx + aby * aby;
+  const t = lenSq > 0 ? Math.min(1, Math.max(0, ((px - ax) * abx + (py - ay) * aby) / lenSq)) : 0;
+  const dx = px - (ax + abx * t);
+  const dy = py - (ay + aby * t);
+  return dx * dx + dy * dy;
+};
+
+// Delaunay triangulation of a point set, counter-clockwise triangles
+const delaunay = (points: number[]): number[] => {
+  const n = points.length / 2;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < n; i++) {
+    minX = Math.min(minX, points[i * 2]); maxX = Math.max(maxX, points[i * 2]);
+    minY = Math.min(minY, points[i * 2 + 1]); maxY = Math.max(maxY, points[i * 2 + 1]);
+  }
+  // Super-triangle enclosing everything; its corners are appended after the points
+  const size = Math.max(maxX - minX, maxY - minY, 1e-6) * 20;
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const xs = [...points.filter((_, k) => k % 2 === 0), cx - size, cx + size, cx];
+  const ys = [...points.filter((_, k) => k % 2 === 1), cy - size, cy - size, cy + size];
+
+  interface Triangle { a: number; b: number; c: number; ox: number; oy: number; rSq: number }
+  const makeTriangle = (a: number, b: number, c: number): Triangle => {
+    // Keep counter-clockwise order
+    const cross = (xs[b] - xs[a]) * (ys[c] - ys[a]) - (ys[b] - ys[a]) * (xs[c] - xs[a]);
+    if (cross < 0) [b, c] = [c, b];
+    const ax = xs[a], ay = ys[a], bx = xs[b], by = ys[b], qx = xs[c], qy = ys[c];
+    const d = 2 * (ax * (by - qy) + bx * (qy - ay) + qx * (ay - by));
+    const aSq = ax * ax + ay * ay, bSq = bx * bx + by * by, cSq = qx * qx + qy * qy;
+    const ox = d === 0 ? ax : (aSq * (by - qy) + bSq * (qy - ay) + cSq * (ay - by)) / d;
+    const oy = d === 0 ? ay : (aSq * (qx - bx) + bSq * (ax - qx) + cSq * (bx - ax)) / d;
+    return { a, b, c, ox, oy, rSq: d === 0 ? Infinity : (ax - ox) ** 2 + (ay - oy) ** 2 };
+  };
+
+  let triangles: Triangle[] = [makeTriangle(n, n + 1, n + 2)];
+  for (let p = 0; p < n; p++) {
+    const px = xs[p];
+    const py = ys[p];
+    const bad: Triangle[] = [];
+    const kept: Triangle[] = [];
+    for (const t of triangles) {
+      if ((px - t.ox) ** 2 + (py - t.oy) ** 2 < t.rSq) bad.push(t);
+      else kept.push(t);
+    }
+
+    // Boundary of the cavity: edges used by exactly one bad triangle
+    const edges = new Map<string, [number, number]>();
+    for (const t of bad) {
+      for (const [u, v] of [[t.a, t.b], [t.b, t.c], [t.c, t.a]]) {
+        const key = u < v ? `${u},${v}` : `${v},${u}`;
+        if (edges.has(key)) edges.delete(key);
+        else edges.set(key, [u, v]);
+      }
+    }
+    edges.forEach(([u, v]) => kept.push(makeTriangle(u, v, p)));
+    triangles = kept;
+  }
+
+  const result: number[] = [];
+  for (const t of triangles) {
+    if (t.a < n && t.b < n && t.c < n) result.push(t.a, t.b, t.c);
+  }
+  return result;
+};
+
+// `outline` must be a simple counter-clockwise polygon; `spacing` is the
+// target edge length
+export const triangulatePolygon = (outline: Vec2[], spacing: number): PolygonMesh => {
+  const points: number[] = [];
+  const edgePoints: number[][] = [];
+
+  // Outline, resampled so no boundary edge is longer than the spacing
+  for (let k = 0; k < outline.length; k++) {
+    const [ax, ay] = outline[k];
+    const [bx, by] = outline[(k + 1) % outline.length];
+    const segments = Math.max(1, Math.round(Math.hypot(bx - ax, by - ay) / spacing));
+    const along: number[] = [];
+    for (let s = 0; s < segments; s++) {
+      along.push(points.length / 2);
+      points.push(ax + ((bx - ax) * s) / segments, ay + ((by - ay) * s) / segments);
+    }
+    edgePoints.push(along);
+  }
+  // Each edge ends where the next one starts
+  const boundaryCount = points.length / 2;
+  edgePoints.forEach((along, k) => along.push(edgePoints[(k + 1) % edgePoints.length][0] ?? 0));
+  if (boundaryCount === 0) return { points, triangles: [], edgePoints };
+
+  // Interior lattice, kept clear of the outline so no slivers form against it
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of outline) {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }
+  const rowHeight = (spacing * Math.sqrt(3)) / 2;
+  const clearanceSq = (spacing * 0.5) ** 2;
+  for (let row = 0, y = minY + rowHeight / 2; y < maxY; row++, y += rowHeight) {
+    for (let x = minX + (row % 2 === 0 ? spacing / 2 : spacing); x < maxX; x += spacing) {
+      if (!pointInPolygon(outline, x, y)) continue;
+      let clear = true;
+      for (let k = 0; k < outline.length && clear; k++) {
+        clear = distanceToSegmentSq(x, y, outline[k], outline[(k + 1) % outline.length]) >= clearanceSq;
+      }
+      if (clear) points.push(x, y);
+    }
+  }
+
+  // Drop triangles outside a concave outline
+  const all = delaunay(points);
+  const triangles: number[] = [];
+  for (let t = 0; t < all.length; t += 3) {
+    const [a, b, c] = [all[t], all[t + 1], all[t + 2]];
+    const mx = (points[a * 2] + points[b * 2] + points[c * 2]) / 3;
+    const my = (points[a * 2 + 1] + points[b * 2 + 1] + points[c * 2 + 1]) / 3;
+    if (pointInPolygon(outline, mx, my)) triangles.push(a, b, c);
+  }
+
+  return { points, triangles, edgePoints };
+};
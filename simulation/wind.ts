@@ -0,0 +1,55 @@
+// Wind field and the aerodynamic constants used for per-triangle cloth forces.
+// The field is a deterministic function of time and position, so a worker, the
+// main thread and a replay all see the same gusts.
+
+export interface WindSettings {
+  enabled: boolean; // Aerodynamic forces on/off (off also skips still-air drag)
+  speed: number; // Mean wind speed (m/s)
+  direction: number; // Degrees around the vertical axis; 0 blows along +X, 90 along +Z
+  turbulence: number; // 0-1: gust strength and swirl around the mean flow
+}
+
+export const DEFAULT_WIND: WindSettings = {
+  enabled: false,
+  speed: 4,
+  direction: 90,
+  turbulence: 0.4
+};
+
+export const isSameWind = (a: WindSettings, b: WindSettings) =>
+  a.enabled === b.enabled && a.speed === b.speed && a.direction === b.direction && a.turbulence === b.turbulence;
+
+export const AIR_DENSITY = 1.2; // kg/m³ at sea level
+// Thin flat plate: drag along the relative flow, lift across it
+export const DRAG_COEFFICIENT = 1.0;
+export const LIFT_COEFFICIENT = 0.5;
+
+// Air velocity at (x, y, z) and `time` seconds, written into `out`
+export const windVelocity = (
+  wind: WindSettings,
+  time: number,
+  x: number,
+  y: number,
+  z: number,
+  out: Float64Array
+) => {
+  const heading = (wind.direction * Math.PI) / 180;
+  const dirX = Math.cos(heading);
+  const dirZ = Math.sin(heading);
+
+  // Gusts are carried by the flow: sample the gust signal at the moment the
+  // air now at this point passed the origin
+  const t = time - (x * dirX + z * dirZ) / Math.max(wind.speed, 1);
+  const gust = 0.5 * Math.sin(t * 1.3) + 0.3 * Math.sin(t * 3.1 + 1.7) + 0.2 * Math.sin(t * 7.3 + 0.4);
+  const speed = wind.speed * Math.max(0, 1 + wind.turbulence * gust);
+
+  // Turbulence also swings the direction and adds small up/down drafts
+  const swirl = wind.turbulence * 0.4 * Math.sin(t * 2.3 + y * 1.1);
+  const draft = wind.turbulence * 0.2 * Math.sin(t * 1.7 + x * 0.9 + z * 0.7);
+  const c = Math.cos(swirl);
+  const s = Math.sin(swirl);
+
+  out[0] = speed * (dirX * c - dirZ * s);
+  out[1] = speed * draft;
+  out[2] = speed * (dirZ * c + dirX * s);
+};
@@ -0,0 +1,39 @@
+import type { ConstraintGroup, SolverSettings, SolverStats } from './ClothSolver';
+
+// Messages exchanged between ClothSimulation and clothWorker.
+// Positions and normals are not sent in messages: the worker writes them into
+// a SharedArrayBuffer laid out as
+// [positions | positions one fixed step earlier | normals], each capacity * 3
+// floats (capacity leaves room for particles split off by tearing).
+
+// Flat quadruples: particle index, target x, y, z
+export type PinList = number[];
+
+export type WorkerRequest =
+  | {
+      type: 'init';
+      positions: Float32Array;
+      indices: Uint32Array;
+      vertexAreas: Float32Array;
+      constraints: ConstraintGroup[];
+      capacity: number;
+      buffer: SharedArrayBuffer;
+    }
+  | {
+      type: 'step';
+      dt: number; // Solver step length
+      steps: number; // Fixed steps to run
+      substeps: number; // Solver steps per fixed step
+      pins: PinList;
+      settings?: Partial<SolverSettings>;
+    };
+
+// Sent along with a step result when tearing changed the mesh
+export interface TopologyUpdate {
+  version: number;
+  count: number;
+  indices: Uint32Array;
+  origins: Uint32Array;
+}
+
+export type WorkerResponse = { type: 'stepped'; stats: SolverStats; topology?: TopologyUpdate };
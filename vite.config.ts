@@ -2,12 +2,24 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Cross-origin isolation exposes SharedArrayBuffer, which the worker-backed
+// cloth simulation needs. "credentialless" keeps CDN scripts (MediaPipe,
+// Tailwind) loading without CORP headers.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        headers: crossOriginIsolationHeaders,
+      },
+      preview: {
+        headers: crossOriginIsolationHeaders,
       },
       // Needed for GitHub Pages (serves from /FabricDraper)
       base: '/FabricDraper/',